@@ -0,0 +1,166 @@
+/**
+ * Client for the SupplyChain entities of docs/SUBGRAPH_SCHEMA.md. Queries
+ * stick to what graph-node generates (first/where/orderBy, `and`/`or`
+ * filters), so the same endpoint URL can be a subgraph on The Graph or the
+ * self-hosted indexer's /graphql.
+ */
+
+export type ProductStatus = "MINTED" | "IN_TRANSIT" | "DELIVERED" | "DISPUTED" | "SLASHED" | "REFUNDED";
+export type TransferStatus = "PENDING" | "ACCEPTED" | "TIMEDOUT" | "BLOCKED_BY_DISPUTE";
+export type DisputeStatus = "ACTIVE" | "RESOLVED" | "CLAIMED_REFUND";
+
+/** BigInt fields (wei, unix seconds) arrive as decimal strings. */
+export interface ProductSummary {
+  id: string;
+  batch: {id: string};
+  manufacturer: string;
+  currentOwner: string;
+  status: ProductStatus;
+  createdAt: string;
+  lastUpdatedAt: string;
+}
+
+export interface TransferRecord {
+  id: string;
+  from: string;
+  to: string;
+  status: TransferStatus;
+  initiatedAt: string;
+  acceptedAt: string | null;
+}
+
+export interface DisputeRecord {
+  id: string;
+  initiator: string;
+  reason: string;
+  status: DisputeStatus;
+  raisedAt: string;
+  resolvedAt: string | null;
+  manufacturerWon: boolean | null;
+}
+
+export interface ProvenanceEntry {
+  handler: string;
+  action: string;
+  locationHash: string;
+  timestamp: string;
+  transactionHash: string;
+}
+
+export interface ProductLineage extends ProductSummary {
+  transfers: TransferRecord[];
+  disputes: DisputeRecord[];
+  provenance: ProvenanceEntry[];
+}
+
+export interface ProductFilter {
+  owner?: string;
+  manufacturer?: string;
+  status?: ProductStatus[];
+  /** Unix seconds, inclusive. */
+  createdFrom?: number;
+  createdTo?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Pass as `after` for the next page; null on the last one. */
+  cursor: string | null;
+}
+
+export class GraphQueryError extends Error {
+  constructor(readonly errors: {message: string}[]) {
+    super(errors.map((error) => error.message).join("; "));
+    this.name = "GraphQueryError";
+  }
+}
+
+const PRODUCT_SUMMARY = "id batch { id } manufacturer currentOwner status createdAt lastUpdatedAt";
+
+/** Newest first; `id` breaks ties between products minted in the same block. */
+const PRODUCTS_QUERY = `
+  query Products($first: Int!, $where: Product_filter) {
+    products(first: $first, where: $where, orderBy: createdAt, orderDirection: desc) { ${PRODUCT_SUMMARY} }
+  }
+`;
+
+const PRODUCT_QUERY = `
+  query Product($id: ID!) {
+    product(id: $id) {
+      ${PRODUCT_SUMMARY}
+      transfers(first: 1000, orderBy: transferNumber) { id from to status initiatedAt acceptedAt }
+      disputes(first: 1000, orderBy: raisedAt) { id initiator reason status raisedAt resolvedAt manufacturerWon }
+      provenance(first: 1000, orderBy: timestamp) { handler action locationHash timestamp transactionHash }
+    }
+  }
+`;
+
+/** Opaque to callers: the sort key of the last product on a page. */
+interface Cursor {
+  createdAt: string;
+  id: string;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(cursor: string): Cursor {
+  return JSON.parse(atob(cursor)) as Cursor;
+}
+
+function productWhere(filter: ProductFilter, after?: string): Record<string, unknown> {
+  const where: Record<string, unknown> = {};
+  if (filter.owner) where.currentOwner = filter.owner.toLowerCase();
+  if (filter.manufacturer) where.manufacturer = filter.manufacturer.toLowerCase();
+  if (filter.status) where.status_in = filter.status;
+  if (filter.createdFrom !== undefined) where.createdAt_gte = String(filter.createdFrom);
+  if (filter.createdTo !== undefined) where.createdAt_lte = String(filter.createdTo);
+  if (!after) return where;
+  // graph-node rejects `or` next to field filters, so the keyset condition goes through `and`.
+  const {createdAt, id} = decodeCursor(after);
+  return {and: [where, {or: [{createdAt_lt: createdAt}, {createdAt, id_lt: id}]}]};
+}
+
+export function createGraphClient(endpoint: string, fetchImpl: typeof fetch = fetch) {
+  async function request<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const response = await fetchImpl(endpoint, {
+      method: "POST",
+      headers: {"content-type": "application/json"},
+      body: JSON.stringify({query, variables})
+    });
+    const body = (await response.json()) as {data?: T; errors?: {message: string}[]};
+    if (body.errors?.length) throw new GraphQueryError(body.errors);
+    if (!response.ok || !body.data) throw new GraphQueryError([{message: `HTTP ${response.status}`}]);
+    return body.data;
+  }
+
+  return {
+    request,
+
+    /** A product with its transfers, disputes and provenance, oldest first, or null if unknown. */
+    async product(id: string): Promise<ProductLineage | null> {
+      return (await request<{product: ProductLineage | null}>(PRODUCT_QUERY, {id})).product;
+    },
+
+    /** One page of products matching `filter`, newest first. */
+    async products(
+      filter: ProductFilter = {},
+      page: {first?: number; after?: string} = {}
+    ): Promise<Page<ProductSummary>> {
+      const first = page.first ?? 50;
+      const {products} = await request<{products: ProductSummary[]}>(PRODUCTS_QUERY, {
+        first: first + 1,
+        where: productWhere(filter, page.after)
+      });
+      const items = products.slice(0, first);
+      const last = items[items.length - 1];
+      return {
+        items,
+        cursor: products.length > first && last ? encodeCursor({createdAt: last.createdAt, id: last.id}) : null
+      };
+    }
+  };
+}
+
+export type GraphClient = ReturnType<typeof createGraphClient>;
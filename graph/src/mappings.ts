@@ -0,0 +1,378 @@
+import {BigInt, ethereum, store} from "@graphprotocol/graph-ts";
+
+import {
+  BatchRegistered,
+  BatchStatusChanged,
+  DisputeRaised,
+  DisputeResolved,
+  MetaTxExecuted,
+  ProductMinted,
+  ProvenanceRecorded,
+  RelayerApproved,
+  TransferAccepted,
+  TransferInitiated
+} from "../generated/SupplyChain/SupplyChain";
+import {
+  Batch,
+  Dispute,
+  ExpiryDay,
+  ExpirySweep,
+  MetaTransaction,
+  PendingExpiry,
+  Product,
+  ProvenanceRecord,
+  Relayer,
+  Transfer
+} from "../generated/schema";
+
+/** SupplyChain.REFUND_WINDOW: after it the manufacturer may claimRefund an unresolved dispute. */
+const REFUND_WINDOW = BigInt.fromI32(14 * 24 * 60 * 60);
+/** SupplyChain.TRANSFER_TIMEOUT: a transfer not accepted within it can no longer be. */
+const TRANSFER_TIMEOUT = BigInt.fromI32(3 * 24 * 60 * 60);
+/** Pending transfers are filed under the UTC day they expire on. */
+const DAY = BigInt.fromI32(24 * 60 * 60);
+const EXPIRY_SWEEP_ID = "sweep";
+
+export function handleBatchRegistered(event: BatchRegistered): void {
+  let batch = new Batch(event.params.batchId.toString());
+  batch.manufacturer = event.params.manufacturer;
+  batch.createdAt = event.block.timestamp;
+  batch.maxUnits = event.params.maxUnits;
+  batch.status = "ACTIVE";
+  batch.fullyMinted = false;
+  batch.productCount = 0;
+  batch.totalStaked = event.params.stake;
+  batch.totalSlashed = BigInt.zero();
+  batch.disputeCount = 0;
+  batch.openDisputes = 0;
+  batch.block = event.block.number.toI32();
+  batch.transactionHash = event.transaction.hash.toHexString();
+  batch.save();
+}
+
+export function handleBatchStatusChanged(event: BatchStatusChanged): void {
+  let batch = Batch.load(event.params.batchId.toString());
+  if (batch == null) return;
+  // CREATED comes with BatchRegistered; FULLY_MINTED is the only change after it.
+  batch.fullyMinted = event.params.status == "FULLY_MINTED";
+  batch.status = batchStatus(batch);
+  batch.save();
+}
+
+export function handleProductMinted(event: ProductMinted): void {
+  let batch = Batch.load(event.params.batchId.toString());
+  if (batch == null) return;
+
+  let product = new Product(event.params.productId.toString());
+  product.batch = batch.id;
+  product.manufacturer = event.params.owner;
+  product.metadataHash = event.params.metadataHash;
+  product.status = "MINTED";
+  product.currentOwner = event.params.owner;
+  product.createdAt = event.block.timestamp;
+  product.lastUpdatedAt = event.block.timestamp;
+  product.stake = batch.totalStaked.div(batch.maxUnits);
+  product.slashed = BigInt.zero();
+  product.refunded = BigInt.zero();
+  product.transferCount = 0;
+  product.disputeCount = 0;
+  product.block = event.block.number.toI32();
+  product.transactionHash = event.transaction.hash.toHexString();
+  product.save();
+
+  batch.productCount += 1;
+  batch.save();
+}
+
+export function handleTransferInitiated(event: TransferInitiated): void {
+  let product = Product.load(event.params.productId.toString());
+  if (product == null) return;
+  // SupplyChain only lets a transfer replace a pending one that has lapsed.
+  expireCurrentTransfer(product, event.block.timestamp);
+
+  product.transferCount += 1;
+  let transfer = new Transfer(product.id + "-" + product.transferCount.toString());
+  transfer.product = product.id;
+  transfer.transferNumber = product.transferCount;
+  transfer.from = event.params.from;
+  transfer.to = event.params.to;
+  transfer.locationHash = event.params.locationHash;
+  transfer.initiatedAt = event.block.timestamp;
+  transfer.expiresAt = event.block.timestamp.plus(TRANSFER_TIMEOUT);
+  transfer.status = "PENDING";
+  transfer.block = event.block.number.toI32();
+  transfer.transactionHash = event.transaction.hash.toHexString();
+  transfer.save();
+  trackExpiry(transfer);
+
+  product.currentTransfer = transfer.id;
+  product.status = "IN_TRANSIT";
+  product.lastUpdatedAt = event.block.timestamp;
+  product.save();
+}
+
+export function handleTransferAccepted(event: TransferAccepted): void {
+  let product = Product.load(event.params.productId.toString());
+  if (product == null) return;
+
+  let transferId = product.currentTransfer;
+  if (transferId != null) {
+    let transfer = Transfer.load(transferId!);
+    if (transfer != null) {
+      transfer.acceptedAt = event.block.timestamp;
+      transfer.duration = event.block.timestamp.minus(transfer.initiatedAt);
+      transfer.status = "ACCEPTED";
+      transfer.save();
+      untrackExpiry(transfer);
+    }
+  }
+
+  product.currentOwner = event.params.to;
+  product.currentTransfer = null;
+  product.status = "DELIVERED";
+  product.deliveredAt = event.block.timestamp;
+  product.lastUpdatedAt = event.block.timestamp;
+  product.save();
+}
+
+export function handleProvenanceRecorded(event: ProvenanceRecorded): void {
+  let record = new ProvenanceRecord(eventId(event));
+  record.product = event.params.productId.toString();
+  record.handler = event.params.handler;
+  record.locationHash = event.params.locationHash;
+  record.action = event.params.action;
+  record.timestamp = event.block.timestamp;
+  record.block = event.block.number.toI32();
+  record.transactionHash = event.transaction.hash.toHexString();
+  record.save();
+}
+
+export function handleDisputeRaised(event: DisputeRaised): void {
+  let product = Product.load(event.params.productId.toString());
+  if (product == null) return;
+  expireCurrentTransfer(product, event.block.timestamp);
+
+  product.disputeCount += 1;
+  let dispute = new Dispute(product.id + "-" + product.disputeCount.toString());
+  dispute.product = product.id;
+  dispute.disputeNumber = product.disputeCount;
+  dispute.initiator = event.params.disputer;
+  dispute.manufacturer = product.manufacturer;
+  dispute.reason = event.params.reason;
+  dispute.raisedAt = event.block.timestamp;
+  dispute.refundDeadline = event.block.timestamp.plus(REFUND_WINDOW);
+  dispute.status = "ACTIVE";
+  // What SupplyChain puts at stake: the product's share less what earlier disputes slashed.
+  dispute.stakeInvolved = product.stake.minus(product.slashed);
+  dispute.block = event.block.number.toI32();
+  dispute.transactionHash = event.transaction.hash.toHexString();
+  dispute.save();
+
+  // A transfer still pending can no longer be accepted while the dispute is open.
+  let transferId = product.currentTransfer;
+  if (transferId != null) {
+    let transfer = Transfer.load(transferId!);
+    if (transfer != null) {
+      transfer.dispute = dispute.id;
+      transfer.status = "BLOCKED_BY_DISPUTE";
+      transfer.save();
+      untrackExpiry(transfer);
+    }
+  }
+
+  product.activeDispute = dispute.id;
+  product.status = "DISPUTED";
+  product.lastUpdatedAt = event.block.timestamp;
+  product.save();
+
+  let batch = Batch.load(product.batch);
+  if (batch != null) {
+    batch.disputeCount += 1;
+    batch.openDisputes += 1;
+    batch.status = batchStatus(batch);
+    batch.save();
+  }
+}
+
+/**
+ * Emitted both by resolveDispute and by claimRefund. A claim can only come
+ * after the refund deadline, while resolveDispute must happen well before it,
+ * so the block time tells them apart.
+ */
+export function handleDisputeResolved(event: DisputeResolved): void {
+  let product = Product.load(event.params.productId.toString());
+  if (product == null) return;
+  let disputeId = product.activeDispute;
+  if (disputeId == null) return;
+  let dispute = Dispute.load(disputeId!);
+  if (dispute == null) return;
+  let batch = Batch.load(product.batch);
+
+  let amount = event.params.slashedAmount;
+  let claimed = event.block.timestamp >= dispute.refundDeadline;
+  let manufacturerWon = event.params.winner.equals(product.manufacturer);
+  dispute.resolvedAt = event.block.timestamp;
+  dispute.winner = event.params.winner;
+  dispute.manufacturerWon = manufacturerWon;
+  dispute.status = claimed ? "CLAIMED_REFUND" : "RESOLVED";
+  if (manufacturerWon) {
+    dispute.refundAmount = amount;
+    product.refunded = product.refunded.plus(amount);
+    product.status = "REFUNDED";
+  } else {
+    dispute.slashAmount = amount;
+    product.slashed = product.slashed.plus(amount);
+    product.status = "SLASHED";
+    if (batch != null) batch.totalSlashed = batch.totalSlashed.plus(amount);
+  }
+  dispute.save();
+
+  // resolveDispute drops the blocked transfer. claimRefund leaves it in place, but by then it has lapsed.
+  let transferId = product.currentTransfer;
+  if (claimed && transferId != null) {
+    let transfer = Transfer.load(transferId!);
+    if (transfer != null) timeOut(transfer);
+  }
+  product.currentTransfer = null;
+  product.activeDispute = null;
+  product.lastUpdatedAt = event.block.timestamp;
+  product.save();
+
+  if (batch != null) {
+    batch.openDisputes -= 1;
+    batch.status = batchStatus(batch);
+    batch.save();
+  }
+}
+
+export function handleRelayerApproved(event: RelayerApproved): void {
+  let relayer = loadRelayer(event);
+  relayer.status = event.params.approved ? "APPROVED" : "REVOKED";
+  if (event.params.approved) relayer.approvedAt = event.block.timestamp;
+  relayer.save();
+}
+
+export function handleMetaTxExecuted(event: MetaTxExecuted): void {
+  let relayer = loadRelayer(event);
+  relayer.transactionCount += 1;
+  relayer.lastActivityAt = event.block.timestamp;
+  relayer.save();
+
+  let metaTx = new MetaTransaction(eventId(event));
+  metaTx.relayer = relayer.id;
+  metaTx.user = event.params.user;
+  metaTx.nonce = event.params.nonce;
+  metaTx.timestamp = event.block.timestamp;
+  metaTx.block = event.block.number.toI32();
+  metaTx.transactionHash = event.transaction.hash.toHexString();
+  metaTx.save();
+}
+
+/**
+ * Times out the pending transfers that expired before this block; SupplyChain
+ * emits nothing for them. It only runs every 100 blocks, so a TIMEDOUT status
+ * can lag the expiry by up to that many blocks unless an event on the product
+ * reveals it first.
+ */
+export function handleBlock(block: ethereum.Block): void {
+  let sweep = ExpirySweep.load(EXPIRY_SWEEP_ID);
+  if (sweep == null) return;
+  let today = block.timestamp.div(DAY).toI32();
+  for (let day = sweep.nextDay; day <= today; day++) {
+    let bucket = ExpiryDay.load(day.toString());
+    if (bucket == null) continue;
+    let pending = bucket.pending.load();
+    for (let i = 0; i < pending.length; i++) {
+      let transfer = Transfer.load(pending[i].transfer);
+      if (transfer == null || block.timestamp <= transfer.expiresAt) continue;
+      timeOut(transfer);
+      let product = Product.load(transfer.product);
+      if (product == null) continue;
+      let current = product.currentTransfer;
+      if (current != null && current! == transfer.id) returnToSender(product, transfer);
+    }
+    // Everything filed under an earlier day has expired by now.
+    if (day < today) store.remove("ExpiryDay", bucket.id);
+  }
+  if (sweep.nextDay < today) {
+    sweep.nextDay = today;
+    sweep.save();
+  }
+}
+
+/** Times out the product's transfer if it is still pending at `now` but has expired. */
+function expireCurrentTransfer(product: Product, now: BigInt): void {
+  let transferId = product.currentTransfer;
+  if (transferId == null) return;
+  let transfer = Transfer.load(transferId!);
+  if (transfer == null || transfer.status != "PENDING" || now <= transfer.expiresAt) return;
+  timeOut(transfer);
+  returnToSender(product, transfer);
+}
+
+function timeOut(transfer: Transfer): void {
+  transfer.status = "TIMEDOUT";
+  transfer.timedOutAt = transfer.expiresAt;
+  transfer.save();
+  untrackExpiry(transfer);
+}
+
+/** The sender still owns the product, so it goes back to how it was before the transfer. */
+function returnToSender(product: Product, transfer: Transfer): void {
+  product.currentTransfer = null;
+  product.status = product.deliveredAt !== null ? "DELIVERED" : "MINTED";
+  product.lastUpdatedAt = transfer.expiresAt;
+  product.save();
+}
+
+/** Files a new pending transfer under the day it expires, for handleBlock to time out. */
+function trackExpiry(transfer: Transfer): void {
+  let day = transfer.expiresAt.div(DAY);
+  let bucket = ExpiryDay.load(day.toString());
+  if (bucket == null) {
+    bucket = new ExpiryDay(day.toString());
+    bucket.startsAt = day.times(DAY);
+    bucket.save();
+  }
+  let expiry = new PendingExpiry(transfer.id);
+  expiry.transfer = transfer.id;
+  expiry.day = bucket.id;
+  expiry.save();
+
+  if (ExpirySweep.load(EXPIRY_SWEEP_ID) == null) {
+    let sweep = new ExpirySweep(EXPIRY_SWEEP_ID);
+    sweep.nextDay = day.toI32();
+    sweep.save();
+  }
+}
+
+/** Stops handleBlock from checking a transfer that is no longer pending. */
+function untrackExpiry(transfer: Transfer): void {
+  store.remove("PendingExpiry", transfer.id);
+}
+
+/** Disputes open in the batch take precedence over how far minting got. */
+function batchStatus(batch: Batch): string {
+  if (batch.openDisputes > 0) return "DISPUTED";
+  if (batch.disputeCount > 0) return "RESOLVED";
+  return batch.fullyMinted ? "COMPLETED" : "ACTIVE";
+}
+
+/** Both relayer events carry the relayer address as their first parameter. */
+function loadRelayer(event: ethereum.Event): Relayer {
+  let address = event.parameters[0].value.toAddress();
+  let existing = Relayer.load(address.toHexString());
+  if (existing != null) return existing;
+
+  let relayer = new Relayer(address.toHexString());
+  relayer.status = "APPROVED";
+  relayer.approvedAt = event.block.timestamp;
+  relayer.transactionCount = 0;
+  relayer.lastActivityAt = event.block.timestamp;
+  relayer.block = event.block.number.toI32();
+  return relayer;
+}
+
+function eventId(event: ethereum.Event): string {
+  return event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
+}
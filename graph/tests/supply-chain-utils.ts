@@ -0,0 +1,165 @@
+import {Address, BigInt, Bytes, ethereum} from "@graphprotocol/graph-ts";
+import {newMockEvent} from "matchstick-as";
+
+import {
+  BatchRegistered,
+  BatchStatusChanged,
+  DisputeRaised,
+  DisputeResolved,
+  MetaTxExecuted,
+  ProductMinted,
+  ProvenanceRecorded,
+  RelayerApproved,
+  TransferAccepted,
+  TransferInitiated
+} from "../generated/SupplyChain/SupplyChain";
+
+export const MANUFACTURER = Address.fromString("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+export const RECEIVER = Address.fromString("0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc");
+export const RELAYER = Address.fromString("0x90f79bf6eb2c4f870365e785982e1f101e93b906");
+
+let logIndex = 0;
+
+/** A mock event at `timestamp`, each with its own log index so entity ids built from it differ. */
+function mockEvent(timestamp: i32): ethereum.Event {
+  let event = newMockEvent();
+  event.block.timestamp = BigInt.fromI32(timestamp);
+  event.logIndex = BigInt.fromI32(logIndex++);
+  event.parameters = new Array();
+  return event;
+}
+
+/** matchstick has no block factory; a mock event's block serves for handleBlock. */
+export function createBlock(timestamp: i32): ethereum.Block {
+  let block = newMockEvent().block;
+  block.timestamp = BigInt.fromI32(timestamp);
+  return block;
+}
+
+function uint(value: i32): ethereum.Value {
+  return ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(value));
+}
+
+function param(name: string, value: ethereum.Value): ethereum.EventParam {
+  return new ethereum.EventParam(name, value);
+}
+
+export function createBatchRegisteredEvent(
+  batchId: i32,
+  manufacturer: Address,
+  maxUnits: i32,
+  stake: BigInt,
+  timestamp: i32
+): BatchRegistered {
+  let event = changetype<BatchRegistered>(mockEvent(timestamp));
+  event.parameters.push(param("batchId", uint(batchId)));
+  event.parameters.push(param("manufacturer", ethereum.Value.fromAddress(manufacturer)));
+  event.parameters.push(param("maxUnits", uint(maxUnits)));
+  event.parameters.push(param("stake", ethereum.Value.fromUnsignedBigInt(stake)));
+  return event;
+}
+
+export function createBatchStatusChangedEvent(batchId: i32, status: string, timestamp: i32): BatchStatusChanged {
+  let event = changetype<BatchStatusChanged>(mockEvent(timestamp));
+  event.parameters.push(param("batchId", uint(batchId)));
+  event.parameters.push(param("status", ethereum.Value.fromString(status)));
+  event.parameters.push(param("timestamp", uint(timestamp)));
+  return event;
+}
+
+export function createProductMintedEvent(
+  productId: i32,
+  batchId: i32,
+  owner: Address,
+  metadataHash: Bytes,
+  timestamp: i32
+): ProductMinted {
+  let event = changetype<ProductMinted>(mockEvent(timestamp));
+  event.parameters.push(param("productId", uint(productId)));
+  event.parameters.push(param("batchId", uint(batchId)));
+  event.parameters.push(param("owner", ethereum.Value.fromAddress(owner)));
+  event.parameters.push(param("metadataHash", ethereum.Value.fromFixedBytes(metadataHash)));
+  return event;
+}
+
+export function createTransferInitiatedEvent(
+  productId: i32,
+  from: Address,
+  to: Address,
+  locationHash: Bytes,
+  timestamp: i32
+): TransferInitiated {
+  let event = changetype<TransferInitiated>(mockEvent(timestamp));
+  event.parameters.push(param("productId", uint(productId)));
+  event.parameters.push(param("from", ethereum.Value.fromAddress(from)));
+  event.parameters.push(param("to", ethereum.Value.fromAddress(to)));
+  event.parameters.push(param("locationHash", ethereum.Value.fromFixedBytes(locationHash)));
+  return event;
+}
+
+export function createTransferAcceptedEvent(
+  productId: i32,
+  from: Address,
+  to: Address,
+  timestamp: i32
+): TransferAccepted {
+  let event = changetype<TransferAccepted>(mockEvent(timestamp));
+  event.parameters.push(param("productId", uint(productId)));
+  event.parameters.push(param("from", ethereum.Value.fromAddress(from)));
+  event.parameters.push(param("to", ethereum.Value.fromAddress(to)));
+  return event;
+}
+
+export function createProvenanceRecordedEvent(
+  productId: i32,
+  handler: Address,
+  locationHash: Bytes,
+  action: string,
+  timestamp: i32
+): ProvenanceRecorded {
+  let event = changetype<ProvenanceRecorded>(mockEvent(timestamp));
+  event.parameters.push(param("productId", uint(productId)));
+  event.parameters.push(param("handler", ethereum.Value.fromAddress(handler)));
+  event.parameters.push(param("locationHash", ethereum.Value.fromFixedBytes(locationHash)));
+  event.parameters.push(param("action", ethereum.Value.fromString(action)));
+  event.parameters.push(param("timestamp", uint(timestamp)));
+  return event;
+}
+
+export function createDisputeRaisedEvent(productId: i32, disputer: Address, timestamp: i32): DisputeRaised {
+  let event = changetype<DisputeRaised>(mockEvent(timestamp));
+  event.parameters.push(param("productId", uint(productId)));
+  event.parameters.push(param("disputer", ethereum.Value.fromAddress(disputer)));
+  event.parameters.push(param("reason", ethereum.Value.fromString("Dispute raised")));
+  event.parameters.push(param("timestamp", uint(timestamp)));
+  return event;
+}
+
+export function createDisputeResolvedEvent(
+  productId: i32,
+  winner: Address,
+  slashedAmount: BigInt,
+  timestamp: i32
+): DisputeResolved {
+  let event = changetype<DisputeResolved>(mockEvent(timestamp));
+  event.parameters.push(param("productId", uint(productId)));
+  event.parameters.push(param("winner", ethereum.Value.fromAddress(winner)));
+  event.parameters.push(param("slashedAmount", ethereum.Value.fromUnsignedBigInt(slashedAmount)));
+  event.parameters.push(param("timestamp", uint(timestamp)));
+  return event;
+}
+
+export function createRelayerApprovedEvent(relayer: Address, approved: boolean, timestamp: i32): RelayerApproved {
+  let event = changetype<RelayerApproved>(mockEvent(timestamp));
+  event.parameters.push(param("relayer", ethereum.Value.fromAddress(relayer)));
+  event.parameters.push(param("approved", ethereum.Value.fromBoolean(approved)));
+  return event;
+}
+
+export function createMetaTxExecutedEvent(relayer: Address, user: Address, nonce: i32, timestamp: i32): MetaTxExecuted {
+  let event = changetype<MetaTxExecuted>(mockEvent(timestamp));
+  event.parameters.push(param("relayer", ethereum.Value.fromAddress(relayer)));
+  event.parameters.push(param("user", ethereum.Value.fromAddress(user)));
+  event.parameters.push(param("nonce", uint(nonce)));
+  return event;
+}
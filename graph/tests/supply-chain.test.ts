@@ -0,0 +1,206 @@
+import {BigInt, Bytes} from "@graphprotocol/graph-ts";
+import {afterEach, assert, beforeEach, clearStore, describe, test} from "matchstick-as";
+
+import {Product, Transfer} from "../generated/schema";
+import {
+  handleBatchRegistered,
+  handleBatchStatusChanged,
+  handleDisputeRaised,
+  handleBlock,
+  handleDisputeResolved,
+  handleMetaTxExecuted,
+  handleProductMinted,
+  handleProvenanceRecorded,
+  handleRelayerApproved,
+  handleTransferAccepted,
+  handleTransferInitiated
+} from "../src/mappings";
+import {
+  createBatchRegisteredEvent,
+  createBlock,
+  createBatchStatusChangedEvent,
+  createDisputeRaisedEvent,
+  createDisputeResolvedEvent,
+  createMetaTxExecutedEvent,
+  createProductMintedEvent,
+  createProvenanceRecordedEvent,
+  createRelayerApprovedEvent,
+  createTransferAcceptedEvent,
+  createTransferInitiatedEvent,
+  MANUFACTURER,
+  RECEIVER,
+  RELAYER
+} from "./supply-chain-utils";
+
+const STAKE = BigInt.fromString("20000000000000000");
+const PRODUCT_STAKE = "10000000000000000";
+const REFUND_WINDOW = 14 * 24 * 60 * 60;
+const TRANSFER_TIMEOUT = 3 * 24 * 60 * 60;
+const DAY = 24 * 60 * 60;
+const LOCATION = Bytes.fromHexString("0x1111111111111111111111111111111111111111111111111111111111111111");
+
+describe("SupplyChain mappings", () => {
+  beforeEach(() => {
+    handleBatchRegistered(createBatchRegisteredEvent(1, MANUFACTURER, 2, STAKE, 1000));
+    handleProductMinted(createProductMintedEvent(100, 1, MANUFACTURER, LOCATION, 1000));
+  });
+
+  afterEach(() => {
+    clearStore();
+  });
+
+  test("registers a batch and mints products with their share of its stake", () => {
+    assert.fieldEquals("Batch", "1", "manufacturer", MANUFACTURER.toHexString());
+    assert.fieldEquals("Batch", "1", "status", "ACTIVE");
+    assert.fieldEquals("Batch", "1", "totalStaked", STAKE.toString());
+    assert.fieldEquals("Product", "100", "batch", "1");
+    assert.fieldEquals("Product", "100", "status", "MINTED");
+    assert.fieldEquals("Product", "100", "currentOwner", MANUFACTURER.toHexString());
+    assert.fieldEquals("Product", "100", "stake", PRODUCT_STAKE);
+
+    handleBatchStatusChanged(createBatchStatusChangedEvent(1, "FULLY_MINTED", 1100));
+    handleProductMinted(createProductMintedEvent(101, 1, MANUFACTURER, LOCATION, 1100));
+    assert.fieldEquals("Batch", "1", "status", "COMPLETED");
+    assert.fieldEquals("Batch", "1", "productCount", "2");
+  });
+
+  test("follows a transfer from initiation to acceptance", () => {
+    handleTransferInitiated(createTransferInitiatedEvent(100, MANUFACTURER, RECEIVER, LOCATION, 2000));
+    assert.fieldEquals("Transfer", "100-1", "status", "PENDING");
+    assert.fieldEquals("Transfer", "100-1", "to", RECEIVER.toHexString());
+    assert.fieldEquals("Product", "100", "status", "IN_TRANSIT");
+    assert.fieldEquals("Product", "100", "currentTransfer", "100-1");
+
+    handleTransferAccepted(createTransferAcceptedEvent(100, MANUFACTURER, RECEIVER, 2600));
+    assert.fieldEquals("Transfer", "100-1", "status", "ACCEPTED");
+    assert.fieldEquals("Transfer", "100-1", "duration", "600");
+    assert.fieldEquals("Product", "100", "status", "DELIVERED");
+    assert.fieldEquals("Product", "100", "currentOwner", RECEIVER.toHexString());
+    assert.fieldEquals("Product", "100", "deliveredAt", "2600");
+    assert.assertNull(Product.load("100")!.currentTransfer);
+
+    handleTransferInitiated(createTransferInitiatedEvent(100, RECEIVER, MANUFACTURER, LOCATION, 3000));
+    assert.fieldEquals("Transfer", "100-2", "transferNumber", "2");
+    assert.entityCount("Transfer", 2);
+  });
+
+  test("slashes the product's stake when a dispute goes against the manufacturer", () => {
+    handleTransferInitiated(createTransferInitiatedEvent(100, MANUFACTURER, RECEIVER, LOCATION, 2000));
+    handleDisputeRaised(createDisputeRaisedEvent(100, RECEIVER, 3000));
+    assert.fieldEquals("Dispute", "100-1", "status", "ACTIVE");
+    assert.fieldEquals("Dispute", "100-1", "initiator", RECEIVER.toHexString());
+    assert.fieldEquals("Dispute", "100-1", "stakeInvolved", PRODUCT_STAKE);
+    assert.fieldEquals("Dispute", "100-1", "refundDeadline", (3000 + REFUND_WINDOW).toString());
+    assert.fieldEquals("Transfer", "100-1", "dispute", "100-1");
+    assert.fieldEquals("Transfer", "100-1", "status", "BLOCKED_BY_DISPUTE");
+    assert.fieldEquals("Product", "100", "status", "DISPUTED");
+    assert.fieldEquals("Batch", "1", "status", "DISPUTED");
+
+    handleDisputeResolved(createDisputeResolvedEvent(100, RECEIVER, BigInt.fromString("5000000000000000"), 4000));
+    assert.fieldEquals("Dispute", "100-1", "status", "RESOLVED");
+    assert.fieldEquals("Dispute", "100-1", "manufacturerWon", "false");
+    assert.fieldEquals("Dispute", "100-1", "slashAmount", "5000000000000000");
+    assert.fieldEquals("Product", "100", "status", "SLASHED");
+    assert.fieldEquals("Product", "100", "slashed", "5000000000000000");
+    assert.fieldEquals("Batch", "1", "totalSlashed", "5000000000000000");
+    assert.fieldEquals("Batch", "1", "status", "RESOLVED");
+    let product = Product.load("100")!;
+    assert.assertNull(product.activeDispute);
+    // resolveDispute drops the pending transfer along with the dispute.
+    assert.assertNull(product.currentTransfer);
+  });
+
+  test("tells a refund claimed after the window from a resolution", () => {
+    handleDisputeRaised(createDisputeRaisedEvent(100, RECEIVER, 3000));
+    let refund = BigInt.fromString(PRODUCT_STAKE);
+    handleDisputeResolved(createDisputeResolvedEvent(100, MANUFACTURER, refund, 3000 + REFUND_WINDOW));
+    assert.fieldEquals("Dispute", "100-1", "status", "CLAIMED_REFUND");
+    assert.fieldEquals("Dispute", "100-1", "manufacturerWon", "true");
+    assert.fieldEquals("Dispute", "100-1", "refundAmount", PRODUCT_STAKE);
+    assert.fieldEquals("Product", "100", "status", "REFUNDED");
+    assert.fieldEquals("Product", "100", "refunded", PRODUCT_STAKE);
+    assert.fieldEquals("Batch", "1", "openDisputes", "0");
+  });
+
+  test("times out a transfer that is not accepted in time", () => {
+    handleTransferInitiated(createTransferInitiatedEvent(100, MANUFACTURER, RECEIVER, LOCATION, 2000));
+    let expiresAt = (2000 + TRANSFER_TIMEOUT).toString();
+    assert.fieldEquals("Transfer", "100-1", "expiresAt", expiresAt);
+
+    handleBlock(createBlock(2000 + TRANSFER_TIMEOUT));
+    assert.fieldEquals("Transfer", "100-1", "status", "PENDING");
+
+    handleBlock(createBlock(2001 + TRANSFER_TIMEOUT));
+    assert.fieldEquals("Transfer", "100-1", "status", "TIMEDOUT");
+    assert.fieldEquals("Transfer", "100-1", "timedOutAt", expiresAt);
+    assert.fieldEquals("Product", "100", "status", "MINTED");
+    assert.fieldEquals("Product", "100", "currentOwner", MANUFACTURER.toHexString());
+    assert.assertNull(Product.load("100")!.currentTransfer);
+    assert.notInStore("PendingExpiry", "100-1");
+  });
+
+  test("files pending transfers by expiry day and drops the days it has swept", () => {
+    handleProductMinted(createProductMintedEvent(101, 1, MANUFACTURER, LOCATION, 1000));
+    handleTransferInitiated(createTransferInitiatedEvent(100, MANUFACTURER, RECEIVER, LOCATION, 2000));
+    handleTransferInitiated(createTransferInitiatedEvent(101, MANUFACTURER, RECEIVER, LOCATION, 2000 + 2 * DAY));
+    assert.fieldEquals("PendingExpiry", "100-1", "day", "3");
+    assert.fieldEquals("PendingExpiry", "101-1", "day", "5");
+    assert.fieldEquals("ExpirySweep", "sweep", "nextDay", "3");
+
+    handleBlock(createBlock(4 * DAY));
+    assert.fieldEquals("Transfer", "100-1", "status", "TIMEDOUT");
+    assert.fieldEquals("Transfer", "101-1", "status", "PENDING");
+    assert.notInStore("ExpiryDay", "3");
+    assert.fieldEquals("ExpiryDay", "5", "startsAt", (5 * DAY).toString());
+    assert.fieldEquals("ExpirySweep", "sweep", "nextDay", "4");
+  });
+
+  test("times out a lapsed transfer when the next one is initiated", () => {
+    handleTransferInitiated(createTransferInitiatedEvent(100, MANUFACTURER, RECEIVER, LOCATION, 2000));
+    let later = 3000 + TRANSFER_TIMEOUT;
+    handleTransferInitiated(createTransferInitiatedEvent(100, MANUFACTURER, RECEIVER, LOCATION, later));
+    assert.fieldEquals("Transfer", "100-1", "status", "TIMEDOUT");
+    assert.fieldEquals("Transfer", "100-2", "status", "PENDING");
+    assert.fieldEquals("Product", "100", "status", "IN_TRANSIT");
+    assert.fieldEquals("Product", "100", "currentTransfer", "100-2");
+    assert.notInStore("PendingExpiry", "100-1");
+    assert.fieldEquals("PendingExpiry", "100-2", "transfer", "100-2");
+  });
+
+  test("times out a lapsed transfer instead of blocking it on a dispute", () => {
+    handleTransferInitiated(createTransferInitiatedEvent(100, MANUFACTURER, RECEIVER, LOCATION, 2000));
+    handleDisputeRaised(createDisputeRaisedEvent(100, RECEIVER, 3000 + TRANSFER_TIMEOUT));
+    assert.fieldEquals("Transfer", "100-1", "status", "TIMEDOUT");
+    assert.assertNull(Transfer.load("100-1")!.dispute);
+    assert.fieldEquals("Product", "100", "status", "DISPUTED");
+  });
+
+  test("times out the blocked transfer when the manufacturer claims the refund", () => {
+    handleTransferInitiated(createTransferInitiatedEvent(100, MANUFACTURER, RECEIVER, LOCATION, 2000));
+    handleDisputeRaised(createDisputeRaisedEvent(100, RECEIVER, 3000));
+    let refund = BigInt.fromString(PRODUCT_STAKE);
+    handleDisputeResolved(createDisputeResolvedEvent(100, MANUFACTURER, refund, 3000 + REFUND_WINDOW));
+    assert.fieldEquals("Transfer", "100-1", "status", "TIMEDOUT");
+    assert.fieldEquals("Transfer", "100-1", "timedOutAt", (2000 + TRANSFER_TIMEOUT).toString());
+    assert.fieldEquals("Product", "100", "status", "REFUNDED");
+    assert.assertNull(Product.load("100")!.currentTransfer);
+  });
+
+  test("records provenance, relayer approvals and meta-transactions", () => {
+    handleProvenanceRecorded(createProvenanceRecordedEvent(100, MANUFACTURER, LOCATION, "MINTED", 1000));
+    assert.entityCount("ProvenanceRecord", 1);
+
+    handleRelayerApproved(createRelayerApprovedEvent(RELAYER, true, 500));
+    handleMetaTxExecuted(createMetaTxExecutedEvent(RELAYER, MANUFACTURER, 0, 2000));
+    let relayer = RELAYER.toHexString();
+    assert.fieldEquals("Relayer", relayer, "status", "APPROVED");
+    assert.fieldEquals("Relayer", relayer, "approvedAt", "500");
+    assert.fieldEquals("Relayer", relayer, "transactionCount", "1");
+    assert.fieldEquals("Relayer", relayer, "lastActivityAt", "2000");
+    assert.entityCount("MetaTransaction", 1);
+
+    handleRelayerApproved(createRelayerApprovedEvent(RELAYER, false, 3000));
+    assert.fieldEquals("Relayer", relayer, "status", "REVOKED");
+    assert.fieldEquals("Relayer", relayer, "transactionCount", "1");
+  });
+});
@@ -0,0 +1,114 @@
+import {parseEther, type Signer} from "ethers";
+
+import type {SupplyChain} from "../typechain-types";
+
+/** Accounts taking part in the seeded history. */
+export interface SeedAccounts {
+  admin: Signer;
+  manufacturer: Signer;
+  distributor: Signer;
+  retailer: Signer;
+  relayer: Signer;
+}
+
+/** Products the seed leaves in each state. */
+export const SEEDED_PRODUCTS = {
+  /** Manufacturer → distributor → retailer, both accepted. */
+  delivered: 1001n,
+  /** Sent to the distributor and not yet accepted. */
+  inTransit: 1002n,
+  /** Disputed by the distributor while in transit; resolved in the distributor's favour. */
+  slashed: 1003n,
+  /** Sent to the retailer through a meta-transaction paid by the relayer. */
+  relayed: 2001n
+} as const;
+
+/** Batch 1 holds three products and is fully minted; batch 2 has room for more. */
+export const SEEDED_BATCHES = {full: 1n, open: 2n} as const;
+
+const location = (name: string) => `0x${Buffer.from(name.padEnd(32, "\0")).toString("hex")}`;
+
+/**
+ * Gives a freshly deployed SupplyChain a small history touching every event:
+ * batches, mints, accepted and pending transfers, a resolved dispute and a
+ * relayed meta-transaction. `admin` must hold the default admin role.
+ */
+export async function seed(sc: SupplyChain, accounts: SeedAccounts): Promise<void> {
+  const {admin, manufacturer, distributor, retailer, relayer} = accounts;
+  const [manufacturerAddress, distributorAddress, retailerAddress] = await Promise.all(
+    [manufacturer, distributor, retailer].map((signer) => signer.getAddress())
+  );
+  const wait = async (tx: Promise<{wait(): Promise<unknown>}>) => (await tx).wait();
+
+  await wait(sc.connect(admin).grantRoleSafe(await sc.MANUFACTURER(), manufacturerAddress));
+  await wait(sc.connect(admin).approveRelayer(await relayer.getAddress()));
+
+  const maker = sc.connect(manufacturer);
+  await wait(maker.registerBatch(SEEDED_BATCHES.full, 3, {value: parseEther("0.03")}));
+  for (const productId of [SEEDED_PRODUCTS.delivered, SEEDED_PRODUCTS.inTransit, SEEDED_PRODUCTS.slashed]) {
+    await wait(maker.mintProduct(productId, SEEDED_BATCHES.full, location(`product-${productId}`)));
+  }
+  await wait(maker.registerBatch(SEEDED_BATCHES.open, 10, {value: parseEther("0.05")}));
+  await wait(maker.mintProduct(SEEDED_PRODUCTS.relayed, SEEDED_BATCHES.open, location("product-2001")));
+
+  const {delivered, inTransit, slashed, relayed} = SEEDED_PRODUCTS;
+  await wait(maker.initiateTransfer(delivered, distributorAddress, location("factory")));
+  await wait(sc.connect(distributor).acceptTransfer(delivered));
+  await wait(sc.connect(distributor).initiateTransfer(delivered, retailerAddress, location("warehouse")));
+  await wait(sc.connect(retailer).acceptTransfer(delivered));
+
+  await wait(maker.initiateTransfer(inTransit, distributorAddress, location("factory")));
+
+  await wait(maker.initiateTransfer(slashed, distributorAddress, location("factory")));
+  await wait(sc.connect(distributor).raiseDispute(slashed, location("damaged")));
+  await wait(sc.connect(admin).resolveDispute(slashed, distributorAddress));
+
+  const {chainId} = await sc.runner!.provider!.getNetwork();
+  const block = await sc.runner!.provider!.getBlock("latest");
+  const value = {
+    productId: relayed,
+    to: retailerAddress,
+    locationHash: location("factory"),
+    nonce: await sc.nonces(manufacturerAddress),
+    deadline: BigInt(block!.timestamp) + 3600n
+  };
+  const signature = await manufacturer.signTypedData(
+    {name: "SupplyChain", version: "1", chainId, verifyingContract: await sc.getAddress()},
+    {
+      InitiateTransfer: [
+        {name: "productId", type: "uint256"},
+        {name: "to", type: "address"},
+        {name: "locationHash", type: "bytes32"},
+        {name: "nonce", type: "uint256"},
+        {name: "deadline", type: "uint256"}
+      ]
+    },
+    value
+  );
+  await wait(
+    sc
+      .connect(relayer)
+      .executeMetaTx(manufacturerAddress, relayed, value.to, value.locationHash, value.nonce, value.deadline, signature)
+  );
+}
+
+/** `npx hardhat run scripts/seed.ts --network localhost` deploys a SupplyChain and seeds it. */
+async function main(): Promise<void> {
+  // Loaded here so importing seed() does not start a hardhat runtime of this package.
+  const {ethers} = await import("hardhat");
+  const [admin, manufacturer, distributor, retailer, relayer] = await ethers.getSigners();
+  const deployed = await (await ethers.getContractFactory("SupplyChain")).deploy(admin.address);
+  const deployment = await deployed.deploymentTransaction()!.wait();
+  const sc = deployed as unknown as SupplyChain;
+  await seed(sc, {admin, manufacturer, distributor, retailer, relayer});
+
+  console.log(`SupplyChain deployed at ${await sc.getAddress()} in block ${deployment!.blockNumber}`);
+  console.log(`seeded up to block ${await ethers.provider.getBlockNumber()}`);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,23 @@
+import path from "path";
+import {HardhatUserConfig} from "hardhat/config";
+import "@nomicfoundation/hardhat-toolbox";
+
+// Like the relayer, the indexer owns no contracts: tests deploy the SupplyChain
+// artifacts of the sibling hardhat package on the in-process hardhat network.
+const config: HardhatUserConfig = {
+  solidity: {
+    version: "0.8.24",
+    settings: {
+      optimizer: {
+        enabled: true,
+        runs: 200
+      }
+    }
+  },
+  paths: {
+    root: path.join(__dirname, "../hardhat"),
+    tests: path.join(__dirname, "test")
+  }
+};
+
+export default config;
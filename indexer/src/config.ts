@@ -0,0 +1,126 @@
+import {getAddress, isAddress, type Provider} from "ethers";
+
+export interface IndexerConfig {
+  /** Port of the GraphQL API. */
+  port: number;
+  rpcUrl: string;
+  chainId: bigint;
+  supplyChainAddress: string;
+  /** Block the SupplyChain was deployed in; an empty database backfills from here. */
+  deployBlock: number;
+  /** SQLite file holding the read model and the checkpoint. */
+  databasePath: string;
+  /** How long to wait for new blocks once caught up with the chain head. */
+  pollIntervalMs: number;
+  /** Most blocks requested in one eth_getLogs call; many providers cap the range. */
+  blockRange: number;
+  /**
+   * Blocks that must sit on top of a record's last change before it is
+   * marked final. Reorgs reaching deeper than this cannot be rolled back.
+   */
+  confirmations: number;
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`invalid indexer configuration:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/** Reads environment variables, collecting every problem so one startup attempt reports them all. */
+class Reader {
+  readonly problems: string[] = [];
+
+  constructor(private readonly env: NodeJS.ProcessEnv) {}
+
+  private raw(name: string): string | undefined {
+    const value = this.env[name];
+    return value === undefined || value === "" ? undefined : value;
+  }
+
+  private fail<T>(name: string, message: string, fallback: T): T {
+    this.problems.push(`${name}: ${message}`);
+    return fallback;
+  }
+
+  integer(name: string, fallback: number, min = 0): number {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isSafeInteger(parsed) || parsed < min) return this.fail(name, `must be an integer >= ${min}`, fallback);
+    return parsed;
+  }
+
+  uint(name: string): bigint {
+    const value = this.raw(name);
+    if (value === undefined) return this.fail(name, "is required", 0n);
+    if (!/^[0-9]+$/.test(value)) return this.fail(name, "must be a non-negative whole number", 0n);
+    return BigInt(value);
+  }
+
+  string(name: string, fallback: string): string {
+    return this.raw(name) ?? fallback;
+  }
+
+  url(name: string, fallback: string): string {
+    const value = this.string(name, fallback);
+    try {
+      const {protocol} = new URL(value);
+      if (!["http:", "https:", "ws:", "wss:"].includes(protocol)) throw new Error(protocol);
+    } catch {
+      return this.fail(name, "must be an http(s) or ws(s) URL", value);
+    }
+    return value;
+  }
+
+  address(name: string): string {
+    const value = this.raw(name);
+    if (value === undefined) return this.fail(name, "is required", "");
+    if (!isAddress(value)) return this.fail(name, "must be a 0x-prefixed address", value);
+    return getAddress(value);
+  }
+}
+
+/** Builds the indexer's configuration from the environment, throwing a ConfigError listing every problem. */
+export function parseConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  const r = new Reader(env);
+  const config: IndexerConfig = {
+    port: r.integer("PORT", 8000),
+    rpcUrl: r.url("RPC_URL", "http://127.0.0.1:8545"),
+    chainId: r.uint("CHAIN_ID"),
+    supplyChainAddress: r.address("SUPPLY_CHAIN_ADDRESS"),
+    deployBlock: r.integer("SUPPLY_CHAIN_DEPLOY_BLOCK", 0),
+    databasePath: r.string("DATABASE_PATH", "./data/indexer.sqlite"),
+    pollIntervalMs: r.integer("INDEXER_POLL_INTERVAL_MS", 2000, 100),
+    blockRange: r.integer("INDEXER_BLOCK_RANGE", 2000, 1),
+    confirmations: r.integer("INDEXER_CONFIRMATIONS", 12)
+  };
+  if (r.problems.length > 0) throw new ConfigError(r.problems);
+  return config;
+}
+
+/** The configuration as logged at startup: hosted RPC URLs carry their API key in the path or query. */
+export function redactConfig(config: IndexerConfig): Record<string, unknown> {
+  return {...config, rpcUrl: redactUrl(config.rpcUrl)};
+}
+
+/** Scheme, host and port only, e.g. https://mainnet.infura.io/[redacted] for https://mainnet.infura.io/v3/<key>. */
+function redactUrl(value: string): string {
+  const url = new URL(value);
+  const hidden = url.username !== "" || url.password !== "" || url.pathname !== "/" || url.search !== "";
+  return `${url.protocol}//${url.host}${hidden ? "/[redacted]" : ""}`;
+}
+
+/** Checks that the RPC endpoint serves the configured chain and that the contract exists on it. */
+export async function verifyConfigOnChain(config: IndexerConfig, provider: Provider): Promise<void> {
+  const problems: string[] = [];
+  const {chainId} = await provider.getNetwork();
+  if (chainId !== config.chainId) {
+    problems.push(`CHAIN_ID: RPC serves chain ${chainId}, expected ${config.chainId}`);
+  }
+  if ((await provider.getCode(config.supplyChainAddress)) === "0x") {
+    problems.push(`SUPPLY_CHAIN_ADDRESS: no contract deployed at ${config.supplyChainAddress}`);
+  }
+  if (problems.length > 0) throw new ConfigError(problems);
+}
@@ -0,0 +1,261 @@
+import type Database from "better-sqlite3";
+
+/** GraphQL types of read-model columns; BigInt columns hold unix seconds or block numbers. */
+export type FieldType = "ID" | "String" | "Bytes" | "BigInt" | "Int" | "Boolean" | "Enum";
+
+export interface Field {
+  column: string;
+  type: FieldType;
+  /** Accepted in `where`, with the comparison suffixes its type allows. */
+  filter?: boolean;
+  /** Offered in `orderBy`. */
+  order?: boolean;
+}
+
+export type EntityName = "Batch" | "Product" | "Transfer" | "Dispute" | "ProvenanceRecord";
+
+export interface Entity {
+  table: string;
+  /** Plural query field, as The Graph names it. */
+  plural: string;
+  fields: Record<string, Field>;
+  /** Fields holding the id of another entity. */
+  references: Record<string, {entity: EntityName} & Field>;
+  /** Derived lists: entities whose `column` holds this entity's id. */
+  derived: Record<string, {entity: EntityName; column: string}>;
+}
+
+const field = (column: string, type: FieldType, options: Pick<Field, "filter" | "order"> = {}): Field => ({
+  column,
+  type,
+  ...options
+});
+const id = field("id", "ID", {filter: true, order: true});
+const time = (column: string) => field(column, "BigInt", {filter: true, order: true});
+const address = (column: string) => field(column, "Bytes", {filter: true});
+const status = field("status", "Enum", {filter: true});
+const reference = (entity: EntityName, column: string) => ({entity, ...field(column, "String", {filter: true})});
+const origin = {block: field("block", "Int"), transactionHash: field("transaction_hash", "String")};
+
+/**
+ * The read model's tables as the entities of graph/schema.graphql, so that
+ * queries written for the subgraph run unchanged against the indexer.
+ */
+export const ENTITIES: Record<EntityName, Entity> = {
+  Batch: {
+    table: "batches",
+    plural: "batches",
+    fields: {
+      id,
+      manufacturer: address("manufacturer"),
+      createdAt: time("created_at"),
+      maxUnits: field("max_units", "BigInt"),
+      status,
+      fullyMinted: field("fully_minted", "Boolean"),
+      productCount: field("product_count", "Int"),
+      totalStaked: field("total_staked", "BigInt"),
+      totalSlashed: field("total_slashed", "BigInt"),
+      disputeCount: field("dispute_count", "Int"),
+      openDisputes: field("open_disputes", "Int"),
+      ...origin
+    },
+    references: {},
+    derived: {products: {entity: "Product", column: "batch_id"}}
+  },
+  Product: {
+    table: "products",
+    plural: "products",
+    fields: {
+      id,
+      manufacturer: address("manufacturer"),
+      metadataHash: field("metadata_hash", "Bytes"),
+      status,
+      currentOwner: address("current_owner"),
+      createdAt: time("created_at"),
+      lastUpdatedAt: time("last_updated_at"),
+      deliveredAt: time("delivered_at"),
+      stake: field("stake", "BigInt"),
+      slashed: field("slashed", "BigInt"),
+      refunded: field("refunded", "BigInt"),
+      transferCount: field("transfer_count", "Int"),
+      disputeCount: field("dispute_count", "Int"),
+      ...origin
+    },
+    references: {
+      batch: reference("Batch", "batch_id"),
+      currentTransfer: reference("Transfer", "current_transfer_id"),
+      activeDispute: reference("Dispute", "active_dispute_id")
+    },
+    derived: {
+      transfers: {entity: "Transfer", column: "product_id"},
+      disputes: {entity: "Dispute", column: "product_id"},
+      provenance: {entity: "ProvenanceRecord", column: "product_id"}
+    }
+  },
+  Transfer: {
+    table: "transfers",
+    plural: "transfers",
+    fields: {
+      id,
+      transferNumber: field("transfer_number", "Int", {order: true}),
+      from: address("from_address"),
+      to: address("to_address"),
+      locationHash: field("location_hash", "Bytes"),
+      initiatedAt: time("initiated_at"),
+      expiresAt: time("expires_at"),
+      acceptedAt: time("accepted_at"),
+      timedOutAt: time("timed_out_at"),
+      duration: field("duration", "BigInt"),
+      status,
+      ...origin
+    },
+    references: {product: reference("Product", "product_id"), dispute: reference("Dispute", "dispute_id")},
+    derived: {}
+  },
+  Dispute: {
+    table: "disputes",
+    plural: "disputes",
+    fields: {
+      id,
+      disputeNumber: field("dispute_number", "Int", {order: true}),
+      initiator: address("initiator"),
+      manufacturer: address("manufacturer"),
+      reason: field("reason", "String"),
+      raisedAt: time("raised_at"),
+      resolvedAt: time("resolved_at"),
+      refundDeadline: field("refund_deadline", "BigInt"),
+      status,
+      manufacturerWon: field("manufacturer_won", "Boolean"),
+      winner: address("winner"),
+      stakeInvolved: field("stake_involved", "BigInt"),
+      slashAmount: field("slash_amount", "BigInt"),
+      refundAmount: field("refund_amount", "BigInt"),
+      ...origin
+    },
+    references: {product: reference("Product", "product_id")},
+    derived: {}
+  },
+  ProvenanceRecord: {
+    table: "provenance",
+    plural: "provenanceRecords",
+    fields: {
+      id,
+      handler: address("handler"),
+      locationHash: field("location_hash", "Bytes"),
+      action: field("action", "String", {filter: true}),
+      timestamp: time("timestamp"),
+      ...origin
+    },
+    references: {product: reference("Product", "product_id")},
+    derived: {}
+  }
+};
+
+/** Comparison suffixes per field type, as The Graph generates them; "" is equality. */
+export const FILTER_SUFFIXES: Record<FieldType, string[]> = {
+  ID: ["", "_not", "_gt", "_lt", "_gte", "_lte", "_in", "_not_in"],
+  String: ["", "_not", "_gt", "_lt", "_gte", "_lte", "_in", "_not_in"],
+  BigInt: ["", "_not", "_gt", "_lt", "_gte", "_lte", "_in", "_not_in"],
+  Int: ["", "_not", "_gt", "_lt", "_gte", "_lte", "_in", "_not_in"],
+  Bytes: ["", "_not", "_in", "_not_in"],
+  Enum: ["", "_not", "_in", "_not_in"],
+  Boolean: ["", "_not"]
+};
+
+const OPERATORS: Record<string, string> = {"": "=", _not: "!=", _gt: ">", _lt: "<", _gte: ">=", _lte: "<="};
+
+export type Filter = Record<string, unknown> & {and?: Filter[]; or?: Filter[]};
+
+export interface ListArgs {
+  first: number;
+  skip: number;
+  where?: Filter;
+  orderBy?: string;
+  orderDirection?: "asc" | "desc";
+}
+
+/** The Graph's limits on a single list field. */
+export const MAX_FIRST = 1000;
+export const MAX_SKIP = 5000;
+
+export type Row = Record<string, unknown>;
+
+/** Filterable fields of `entity`, references included. */
+export function filterFields(entity: Entity): Record<string, Field> {
+  const all: Record<string, Field> = {...entity.fields, ...entity.references};
+  return Object.fromEntries(Object.entries(all).filter(([, f]) => f.filter));
+}
+
+/** Reads entities from the read model, translating GraphQL arguments into SQL. */
+export class EntityReader {
+  constructor(private readonly db: Database.Database) {}
+
+  load(name: EntityName, entityId: string): Row | undefined {
+    return this.db.prepare(`SELECT * FROM ${ENTITIES[name].table} WHERE id = ?`).get(entityId) as Row | undefined;
+  }
+
+  /**
+   * A page of `name`, ordered by `orderBy` with `id` breaking ties so that a
+   * `where` on the last row's values (the keyset cursor) continues the page
+   * exactly. `scope` restricts it to the children of one parent.
+   */
+  list(name: EntityName, args: ListArgs, scope?: {column: string; id: string}): Row[] {
+    const entity = ENTITIES[name];
+    const params: unknown[] = [];
+    const conditions = [this.condition(entity, args.where ?? {}, params)];
+    if (scope) {
+      conditions.push(`${scope.column} = ?`);
+      params.push(scope.id);
+    }
+    const direction = args.orderDirection === "desc" ? "DESC" : "ASC";
+    const order = args.orderBy && args.orderBy !== "id" ? `${entity.fields[args.orderBy].column} ${direction}, ` : "";
+    params.push(args.first, args.skip);
+    return this.db
+      .prepare(
+        `SELECT * FROM ${entity.table} WHERE ${conditions.join(" AND ")}
+         ORDER BY ${order}id ${direction} LIMIT ? OFFSET ?`
+      )
+      .all(...params) as Row[];
+  }
+
+  private condition(entity: Entity, filter: Filter, params: unknown[]): string {
+    const fields = filterFields(entity);
+    const parts: string[] = [];
+    for (const [key, value] of Object.entries(filter)) {
+      if (key === "and" || key === "or") {
+        const nested = (value as Filter[]).map((sub) => `(${this.condition(entity, sub, params)})`);
+        if (nested.length > 0) parts.push(`(${nested.join(key === "and" ? " AND " : " OR ")})`);
+        continue;
+      }
+      const [name, suffix] = splitFilterKey(key, fields);
+      const {column, type} = fields[name];
+      if (suffix === "_in" || suffix === "_not_in") {
+        const values = (value as unknown[]).map((v) => sqlValue(type, v));
+        params.push(...values);
+        parts.push(`${column} ${suffix === "_in" ? "IN" : "NOT IN"} (${values.map(() => "?").join(", ")})`);
+      } else if (value === null) {
+        parts.push(`${column} ${suffix === "_not" ? "IS NOT NULL" : "IS NULL"}`);
+      } else {
+        params.push(sqlValue(type, value));
+        parts.push(`${column} ${OPERATORS[suffix]} ?`);
+      }
+    }
+    return parts.length > 0 ? parts.join(" AND ") : "1 = 1";
+  }
+}
+
+function splitFilterKey(key: string, fields: Record<string, Field>): [string, string] {
+  for (const suffix of ["_not_in", "_in", "_not", "_gte", "_lte", "_gt", "_lt"]) {
+    const name = key.slice(0, -suffix.length);
+    if (key.endsWith(suffix) && fields[name]) return [name, suffix];
+  }
+  return [key, ""];
+}
+
+/** Addresses and hashes are stored lower-case; BigInt filters only apply to integer columns. */
+function sqlValue(type: FieldType, value: unknown): unknown {
+  if (type === "Bytes") return String(value).toLowerCase();
+  if (type === "BigInt") return Number(value);
+  if (type === "Boolean") return value ? 1 : 0;
+  return value;
+}
@@ -0,0 +1,187 @@
+import type {Block, Provider} from "ethers";
+
+import type {IndexerConfig} from "./config";
+import type {BlockHeader, Checkpoint, IndexerStore} from "./store";
+import {decodeEvent, INDEXED_TOPICS, type SupplyChainEvent} from "./supplyChain";
+
+export interface IndexerDeps {
+  provider: Pick<Provider, "getBlockNumber" | "getBlock" | "getLogs">;
+  store: IndexerStore;
+}
+
+/** The settings EventIndexer uses. */
+export type IndexerOptions = Pick<
+  IndexerConfig,
+  "supplyChainAddress" | "deployBlock" | "pollIntervalMs" | "blockRange" | "confirmations"
+>;
+
+/** What one sync() call covered; `from` > `to` when there was nothing new. */
+export interface SyncResult {
+  from: number;
+  to: number;
+  events: number;
+  /** Blocks the read model was rolled back to because later ones were orphaned. */
+  forks: number[];
+}
+
+/** The chain replaced blocks that are already final, or older than any stored hash. */
+export class ReorgTooDeepError extends Error {
+  constructor(readonly checkpoint: number) {
+    super(`chain reorganized below the stored block hashes (checkpoint ${checkpoint}); reindex into a new database`);
+    this.name = "ReorgTooDeepError";
+  }
+}
+
+/**
+ * Follows SupplyChain logs into the store. Each block range is fetched with
+ * one eth_getLogs call and committed together with the checkpoint, so a
+ * restart resumes after the last committed range and an empty database
+ * backfills from the deployment block.
+ *
+ * Before each range the indexer checks that the first new block's parent is
+ * the checkpoint. When it is not, the chain reorganized: the store is rolled
+ * back to the newest stored block still on the chain and indexing carries on
+ * from there. Records are final once `confirmations` blocks sit on top of the
+ * block that last changed them.
+ */
+export class EventIndexer {
+  private running?: Promise<void>;
+  private stopped = false;
+  private wake?: () => void;
+
+  constructor(
+    private readonly config: IndexerOptions,
+    private readonly deps: IndexerDeps
+  ) {}
+
+  /** Indexes every block up to the current chain head, first undoing any orphaned ones. */
+  async sync(): Promise<SyncResult> {
+    const head = await this.deps.provider.getBlockNumber();
+    const from = this.next();
+    const result: SyncResult = {from, to: head, events: 0, forks: []};
+    while (!this.stopped) {
+      const checkpoint = this.deps.store.checkpoint();
+      if (checkpoint && !(await this.onChain(checkpoint, head))) {
+        result.forks.push(await this.rollBack(checkpoint));
+        continue;
+      }
+      const start = this.next();
+      if (start > head) break;
+      result.events += await this.indexRange(start, Math.min(start + this.config.blockRange - 1, head), head);
+    }
+    return result;
+  }
+
+  /** Syncs, then keeps polling for new blocks until stop(); sync errors are logged and retried. */
+  start(): void {
+    if (this.running) return;
+    this.stopped = false;
+    this.running = this.loop();
+  }
+
+  /** Lets the range in flight commit, then stops polling. */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.wake?.();
+    await this.running;
+    this.running = undefined;
+  }
+
+  private async loop(): Promise<void> {
+    while (!this.stopped) {
+      try {
+        const {from, to, events, forks} = await this.sync();
+        for (const fork of forks) console.warn(`indexer: chain reorganized; rolled back to block ${fork}`);
+        if (events > 0) console.log(`indexer: indexed ${events} events in blocks ${from}-${to}`);
+      } catch (err) {
+        console.error("indexer: sync failed", err);
+      }
+      if (this.stopped) break;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.config.pollIntervalMs);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  }
+
+  private next(): number {
+    const checkpoint = this.deps.store.checkpoint();
+    return checkpoint ? checkpoint.blockNumber + 1 : this.config.deployBlock;
+  }
+
+  /**
+   * Whether the checkpoint is still part of the chain: the parent of the
+   * block after it, or the block itself once the indexer has caught up.
+   */
+  private async onChain(checkpoint: Checkpoint, head: number): Promise<boolean> {
+    if (checkpoint.blockNumber < head) {
+      return (await this.block(checkpoint.blockNumber + 1)).parentHash === checkpoint.blockHash;
+    }
+    const tip = await this.deps.provider.getBlock(checkpoint.blockNumber);
+    return tip?.hash === checkpoint.blockHash;
+  }
+
+  /** Rolls the store back to the newest stored block the chain still has, returning its number. */
+  private async rollBack(checkpoint: Checkpoint): Promise<number> {
+    for (const stored of this.deps.store.recentBlocks()) {
+      const current = await this.deps.provider.getBlock(stored.number);
+      if (current?.hash === stored.hash) {
+        this.deps.store.rollback({blockNumber: stored.number, blockHash: stored.hash});
+        return stored.number;
+      }
+    }
+    throw new ReorgTooDeepError(checkpoint.blockNumber);
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number, head: number): Promise<number> {
+    const {provider, store} = this.deps;
+    const finalizedBlock = head - this.config.confirmations;
+    const logs = await provider.getLogs({
+      address: this.config.supplyChainAddress,
+      topics: [INDEXED_TOPICS],
+      fromBlock,
+      toBlock
+    });
+
+    // Hashes are kept for every block a reorg could still replace (and the
+    // newest final one, where a rollback stops), plus the range's last block.
+    const numbers = new Set([toBlock, ...logs.map((log) => log.blockNumber)]);
+    for (let number = Math.max(fromBlock, finalizedBlock); number <= toBlock; number++) numbers.add(number);
+    const blocks = new Map<number, Block>();
+    for (const number of [...numbers].sort((a, b) => a - b)) blocks.set(number, await this.block(number));
+
+    for (const [number, block] of blocks) {
+      const parent = blocks.get(number - 1);
+      if (parent && block.parentHash !== parent.hash) throw this.moved(fromBlock, toBlock);
+    }
+    const events: SupplyChainEvent[] = [];
+    for (const log of [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)) {
+      const block = blocks.get(log.blockNumber)!;
+      if (log.blockHash !== block.hash) throw this.moved(fromBlock, toBlock);
+      const event = decodeEvent(log, block.timestamp);
+      if (event) events.push(event);
+    }
+
+    const headers: BlockHeader[] = [...blocks.values()]
+      .filter((block) => block.number >= finalizedBlock || block.number === toBlock)
+      .map((block) => ({number: block.number, hash: block.hash!, parentHash: block.parentHash}));
+    const last = blocks.get(toBlock)!;
+    const to = {blockNumber: toBlock, blockHash: last.hash!};
+    store.apply({events, blocks: headers, to, timestamp: last.timestamp, finalizedBlock});
+    return events.length;
+  }
+
+  /** Logs and headers fetched for one range disagree because the chain moved underneath; the range is retried. */
+  private moved(fromBlock: number, toBlock: number): Error {
+    return new Error(`chain reorganized while indexing blocks ${fromBlock}-${toBlock}; retrying`);
+  }
+
+  private async block(blockNumber: number): Promise<Block> {
+    const block = await this.deps.provider.getBlock(blockNumber);
+    if (!block) throw new Error(`block ${blockNumber} is not available from the RPC endpoint`);
+    return block;
+  }
+}
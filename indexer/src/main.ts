@@ -0,0 +1,44 @@
+import {JsonRpcProvider} from "ethers";
+
+import {parseConfig, redactConfig, verifyConfigOnChain} from "./config";
+import {EventIndexer} from "./indexer";
+import {createApp} from "./server";
+import {IndexerStore} from "./store";
+
+async function main(): Promise<void> {
+  const config = parseConfig();
+  console.log("indexer: configuration", redactConfig(config));
+
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  await verifyConfigOnChain(config, provider);
+
+  const store = new IndexerStore(config.databasePath, config);
+  const indexer = new EventIndexer(config, {provider, store});
+  const checkpoint = store.checkpoint();
+  console.log(
+    checkpoint
+      ? `indexer: resuming after block ${checkpoint.blockNumber}`
+      : `indexer: backfilling from block ${config.deployBlock}`
+  );
+  indexer.start();
+  const server = createApp(store).listen(config.port, () => {
+    console.log(`indexer: GraphQL API on http://localhost:${config.port}/graphql`);
+  });
+
+  const shutdown = async () => {
+    server.close();
+    await indexer.stop();
+    store.close();
+    provider.destroy();
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
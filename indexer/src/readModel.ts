@@ -0,0 +1,344 @@
+import type Database from "better-sqlite3";
+
+import type {SupplyChainEvent, SupplyChainEventArgs, SupplyChainEventName, LogPosition} from "./supplyChain";
+
+/** SupplyChain.REFUND_WINDOW: after it the manufacturer may claimRefund an unresolved dispute. */
+const REFUND_WINDOW = 14 * 24 * 60 * 60;
+/** SupplyChain.TRANSFER_TIMEOUT: a transfer not accepted within it can no longer be. */
+const TRANSFER_TIMEOUT = 3 * 24 * 60 * 60;
+
+interface BatchRow {
+  id: string;
+  max_units: string;
+  total_staked: string;
+}
+
+interface ProductRow {
+  id: string;
+  batch_id: string;
+  manufacturer: string;
+  stake: string;
+  slashed: string;
+  refunded: string;
+  current_transfer_id: string | null;
+  transfer_count: number;
+  active_dispute_id: string | null;
+  dispute_count: number;
+}
+
+interface DisputeRow {
+  id: string;
+  refund_deadline: number;
+}
+
+type Handler<N extends SupplyChainEventName> = (args: SupplyChainEventArgs[N], at: LogPosition) => void;
+
+/**
+ * Projects SupplyChain events onto the tables created by IndexerStore,
+ * following the same rules as graph/src/mappings.ts so both indexers agree on
+ * every field. Events referring to an unknown batch or product are ignored,
+ * as the subgraph does.
+ */
+export class ReadModel {
+  private readonly handlers: {[N in SupplyChainEventName]: Handler<N>} = {
+    BatchRegistered: (args, at) => this.batchRegistered(args, at),
+    BatchStatusChanged: (args) => this.batchStatusChanged(args),
+    ProductMinted: (args, at) => this.productMinted(args, at),
+    TransferInitiated: (args, at) => this.transferInitiated(args, at),
+    TransferAccepted: (args, at) => this.transferAccepted(args, at),
+    ProvenanceRecorded: (args, at) => this.provenanceRecorded(args, at),
+    DisputeRaised: (args, at) => this.disputeRaised(args, at),
+    DisputeResolved: (args, at) => this.disputeResolved(args, at)
+  };
+
+  constructor(private readonly db: Database.Database) {}
+
+  apply(event: SupplyChainEvent): void {
+    (this.handlers[event.name] as Handler<typeof event.name>)(event.args, event);
+  }
+
+  /**
+   * Marks transfers still PENDING but expired before `now` TIMEDOUT, those of
+   * `productId` only if given, and hands their products back to the sender.
+   * SupplyChain emits nothing for a timeout, so this is derived from block
+   * times, like the subgraph's block handler does.
+   */
+  expireTransfers(now: number, productId?: string): void {
+    const params = productId === undefined ? {now} : {now, productId};
+    const lapsed =
+      "SELECT id FROM transfers WHERE status = 'PENDING' AND expires_at < @now" +
+      (productId === undefined ? "" : " AND product_id = @productId");
+    this.db
+      .prepare(
+        `UPDATE products SET current_transfer_id = NULL,
+           status = CASE WHEN delivered_at IS NULL THEN 'MINTED' ELSE 'DELIVERED' END,
+           last_updated_at = (SELECT expires_at FROM transfers WHERE id = products.current_transfer_id)
+         WHERE current_transfer_id IN (${lapsed})`
+      )
+      .run(params);
+    this.db
+      .prepare(`UPDATE transfers SET status = 'TIMEDOUT', timed_out_at = expires_at WHERE id IN (${lapsed})`)
+      .run(params);
+  }
+
+  private batchRegistered(args: SupplyChainEventArgs["BatchRegistered"], at: LogPosition): void {
+    this.db
+      .prepare(
+        `INSERT INTO batches (id, manufacturer, created_at, max_units, status, fully_minted, product_count,
+           total_staked, total_slashed, dispute_count, open_disputes, block, transaction_hash)
+         VALUES (?, ?, ?, ?, 'ACTIVE', 0, 0, ?, '0', 0, 0, ?, ?)`
+      )
+      .run(
+        args.batchId.toString(),
+        args.manufacturer,
+        at.timestamp,
+        args.maxUnits.toString(),
+        args.stake.toString(),
+        at.blockNumber,
+        at.transactionHash
+      );
+  }
+
+  private batchStatusChanged(args: SupplyChainEventArgs["BatchStatusChanged"]): void {
+    // CREATED comes with BatchRegistered; FULLY_MINTED is the only change after it.
+    this.db
+      .prepare("UPDATE batches SET fully_minted = ? WHERE id = ?")
+      .run(args.status === "FULLY_MINTED" ? 1 : 0, args.batchId.toString());
+    this.refreshBatchStatus(args.batchId.toString());
+  }
+
+  private productMinted(args: SupplyChainEventArgs["ProductMinted"], at: LogPosition): void {
+    const batch = this.db
+      .prepare("SELECT id, max_units, total_staked FROM batches WHERE id = ?")
+      .get(args.batchId.toString()) as BatchRow | undefined;
+    if (!batch) return;
+
+    this.db
+      .prepare(
+        `INSERT INTO products (id, batch_id, manufacturer, metadata_hash, status, current_owner, created_at,
+           last_updated_at, stake, slashed, refunded, transfer_count, dispute_count, block, transaction_hash)
+         VALUES (?, ?, ?, ?, 'MINTED', ?, ?, ?, ?, '0', '0', 0, 0, ?, ?)`
+      )
+      .run(
+        args.productId.toString(),
+        batch.id,
+        args.owner,
+        args.metadataHash,
+        args.owner,
+        at.timestamp,
+        at.timestamp,
+        (BigInt(batch.total_staked) / BigInt(batch.max_units)).toString(),
+        at.blockNumber,
+        at.transactionHash
+      );
+    this.db.prepare("UPDATE batches SET product_count = product_count + 1 WHERE id = ?").run(batch.id);
+  }
+
+  private transferInitiated(args: SupplyChainEventArgs["TransferInitiated"], at: LogPosition): void {
+    const product = this.product(args.productId);
+    if (!product) return;
+    // SupplyChain only lets a transfer replace a pending one that has lapsed.
+    this.expireTransfers(at.timestamp, product.id);
+
+    const transferNumber = product.transfer_count + 1;
+    const transferId = `${product.id}-${transferNumber}`;
+    this.db
+      .prepare(
+        `INSERT INTO transfers (id, product_id, transfer_number, from_address, to_address, location_hash,
+           initiated_at, expires_at, status, block, transaction_hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'PENDING', ?, ?)`
+      )
+      .run(
+        transferId,
+        product.id,
+        transferNumber,
+        args.from,
+        args.to,
+        args.locationHash,
+        at.timestamp,
+        at.timestamp + TRANSFER_TIMEOUT,
+        at.blockNumber,
+        at.transactionHash
+      );
+    this.db
+      .prepare(
+        `UPDATE products SET transfer_count = ?, current_transfer_id = ?, status = 'IN_TRANSIT', last_updated_at = ?
+         WHERE id = ?`
+      )
+      .run(transferNumber, transferId, at.timestamp, product.id);
+  }
+
+  private transferAccepted(args: SupplyChainEventArgs["TransferAccepted"], at: LogPosition): void {
+    const product = this.product(args.productId);
+    if (!product) return;
+
+    if (product.current_transfer_id !== null) {
+      this.db
+        .prepare(
+          `UPDATE transfers SET accepted_at = ?, duration = ? - initiated_at, status = 'ACCEPTED'
+           WHERE id = ?`
+        )
+        .run(at.timestamp, at.timestamp, product.current_transfer_id);
+    }
+    this.db
+      .prepare(
+        `UPDATE products SET current_owner = ?, current_transfer_id = NULL, status = 'DELIVERED', delivered_at = ?,
+           last_updated_at = ?
+         WHERE id = ?`
+      )
+      .run(args.to, at.timestamp, at.timestamp, product.id);
+  }
+
+  private provenanceRecorded(args: SupplyChainEventArgs["ProvenanceRecorded"], at: LogPosition): void {
+    this.db
+      .prepare(
+        `INSERT INTO provenance (id, product_id, handler, location_hash, action, timestamp, block, log_index,
+           transaction_hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        `${at.transactionHash}-${at.logIndex}`,
+        args.productId.toString(),
+        args.handler,
+        args.locationHash,
+        args.action,
+        at.timestamp,
+        at.blockNumber,
+        at.logIndex,
+        at.transactionHash
+      );
+  }
+
+  private disputeRaised(args: SupplyChainEventArgs["DisputeRaised"], at: LogPosition): void {
+    this.expireTransfers(at.timestamp, args.productId.toString());
+    const product = this.product(args.productId);
+    if (!product) return;
+
+    const disputeNumber = product.dispute_count + 1;
+    const disputeId = `${product.id}-${disputeNumber}`;
+    // What SupplyChain puts at stake: the product's share less what earlier disputes slashed.
+    const stakeInvolved = BigInt(product.stake) - BigInt(product.slashed);
+    this.db
+      .prepare(
+        `INSERT INTO disputes (id, product_id, dispute_number, initiator, manufacturer, reason, raised_at,
+           refund_deadline, status, stake_involved, block, transaction_hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'ACTIVE', ?, ?, ?)`
+      )
+      .run(
+        disputeId,
+        product.id,
+        disputeNumber,
+        args.disputer,
+        product.manufacturer,
+        args.reason,
+        at.timestamp,
+        at.timestamp + REFUND_WINDOW,
+        stakeInvolved.toString(),
+        at.blockNumber,
+        at.transactionHash
+      );
+    // A transfer still pending can no longer be accepted while the dispute is open.
+    if (product.current_transfer_id !== null) {
+      this.db
+        .prepare("UPDATE transfers SET dispute_id = ?, status = 'BLOCKED_BY_DISPUTE' WHERE id = ?")
+        .run(disputeId, product.current_transfer_id);
+    }
+    this.db
+      .prepare(
+        `UPDATE products SET dispute_count = ?, active_dispute_id = ?, status = 'DISPUTED', last_updated_at = ?
+         WHERE id = ?`
+      )
+      .run(disputeNumber, disputeId, at.timestamp, product.id);
+    this.db
+      .prepare("UPDATE batches SET dispute_count = dispute_count + 1, open_disputes = open_disputes + 1 WHERE id = ?")
+      .run(product.batch_id);
+    this.refreshBatchStatus(product.batch_id);
+  }
+
+  /**
+   * Emitted both by resolveDispute and by claimRefund. A claim can only come
+   * after the refund deadline, while resolveDispute must happen well before
+   * it, so the block time tells them apart.
+   */
+  private disputeResolved(args: SupplyChainEventArgs["DisputeResolved"], at: LogPosition): void {
+    const product = this.product(args.productId);
+    if (!product || product.active_dispute_id === null) return;
+    const dispute = this.db
+      .prepare("SELECT id, refund_deadline FROM disputes WHERE id = ?")
+      .get(product.active_dispute_id) as DisputeRow | undefined;
+    if (!dispute) return;
+
+    const amount = args.slashedAmount;
+    const claimed = at.timestamp >= dispute.refund_deadline;
+    const manufacturerWon = args.winner === product.manufacturer;
+    this.db
+      .prepare(
+        `UPDATE disputes SET resolved_at = ?, winner = ?, manufacturer_won = ?, status = ?, refund_amount = ?,
+           slash_amount = ?
+         WHERE id = ?`
+      )
+      .run(
+        at.timestamp,
+        args.winner,
+        manufacturerWon ? 1 : 0,
+        claimed ? "CLAIMED_REFUND" : "RESOLVED",
+        manufacturerWon ? amount.toString() : null,
+        manufacturerWon ? null : amount.toString(),
+        dispute.id
+      );
+
+    // resolveDispute drops the blocked transfer. claimRefund leaves it in place, but by then it has lapsed.
+    if (claimed && product.current_transfer_id !== null) {
+      this.db
+        .prepare("UPDATE transfers SET status = 'TIMEDOUT', timed_out_at = expires_at WHERE id = ?")
+        .run(product.current_transfer_id);
+    }
+    this.db
+      .prepare(
+        `UPDATE products SET status = ?, refunded = ?, slashed = ?, current_transfer_id = NULL,
+           active_dispute_id = NULL, last_updated_at = ?
+         WHERE id = ?`
+      )
+      .run(
+        manufacturerWon ? "REFUNDED" : "SLASHED",
+        (BigInt(product.refunded) + (manufacturerWon ? amount : 0n)).toString(),
+        (BigInt(product.slashed) + (manufacturerWon ? 0n : amount)).toString(),
+        at.timestamp,
+        product.id
+      );
+
+    const batch = this.db.prepare("SELECT total_slashed FROM batches WHERE id = ?").get(product.batch_id) as
+      | {total_slashed: string}
+      | undefined;
+    if (!batch) return;
+    this.db
+      .prepare("UPDATE batches SET open_disputes = open_disputes - 1, total_slashed = ? WHERE id = ?")
+      .run((BigInt(batch.total_slashed) + (manufacturerWon ? 0n : amount)).toString(), product.batch_id);
+    this.refreshBatchStatus(product.batch_id);
+  }
+
+  private product(productId: bigint): ProductRow | undefined {
+    return this.db
+      .prepare(
+        `SELECT id, batch_id, manufacturer, stake, slashed, refunded, current_transfer_id, transfer_count,
+           active_dispute_id, dispute_count
+         FROM products WHERE id = ?`
+      )
+      .get(productId.toString()) as ProductRow | undefined;
+  }
+
+  /** Disputes open in the batch take precedence over how far minting got. */
+  private refreshBatchStatus(batchId: string): void {
+    this.db
+      .prepare(
+        `UPDATE batches SET status = CASE
+           WHEN open_disputes > 0 THEN 'DISPUTED'
+           WHEN dispute_count > 0 THEN 'RESOLVED'
+           WHEN fully_minted = 1 THEN 'COMPLETED'
+           ELSE 'ACTIVE'
+         END
+         WHERE id = ?`
+      )
+      .run(batchId);
+  }
+}
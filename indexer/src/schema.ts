@@ -0,0 +1,453 @@
+import {
+  buildSchema,
+  defaultFieldResolver,
+  execute,
+  getNamedType,
+  getNullableType,
+  GraphQLError,
+  GraphQLInt,
+  isListType,
+  isObjectType,
+  Kind,
+  parse,
+  specifiedRules,
+  validate,
+  valueFromAST,
+  type DocumentNode,
+  type ExecutionResult,
+  type FieldNode,
+  type GraphQLField,
+  type GraphQLFieldResolver,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+  type SelectionSetNode,
+  type ValidationRule,
+  type ValueNode
+} from "graphql";
+
+import {
+  ENTITIES,
+  EntityReader,
+  FILTER_SUFFIXES,
+  filterFields,
+  MAX_FIRST,
+  MAX_SKIP,
+  type Entity,
+  type EntityName,
+  type FieldType,
+  type ListArgs,
+  type Row
+} from "./entities";
+import type {IndexerStore} from "./store";
+
+/** Arguments every list field takes, as on The Graph. */
+const listArgs = (name: EntityName) =>
+  `(first: Int = 100, skip: Int = 0, where: ${name}_filter, orderBy: ${name}_orderBy, ` +
+  "orderDirection: OrderDirection)";
+
+/**
+ * Entity types follow graph/schema.graphql (see docs/SUBGRAPH_SCHEMA.md);
+ * relayers and meta-transactions are not part of the read model.
+ */
+const ENTITY_TYPES = `
+scalar BigInt
+scalar Bytes
+
+enum OrderDirection {
+  asc
+  desc
+}
+
+enum BatchStatus {
+  ACTIVE
+  COMPLETED
+  DISPUTED
+  RESOLVED
+}
+
+type Batch {
+  id: ID!
+  manufacturer: Bytes!
+  createdAt: BigInt!
+  maxUnits: BigInt!
+  status: BatchStatus!
+  fullyMinted: Boolean!
+  products${listArgs("Product")}: [Product!]!
+  productCount: Int!
+  totalStaked: BigInt!
+  totalSlashed: BigInt!
+  disputeCount: Int!
+  openDisputes: Int!
+  block: Int!
+  transactionHash: String!
+}
+
+enum ProductStatus {
+  MINTED
+  IN_TRANSIT
+  DELIVERED
+  DISPUTED
+  SLASHED
+  REFUNDED
+}
+
+type Product {
+  id: ID!
+  batch: Batch!
+  manufacturer: Bytes!
+  metadataHash: Bytes!
+  status: ProductStatus!
+  currentOwner: Bytes!
+  createdAt: BigInt!
+  lastUpdatedAt: BigInt!
+  deliveredAt: BigInt
+  stake: BigInt!
+  slashed: BigInt!
+  refunded: BigInt!
+  currentTransfer: Transfer
+  transfers${listArgs("Transfer")}: [Transfer!]!
+  transferCount: Int!
+  activeDispute: Dispute
+  disputes${listArgs("Dispute")}: [Dispute!]!
+  disputeCount: Int!
+  provenance${listArgs("ProvenanceRecord")}: [ProvenanceRecord!]!
+  block: Int!
+  transactionHash: String!
+}
+
+enum TransferStatus {
+  PENDING
+  ACCEPTED
+  TIMEDOUT
+  BLOCKED_BY_DISPUTE
+}
+
+type Transfer {
+  id: ID!
+  product: Product!
+  transferNumber: Int!
+  from: Bytes!
+  to: Bytes!
+  locationHash: Bytes!
+  initiatedAt: BigInt!
+  expiresAt: BigInt!
+  acceptedAt: BigInt
+  timedOutAt: BigInt
+  duration: BigInt
+  status: TransferStatus!
+  dispute: Dispute
+  block: Int!
+  transactionHash: String!
+}
+
+enum DisputeStatus {
+  ACTIVE
+  RESOLVED
+  CLAIMED_REFUND
+}
+
+type Dispute {
+  id: ID!
+  product: Product!
+  disputeNumber: Int!
+  initiator: Bytes!
+  manufacturer: Bytes!
+  reason: String!
+  raisedAt: BigInt!
+  resolvedAt: BigInt
+  refundDeadline: BigInt!
+  status: DisputeStatus!
+  manufacturerWon: Boolean
+  winner: Bytes
+  stakeInvolved: BigInt!
+  slashAmount: BigInt
+  refundAmount: BigInt
+  block: Int!
+  transactionHash: String!
+}
+
+type ProvenanceRecord {
+  id: ID!
+  product: Product!
+  handler: Bytes!
+  locationHash: Bytes!
+  action: String!
+  timestamp: BigInt!
+  block: Int!
+  transactionHash: String!
+}
+
+type _Block_ {
+  number: Int!
+  hash: Bytes
+}
+
+"Indexing status, as The Graph reports it"
+type _Meta_ {
+  block: _Block_!
+  hasIndexingErrors: Boolean!
+}
+`;
+
+const ENUMS: Partial<Record<EntityName, string>> = {
+  Batch: "BatchStatus",
+  Product: "ProductStatus",
+  Transfer: "TransferStatus",
+  Dispute: "DisputeStatus"
+};
+
+const lowerFirst = (name: string) => name[0].toLowerCase() + name.slice(1);
+
+/** `<Entity>_filter` and `<Entity>_orderBy`, generated from ENTITIES like graph-node generates them. */
+function queryInputs(name: EntityName, entity: Entity): string {
+  const inputs: string[] = [];
+  for (const [fieldName, {type}] of Object.entries(filterFields(entity))) {
+    const scalar: string = type === "Enum" ? ENUMS[name]! : type;
+    for (const suffix of FILTER_SUFFIXES[type]) {
+      inputs.push(`  ${fieldName}${suffix}: ${suffix.endsWith("_in") ? `[${scalar}!]` : scalar}`);
+    }
+  }
+  const orderable = Object.entries(entity.fields).filter(([, f]) => f.order);
+  return `
+input ${name}_filter {
+${inputs.join("\n")}
+  and: [${name}_filter]
+  or: [${name}_filter]
+}
+
+enum ${name}_orderBy {
+${orderable.map(([fieldName]) => `  ${fieldName}`).join("\n")}
+}
+`;
+}
+
+export const SCHEMA_SDL = [
+  ENTITY_TYPES,
+  ...Object.entries(ENTITIES).map(([name, entity]) => queryInputs(name as EntityName, entity)),
+  `type Query {
+${Object.entries(ENTITIES)
+  .map(
+    ([name, {plural}]) =>
+      `  ${lowerFirst(name)}(id: ID!): ${name}\n  ${plural}${listArgs(name as EntityName)}: [${name}!]!`
+  )
+  .join("\n")}
+  _meta: _Meta_
+}`
+].join("\n");
+
+/** Wei amounts and timestamps travel as decimal strings and hashes as hex, as on The Graph. */
+const SCALARS = {
+  BigInt: {
+    serialize: (value: unknown) => String(value),
+    parseValue: (value: unknown) => parseBigInt(value),
+    parseLiteral: (ast: ValueNode) => parseBigInt("value" in ast ? ast.value : undefined)
+  },
+  Bytes: {
+    serialize: (value: unknown) => String(value),
+    parseValue: (value: unknown) => parseBytes(value),
+    parseLiteral: (ast: ValueNode) => parseBytes("value" in ast ? ast.value : undefined)
+  }
+};
+
+function parseBigInt(value: unknown): string {
+  if ((typeof value === "string" && /^-?[0-9]+$/.test(value)) || Number.isSafeInteger(value)) return String(value);
+  throw new GraphQLError(`BigInt must be a decimal integer string, got ${JSON.stringify(value)}`);
+}
+
+function parseBytes(value: unknown): string {
+  if (typeof value === "string" && /^0x([0-9a-fA-F]{2})*$/.test(value)) return value.toLowerCase();
+  throw new GraphQLError(`Bytes must be a 0x-prefixed hex string, got ${JSON.stringify(value)}`);
+}
+
+interface Context {
+  reader: EntityReader;
+  store: IndexerStore;
+}
+
+type Resolver = (row: Row, args: Record<string, unknown>, context: Context) => unknown;
+
+function columnValue(row: Row, column: string, type: FieldType): unknown {
+  const value = row[column];
+  if (value === null || value === undefined) return null;
+  return type === "Boolean" ? value === 1 : value;
+}
+
+function pageArgs(args: Record<string, unknown>): ListArgs {
+  const {first, skip} = args as {first: number; skip: number};
+  if (first < 0 || first > MAX_FIRST) throw new GraphQLError(`first must be between 0 and ${MAX_FIRST}`);
+  if (skip < 0 || skip > MAX_SKIP) throw new GraphQLError(`skip must be between 0 and ${MAX_SKIP}`);
+  return args as unknown as ListArgs;
+}
+
+/** Field resolvers per type: columns, references to other entities and derived lists. */
+function resolvers(): Record<string, Record<string, Resolver>> {
+  const byType: Record<string, Record<string, Resolver>> = {
+    Query: {
+      _meta: (_row, _args, {store}) => {
+        const checkpoint = store.checkpoint();
+        return {
+          block: {number: checkpoint?.blockNumber ?? 0, hash: checkpoint?.blockHash ?? null},
+          hasIndexingErrors: false
+        };
+      }
+    }
+  };
+  for (const [name, entity] of Object.entries(ENTITIES) as [EntityName, Entity][]) {
+    const fields: Record<string, Resolver> = {};
+    for (const [fieldName, {column, type}] of Object.entries(entity.fields)) {
+      fields[fieldName] = (row) => columnValue(row, column, type);
+    }
+    for (const [fieldName, {entity: target, column}] of Object.entries(entity.references)) {
+      fields[fieldName] = (row, _args, {reader}) =>
+        row[column] === null ? null : reader.load(target, String(row[column]));
+    }
+    for (const [fieldName, {entity: target, column}] of Object.entries(entity.derived)) {
+      fields[fieldName] = (row, args, {reader}) => reader.list(target, pageArgs(args), {column, id: String(row.id)});
+    }
+    byType[name] = fields;
+    byType.Query[lowerFirst(name)] = (_row, args, {reader}) => reader.load(name, String(args.id)) ?? null;
+    byType.Query[entity.plural] = (_row, args, {reader}) => reader.list(name, pageArgs(args));
+  }
+  return byType;
+}
+
+/** The executable schema together with how each field is resolved. */
+export function createSchema(): {schema: GraphQLSchema; fieldResolver: GraphQLFieldResolver<unknown, Context>} {
+  const schema = buildSchema(SCHEMA_SDL);
+  // buildSchema leaves custom scalars as pass-through; give them their parsing.
+  for (const [name, scalar] of Object.entries(SCALARS)) Object.assign(schema.getType(name)!, scalar);
+  const byType = resolvers();
+  const fieldResolver: GraphQLFieldResolver<unknown, Context> = (source, args, context, info) => {
+    const resolve = byType[info.parentType.name]?.[info.fieldName];
+    return resolve ? resolve(source as Row, args, context) : defaultFieldResolver(source, args, context, info);
+  };
+  return {schema, fieldResolver};
+}
+
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+/**
+ * How deeply selections may nest. Every derived list can hold MAX_FIRST rows
+ * and leads back to the entity it came from, so without a bound one query
+ * could make the reader load rows without end.
+ */
+export const MAX_DEPTH = 6;
+
+/** Refuses operations whose fields nest deeper than `maxDepth`, fragments included. */
+function depthLimit(maxDepth: number): ValidationRule {
+  return (context) => {
+    const depth = (selectionSet: SelectionSetNode, spread: Set<string>): number => {
+      let deepest = 0;
+      for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FIELD) {
+          deepest = Math.max(deepest, 1 + (selection.selectionSet ? depth(selection.selectionSet, spread) : 0));
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+          deepest = Math.max(deepest, depth(selection.selectionSet, spread));
+        } else {
+          // Cycles are NoFragmentCyclesRule's to report; here they only must not recurse forever.
+          const fragment = context.getFragment(selection.name.value);
+          if (!fragment || spread.has(fragment.name.value)) continue;
+          deepest = Math.max(deepest, depth(fragment.selectionSet, new Set([...spread, fragment.name.value])));
+        }
+      }
+      return deepest;
+    };
+    return {
+      OperationDefinition(node) {
+        if (depth(node.selectionSet, new Set()) <= maxDepth) return;
+        context.reportError(new GraphQLError(`query is nested deeper than ${maxDepth} levels`, {nodes: node}));
+      }
+    };
+  };
+}
+
+/**
+ * How many rows one query may have the reader load. Depth alone does not bound
+ * that: each list multiplies what is nested in it by its `first`, and aliases
+ * repeat a field as often as they like.
+ */
+export const MAX_ROWS = 10_000;
+
+/**
+ * Refuses operations that could load more than `maxRows` rows: every aliased
+ * object field counts, and each list field multiplies what it selects by its
+ * `first`, taken from `variables` when it is one and assumed MAX_FIRST when it
+ * cannot be resolved.
+ */
+function rowLimit(maxRows: number, variables: Record<string, unknown> = {}): ValidationRule {
+  return (context) => {
+    const schema = context.getSchema();
+    const size = (field: GraphQLField<unknown, unknown>, node: FieldNode): number => {
+      if (!isListType(getNullableType(field.type))) return 1;
+      const arg = node.arguments?.find((argument) => argument.name.value === "first");
+      const first = arg
+        ? valueFromAST(arg.value, GraphQLInt, variables)
+        : field.args.find((argument) => argument.name === "first")?.defaultValue;
+      return typeof first === "number" ? Math.max(first, 0) : MAX_FIRST;
+    };
+    const rows = (selectionSet: SelectionSetNode, type: GraphQLObjectType, spread: Set<string>): number => {
+      let total = 0;
+      for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FIELD) {
+          // Unknown fields are FieldsOnCorrectTypeRule's to report.
+          const field = type.getFields()[selection.name.value];
+          const target = field && getNamedType(field.type);
+          if (!selection.selectionSet || !isObjectType(target)) continue;
+          total += size(field, selection) * (1 + rows(selection.selectionSet, target, spread));
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+          const condition = selection.typeCondition && schema.getType(selection.typeCondition.name.value);
+          total += rows(selection.selectionSet, isObjectType(condition) ? condition : type, spread);
+        } else {
+          const fragment = context.getFragment(selection.name.value);
+          if (!fragment || spread.has(fragment.name.value)) continue;
+          const condition = schema.getType(fragment.typeCondition.name.value);
+          if (!isObjectType(condition)) continue;
+          total += rows(fragment.selectionSet, condition, new Set([...spread, fragment.name.value]));
+        }
+      }
+      return total;
+    };
+    return {
+      OperationDefinition(node) {
+        const root = schema.getRootType(node.operation);
+        if (!root) return;
+        const total = rows(node.selectionSet, root, new Set());
+        if (total <= maxRows) return;
+        context.reportError(new GraphQLError(`query may load ${total} rows, more than ${maxRows}`, {nodes: node}));
+      }
+    };
+  };
+}
+
+/** Runs one query against the read model. */
+export async function executeQuery(
+  {schema, fieldResolver}: ReturnType<typeof createSchema>,
+  store: IndexerStore,
+  request: GraphQLRequest
+): Promise<ExecutionResult> {
+  let document: DocumentNode;
+  try {
+    document = parse(request.query);
+  } catch (err) {
+    if (err instanceof GraphQLError) return {errors: [err]};
+    throw err;
+  }
+  const errors = validate(schema, document, [
+    ...specifiedRules,
+    depthLimit(MAX_DEPTH),
+    rowLimit(MAX_ROWS, request.variables)
+  ]);
+  if (errors.length > 0) return {errors};
+  return execute({
+    schema,
+    document,
+    variableValues: request.variables,
+    operationName: request.operationName,
+    contextValue: {reader: new EntityReader(store.db), store},
+    fieldResolver
+  });
+}
@@ -0,0 +1,43 @@
+import express, {type ErrorRequestHandler, type Express} from "express";
+
+import {createSchema, executeQuery, type GraphQLRequest} from "./schema";
+import type {IndexerStore} from "./store";
+
+/**
+ * The read model over HTTP. POST /graphql takes `{query, variables,
+ * operationName}` like a Graph node's subgraph endpoint, so clients can be
+ * pointed at either.
+ */
+export function createApp(store: IndexerStore): Express {
+  const app = express();
+  app.use(express.json({limit: "64kb"}));
+  const schema = createSchema();
+
+  app.get("/health", (_req, res) => {
+    res.json({ok: true, checkpoint: store.checkpoint() ?? null, finalizedBlock: store.finalizedBlock()});
+  });
+
+  app.post("/graphql", (req, res, next) => {
+    const body = req.body as Partial<GraphQLRequest> | undefined;
+    if (typeof body?.query !== "string") {
+      res.status(400).json({errors: [{message: "body must be JSON with a string `query`"}]});
+      return;
+    }
+    executeQuery(schema, store, body as GraphQLRequest)
+      .then((result) => res.json(result))
+      .catch(next);
+  });
+
+  app.use(errorHandler);
+  return app;
+}
+
+const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  // Malformed JSON bodies surface from express.json() as a SyntaxError with a status.
+  if (err instanceof SyntaxError && (err as {status?: number}).status === 400) {
+    res.status(400).json({errors: [{message: "malformed JSON body"}]});
+    return;
+  }
+  console.error("indexer: unhandled error", err);
+  res.status(500).json({errors: [{message: "internal error"}]});
+};
@@ -0,0 +1,353 @@
+import {mkdirSync} from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+import {ReadModel} from "./readModel";
+import type {SupplyChainEvent} from "./supplyChain";
+
+/**
+ * Tables mirror the subgraph entities of docs/SUBGRAPH_SCHEMA.md (and
+ * graph/schema.graphql) in snake_case. Addresses are lower-case hex, wei
+ * amounts decimal strings and times unix seconds. Every row also carries the
+ * block that last changed it and whether that block is final.
+ */
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS checkpoint (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  finalized_block INTEGER NOT NULL
+);
+
+-- Hashes of the blocks a reorg could still replace, plus the newest final one.
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  parent_hash TEXT NOT NULL
+);
+
+-- Undo log: the image of each read-model row before a not-yet-final block
+-- changed it (NULL when the block inserted the row).
+CREATE TABLE IF NOT EXISTS journal (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  block INTEGER NOT NULL,
+  table_name TEXT NOT NULL,
+  row_id TEXT NOT NULL,
+  old_row TEXT
+);
+CREATE INDEX IF NOT EXISTS journal_block ON journal (block);
+
+-- Block of the event being applied; journaling is off while it is NULL.
+CREATE TABLE IF NOT EXISTS journal_cursor (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  block INTEGER
+);
+INSERT OR IGNORE INTO journal_cursor (id, block) VALUES (1, NULL);
+
+CREATE TABLE IF NOT EXISTS batches (
+  id TEXT PRIMARY KEY,
+  manufacturer TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  max_units TEXT NOT NULL,
+  status TEXT NOT NULL,
+  fully_minted INTEGER NOT NULL,
+  product_count INTEGER NOT NULL,
+  total_staked TEXT NOT NULL,
+  total_slashed TEXT NOT NULL,
+  dispute_count INTEGER NOT NULL,
+  open_disputes INTEGER NOT NULL,
+  block INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  updated_block INTEGER NOT NULL DEFAULT 0,
+  final INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS products (
+  id TEXT PRIMARY KEY,
+  batch_id TEXT NOT NULL REFERENCES batches (id),
+  manufacturer TEXT NOT NULL,
+  metadata_hash TEXT NOT NULL,
+  status TEXT NOT NULL,
+  current_owner TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  last_updated_at INTEGER NOT NULL,
+  delivered_at INTEGER,
+  stake TEXT NOT NULL,
+  slashed TEXT NOT NULL,
+  refunded TEXT NOT NULL,
+  current_transfer_id TEXT,
+  transfer_count INTEGER NOT NULL,
+  active_dispute_id TEXT,
+  dispute_count INTEGER NOT NULL,
+  block INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  updated_block INTEGER NOT NULL DEFAULT 0,
+  final INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS products_batch ON products (batch_id);
+CREATE INDEX IF NOT EXISTS products_owner ON products (current_owner);
+
+CREATE TABLE IF NOT EXISTS transfers (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL REFERENCES products (id),
+  transfer_number INTEGER NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  location_hash TEXT NOT NULL,
+  initiated_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  accepted_at INTEGER,
+  timed_out_at INTEGER,
+  duration INTEGER,
+  status TEXT NOT NULL,
+  dispute_id TEXT,
+  block INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  updated_block INTEGER NOT NULL DEFAULT 0,
+  final INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS transfers_product ON transfers (product_id);
+
+CREATE TABLE IF NOT EXISTS disputes (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL REFERENCES products (id),
+  dispute_number INTEGER NOT NULL,
+  initiator TEXT NOT NULL,
+  manufacturer TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  raised_at INTEGER NOT NULL,
+  resolved_at INTEGER,
+  refund_deadline INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  manufacturer_won INTEGER,
+  winner TEXT,
+  stake_involved TEXT NOT NULL,
+  slash_amount TEXT,
+  refund_amount TEXT,
+  block INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  updated_block INTEGER NOT NULL DEFAULT 0,
+  final INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS disputes_product ON disputes (product_id);
+
+CREATE TABLE IF NOT EXISTS provenance (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL,
+  handler TEXT NOT NULL,
+  location_hash TEXT NOT NULL,
+  action TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  block INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  updated_block INTEGER NOT NULL DEFAULT 0,
+  final INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS provenance_product ON provenance (product_id, block, log_index);
+`;
+
+/** Tables the ReadModel writes; each has a TEXT `id` primary key. */
+const READ_MODEL_TABLES = ["batches", "products", "transfers", "disputes", "provenance"] as const;
+
+/** The last block whose events are all in the read model. */
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface BlockHeader {
+  number: number;
+  hash: string;
+  parentHash: string;
+}
+
+/** One indexed block range, as handed to IndexerStore.apply. */
+export interface IndexedRange {
+  events: SupplyChainEvent[];
+  /** Headers of the range's blocks that a reorg could still replace, and of its last block. */
+  blocks: BlockHeader[];
+  to: Checkpoint;
+  /** Timestamp of the range's last block; pending transfers that expired before it time out. */
+  timestamp: number;
+  /** Blocks up to this one are buried under the confirmation depth. */
+  finalizedBlock: number;
+}
+
+export class StoreMismatchError extends Error {
+  constructor(readonly key: string, readonly stored: string, readonly expected: string) {
+    super(`database was indexed with ${key} ${stored}, not ${expected}; use a new DATABASE_PATH`);
+    this.name = "StoreMismatchError";
+  }
+}
+
+/**
+ * The SQLite read model together with the indexer's progress. Events of a
+ * block range and the checkpoint after it are written in one transaction, so
+ * a crash leaves the database at the end of the last whole range.
+ *
+ * Changes made by blocks that are not final yet are journaled by triggers so
+ * that rollback() can undo them when a reorg orphans those blocks.
+ */
+export class IndexerStore {
+  readonly db: Database.Database;
+  private readonly model: ReadModel;
+  private readonly undo = new Map<string, Database.Statement>();
+
+  /**
+   * Opens (creating if needed) the database at `filename`, or an in-memory
+   * one for ":memory:". `identity` (chain id and contract address) is
+   * recorded on first use and checked on every later one, so a database is
+   * never extended with another deployment's events.
+   */
+  constructor(filename: string, identity: {chainId: bigint; supplyChainAddress: string}) {
+    if (filename !== ":memory:") mkdirSync(path.dirname(path.resolve(filename)), {recursive: true});
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.db.exec(SCHEMA);
+    this.claim("chain_id", identity.chainId.toString());
+    this.claim("supply_chain_address", identity.supplyChainAddress.toLowerCase());
+    for (const table of READ_MODEL_TABLES) this.journalTable(table);
+    this.model = new ReadModel(this.db);
+  }
+
+  checkpoint(): Checkpoint | undefined {
+    const row = this.db.prepare("SELECT block_number, block_hash FROM checkpoint WHERE id = 1").get() as
+      | {block_number: number; block_hash: string}
+      | undefined;
+    return row && {blockNumber: row.block_number, blockHash: row.block_hash};
+  }
+
+  /** The newest block whose records are final, or -1 before anything is indexed. */
+  finalizedBlock(): number {
+    const row = this.db.prepare("SELECT finalized_block FROM checkpoint WHERE id = 1").get() as
+      | {finalized_block: number}
+      | undefined;
+    return row?.finalized_block ?? -1;
+  }
+
+  /** Stored block hashes, newest first; the oldest is as far back as rollback() can go. */
+  recentBlocks(): BlockHeader[] {
+    return this.db
+      .prepare("SELECT number, hash, parent_hash AS parentHash FROM blocks ORDER BY number DESC")
+      .all() as BlockHeader[];
+  }
+
+  /**
+   * Applies the range's events, in chain order, times out the transfers that
+   * lapsed by its last block, records its block hashes and moves the
+   * checkpoint to its end, atomically. Rows last changed at or
+   * below `finalizedBlock` are then marked final and their undo entries
+   * dropped.
+   */
+  apply(range: IndexedRange): void {
+    const {events, blocks, to, timestamp, finalizedBlock} = range;
+    this.db.transaction(() => {
+      const cursor = this.db.prepare("UPDATE journal_cursor SET block = ? WHERE id = 1");
+      for (const event of events) {
+        cursor.run(event.blockNumber);
+        this.model.apply(event);
+      }
+      // Journaled at the last block, so a reorg that drops it brings the transfers back.
+      cursor.run(to.blockNumber);
+      this.model.expireTransfers(timestamp);
+      cursor.run(null);
+
+      for (const table of READ_MODEL_TABLES) {
+        this.db
+          .prepare(
+            `UPDATE ${table} SET final = 0, updated_block = (
+               SELECT MAX(block) FROM journal WHERE table_name = '${table}' AND row_id = ${table}.id
+             )
+             WHERE id IN (SELECT row_id FROM journal WHERE table_name = '${table}' AND block > ?)`
+          )
+          .run(this.checkpoint()?.blockNumber ?? -1);
+      }
+      const block = this.db.prepare(
+        "INSERT OR REPLACE INTO blocks (number, hash, parent_hash) VALUES (@number, @hash, @parentHash)"
+      );
+      for (const header of blocks) block.run(header);
+      this.db
+        .prepare(
+          `INSERT INTO checkpoint (id, block_number, block_hash, finalized_block) VALUES (1, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET block_number = excluded.block_number, block_hash = excluded.block_hash,
+             finalized_block = excluded.finalized_block`
+        )
+        .run(to.blockNumber, to.blockHash, finalizedBlock);
+      this.finalize(Math.min(finalizedBlock, to.blockNumber));
+    })();
+  }
+
+  /**
+   * Undoes every change made by blocks after `fork`, which must be one of
+   * recentBlocks(), and moves the checkpoint back to it.
+   */
+  rollback(fork: Checkpoint): void {
+    this.db.transaction(() => {
+      const entries = this.db
+        .prepare("SELECT table_name, row_id, old_row FROM journal WHERE block > ? ORDER BY seq DESC")
+        .all(fork.blockNumber) as {table_name: string; row_id: string; old_row: string | null}[];
+      for (const entry of entries) {
+        if (entry.old_row === null) {
+          this.db.prepare(`DELETE FROM ${entry.table_name} WHERE id = ?`).run(entry.row_id);
+        } else {
+          this.undo.get(entry.table_name)!.run({row: entry.old_row, id: entry.row_id});
+        }
+      }
+      this.db.prepare("DELETE FROM journal WHERE block > ?").run(fork.blockNumber);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(fork.blockNumber);
+      this.db
+        .prepare(
+          `UPDATE checkpoint SET block_number = ?, block_hash = ?, finalized_block = MIN(finalized_block, ?)
+           WHERE id = 1`
+        )
+        .run(fork.blockNumber, fork.blockHash, fork.blockNumber);
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private finalize(finalizedBlock: number): void {
+    for (const table of READ_MODEL_TABLES) {
+      this.db.prepare(`UPDATE ${table} SET final = 1 WHERE final = 0 AND updated_block <= ?`).run(finalizedBlock);
+    }
+    this.db.prepare("DELETE FROM journal WHERE block <= ?").run(finalizedBlock);
+    // Keep the newest final block: it is where a rollback stops.
+    this.db.prepare("DELETE FROM blocks WHERE number < ?").run(finalizedBlock);
+  }
+
+  /** Journals inserts and updates of `table` and prepares the statement restoring a journaled row. */
+  private journalTable(table: string): void {
+    const columns = (this.db.prepare(`PRAGMA table_info(${table})`).all() as {name: string}[]).map(({name}) => name);
+    const image = columns.map((column) => `'${column}', OLD.${column}`).join(", ");
+    const when = "WHEN (SELECT block FROM journal_cursor) IS NOT NULL";
+    const entry =
+      "INSERT INTO journal (block, table_name, row_id, old_row) " +
+      `VALUES ((SELECT block FROM journal_cursor), '${table}'`;
+    this.db.exec(`
+      CREATE TRIGGER IF NOT EXISTS ${table}_journal_insert AFTER INSERT ON ${table} ${when}
+      BEGIN ${entry}, NEW.id, NULL); END;
+      CREATE TRIGGER IF NOT EXISTS ${table}_journal_update AFTER UPDATE ON ${table} ${when}
+      BEGIN ${entry}, OLD.id, json_object(${image})); END;
+    `);
+    const assignments = columns.map((column) => `${column} = json_extract(@row, '$.${column}')`).join(", ");
+    this.undo.set(table, this.db.prepare(`UPDATE ${table} SET ${assignments} WHERE id = @id`));
+  }
+
+  private claim(key: string, value: string): void {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as {value: string} | undefined;
+    if (!row) {
+      this.db.prepare("INSERT INTO meta (key, value) VALUES (?, ?)").run(key, value);
+    } else if (row.value !== value) {
+      throw new StoreMismatchError(key, row.value, value);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import {Interface, type Log} from "ethers";
+
+import SupplyChainArtifact from "../../hardhat/artifacts/contracts/SupplyChain.sol/SupplyChain.json";
+
+export const supplyChainInterface = new Interface(SupplyChainArtifact.abi);
+
+/** Arguments of the SupplyChain events the read model is built from, as declared in ISupplyChain. */
+export interface SupplyChainEventArgs {
+  BatchRegistered: {batchId: bigint; manufacturer: string; maxUnits: bigint; stake: bigint};
+  BatchStatusChanged: {batchId: bigint; status: string; timestamp: bigint};
+  ProductMinted: {productId: bigint; batchId: bigint; owner: string; metadataHash: string};
+  TransferInitiated: {productId: bigint; from: string; to: string; locationHash: string};
+  TransferAccepted: {productId: bigint; from: string; to: string};
+  ProvenanceRecorded: {productId: bigint; handler: string; locationHash: string; action: string; timestamp: bigint};
+  DisputeRaised: {productId: bigint; disputer: string; reason: string; timestamp: bigint};
+  DisputeResolved: {productId: bigint; winner: string; slashedAmount: bigint; timestamp: bigint};
+}
+
+export type SupplyChainEventName = keyof SupplyChainEventArgs;
+
+export const INDEXED_EVENTS: SupplyChainEventName[] = [
+  "BatchRegistered",
+  "BatchStatusChanged",
+  "ProductMinted",
+  "TransferInitiated",
+  "TransferAccepted",
+  "ProvenanceRecorded",
+  "DisputeRaised",
+  "DisputeResolved"
+];
+
+/** topic0 of every indexed event, for one eth_getLogs filter matching any of them. */
+export const INDEXED_TOPICS = INDEXED_EVENTS.map((name) => supplyChainInterface.getEvent(name)!.topicHash);
+
+/** Where a log sits in the chain. */
+export interface LogPosition {
+  blockNumber: number;
+  blockHash: string;
+  /** Seconds. */
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/** A decoded SupplyChain event; addresses are lower-cased. */
+export type SupplyChainEvent = {
+  [N in SupplyChainEventName]: {name: N; args: SupplyChainEventArgs[N]} & LogPosition;
+}[SupplyChainEventName];
+
+/** Decodes `log`, or returns undefined for an event the read model does not use. */
+export function decodeEvent(log: Log, timestamp: number): SupplyChainEvent | undefined {
+  const parsed = supplyChainInterface.parseLog(log);
+  if (!parsed || !(INDEXED_EVENTS as string[]).includes(parsed.name)) return undefined;
+  const args: Record<string, unknown> = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    const value = parsed.args[index];
+    args[input.name] = input.type === "address" ? String(value).toLowerCase() : value;
+  });
+  return {
+    name: parsed.name,
+    args,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp,
+    transactionHash: log.transactionHash,
+    logIndex: log.index
+  } as SupplyChainEvent;
+}
@@ -0,0 +1,167 @@
+import {expect} from "chai";
+import type {AddressInfo} from "net";
+import type {Server} from "http";
+
+import {createGraphClient, GraphQueryError} from "../../frontend/src/lib/graph";
+import {MAX_DEPTH, MAX_ROWS} from "../src/schema";
+import {createApp} from "../src/server";
+import {indexerFor, openStore, SEEDED_PRODUCTS, seededFixture} from "./fixtures";
+
+describe("indexer - GraphQL API", function () {
+  async function apiFixture() {
+    const fixture = await seededFixture();
+    const store = openStore(":memory:", fixture);
+    await indexerFor(store, fixture.options).sync();
+    const server: Server = await new Promise((resolve) => {
+      const s = createApp(store).listen(0, "127.0.0.1", () => resolve(s));
+    });
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+    return {...fixture, store, url, graph: createGraphClient(url), server};
+  }
+
+  let api: Awaited<ReturnType<typeof apiFixture>> | undefined;
+
+  afterEach(async function () {
+    if (api) await new Promise((resolve) => api!.server.close(resolve));
+    api = undefined;
+  });
+
+  async function query<T>(url: string, source: string) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {"content-type": "application/json"},
+      body: JSON.stringify({query: source})
+    });
+    return (await response.json()) as {data?: T; errors?: {message: string}[]};
+  }
+
+  it("serves products with their transfers, disputes, provenance and batch", async function () {
+    api = await apiFixture();
+    const manufacturer = api.manufacturer.address.toLowerCase();
+    const lineage = await api.graph.product(SEEDED_PRODUCTS.delivered.toString());
+
+    expect(lineage).to.include({id: "1001", status: "DELIVERED", manufacturer});
+    expect(lineage!.currentOwner).to.equal(api.retailer.address.toLowerCase());
+    expect(lineage!.transfers.map(({id, status}) => [id, status])).to.deep.equal([
+      ["1001-1", "ACCEPTED"],
+      ["1001-2", "ACCEPTED"]
+    ]);
+    expect(lineage!.provenance[0].action).to.equal("MINTED");
+    expect(await api.graph.product("999")).to.equal(null);
+
+    const {data} = await query<{
+      batch: {status: string; productCount: number; products: {id: string}[]};
+      product: {disputes: Record<string, unknown>[]; activeDispute: {id: string} | null};
+      _meta: {block: {number: number}; hasIndexingErrors: boolean};
+    }>(
+      api.url,
+      `{
+        batch(id: "1") { status productCount products(orderBy: createdAt) { id } }
+        product(id: "1003") { disputes { id status manufacturerWon slashAmount } activeDispute { id } }
+        _meta { block { number } hasIndexingErrors }
+      }`
+    );
+    expect(data!.batch).to.deep.equal({
+      status: "RESOLVED",
+      productCount: 3,
+      products: [{id: "1001"}, {id: "1002"}, {id: "1003"}]
+    });
+    expect(data!.product).to.deep.equal({
+      disputes: [{id: "1003-1", status: "RESOLVED", manufacturerWon: false, slashAmount: "5000000000000000"}],
+      activeDispute: null
+    });
+    expect(data!._meta.block.number).to.equal(api.store.checkpoint()!.blockNumber);
+  });
+
+  it("filters by owner, manufacturer, status and time range", async function () {
+    api = await apiFixture();
+    const ids = (page: {items: {id: string}[]}) => page.items.map(({id}) => id);
+
+    expect(ids(await api.graph.products({owner: api.retailer.address}))).to.deep.equal(["1001"]);
+    expect(ids(await api.graph.products({status: ["IN_TRANSIT"]}))).to.have.members(["1002", "2001"]);
+    expect(ids(await api.graph.products({manufacturer: api.distributor.address}))).to.deep.equal([]);
+
+    const all = await api.graph.products({manufacturer: api.manufacturer.address});
+    expect(all.items).to.have.length(4);
+    const relayed = all.items.find(({id}) => id === "2001")!;
+    const since = Number(relayed.createdAt);
+    expect(ids(await api.graph.products({createdFrom: since}))).to.deep.equal(["2001"]);
+    expect(ids(await api.graph.products({createdTo: since - 1}))).to.have.members(["1001", "1002", "1003"]);
+
+    const {data} = await query<{disputes: {id: string}[]; transfers: {id: string}[]}>(
+      api.url,
+      `{ disputes(where: {resolvedAt_not: null}) { id } transfers(where: {status: ACCEPTED}) { id } }`
+    );
+    expect(data).to.deep.equal({disputes: [{id: "1003-1"}], transfers: [{id: "1001-1"}, {id: "1001-2"}]});
+  });
+
+  it("pages through products with a cursor, newest first", async function () {
+    api = await apiFixture();
+    const seen: string[] = [];
+    let page = await api.graph.products({}, {first: 3});
+    seen.push(...page.items.map(({id}) => id));
+    while (page.cursor) {
+      page = await api.graph.products({}, {first: 3, after: page.cursor});
+      seen.push(...page.items.map(({id}) => id));
+    }
+
+    const {data} = await query<{products: {id: string; createdAt: string}[]}>(
+      api.url,
+      `{ products(orderBy: createdAt, orderDirection: desc) { id createdAt } }`
+    );
+    expect(seen).to.deep.equal(data!.products.map(({id}) => id));
+    expect(seen).to.have.length(4);
+    const times = data!.products.map(({createdAt}) => Number(createdAt));
+    expect(times).to.deep.equal([...times].sort((a, b) => b - a));
+  });
+
+  it("reports bad queries as GraphQL errors", async function () {
+    api = await apiFixture();
+    await expect(api.graph.request(`{ products(first: 5000) { id } }`)).to.be.rejectedWith(
+      GraphQueryError,
+      /first must be between 0 and 1000/
+    );
+    await expect(api.graph.request(`{ products(where: {currentOwner: "retailer"}) { id } }`)).to.be.rejectedWith(
+      GraphQueryError,
+      /Bytes must be a 0x-prefixed hex string/
+    );
+
+    const response = await fetch(api.url, {method: "POST", headers: {"content-type": "application/json"}, body: "{}"});
+    expect(response.status).to.equal(400);
+  });
+
+  it("refuses queries nested deeper than MAX_DEPTH", async function () {
+    api = await apiFixture();
+    const nested = `{ products { batch { products { transfers { product { batch { id } } } } } } }`;
+    const deepest = `{ products(first: 2) { batch { products(first: 2) { transfers(first: 2) {
+      product { id } } } } } }`;
+    const viaFragments = `{ ...Lists }
+      fragment Lists on Query { products { batch { products { transfers { ...Leaf } } } } }
+      fragment Leaf on Transfer { product { batch { id } } }`;
+    for (const source of [nested, viaFragments]) {
+      await expect(api.graph.request(source)).to.be.rejectedWith(
+        GraphQueryError,
+        new RegExp(`nested deeper than ${MAX_DEPTH} levels`)
+      );
+    }
+    expect(await api.graph.request<{products: unknown[]}>(deepest)).to.have.property("products");
+  });
+
+  it("refuses queries that could load more than MAX_ROWS rows", async function () {
+    api = await apiFixture();
+    const refused = new RegExp(`more than ${MAX_ROWS}$`);
+    const nestedLists = `{ batches(first: 1000) { products(first: 1000) { batch { products(first: 1000) { id } } } } }`;
+    const aliases = `{ ${Array.from({length: 500}, (_, i) => `p${i}: products(first: 1000) { id }`).join(" ")} }`;
+    const viaFragment = `{ batches(first: 1000) { ...Products } }
+      fragment Products on Batch { products(first: 1000) { id } }`;
+    for (const source of [nestedLists, aliases, viaFragment]) {
+      await expect(api.graph.request(source)).to.be.rejectedWith(GraphQueryError, refused);
+    }
+    const byVariable = `query ($first: Int) { batches(first: $first) { products(first: $first) { id } } }`;
+    await expect(api.graph.request(byVariable, {first: 1000})).to.be.rejectedWith(GraphQueryError, refused);
+    const {batches} = await api.graph.request<{batches: {products: unknown[]}[]}>(byVariable, {first: 50});
+    expect(batches).to.not.be.empty;
+    const twice = await api.graph.request<{a: unknown[]; b: unknown[]}>(`{ a: products { id } b: products { id } }`);
+    expect(twice.a).to.deep.equal(twice.b);
+  });
+});
@@ -0,0 +1,35 @@
+import {ethers} from "hardhat";
+
+import {seed, SEEDED_BATCHES, SEEDED_PRODUCTS} from "../../hardhat/scripts/seed";
+import type {SupplyChain} from "../../hardhat/typechain-types";
+import {EventIndexer, type IndexerOptions} from "../src/indexer";
+import {IndexerStore} from "../src/store";
+
+export {SEEDED_BATCHES, SEEDED_PRODUCTS};
+
+/** A SupplyChain given the history of hardhat/scripts/seed.ts, on the in-process hardhat network. */
+export async function seededFixture() {
+  const [admin, manufacturer, distributor, retailer, relayer] = await ethers.getSigners();
+  const deployed = await (await ethers.getContractFactory("SupplyChain")).deploy(admin.address);
+  const deployment = await deployed.deploymentTransaction()!.wait();
+  const sc = deployed as unknown as SupplyChain;
+  await seed(sc, {admin, manufacturer, distributor, retailer, relayer});
+
+  const {chainId} = await ethers.provider.getNetwork();
+  const options: IndexerOptions = {
+    supplyChainAddress: await sc.getAddress(),
+    deployBlock: deployment!.blockNumber,
+    pollIntervalMs: 10,
+    blockRange: 2000,
+    confirmations: 0
+  };
+  return {sc, admin, manufacturer, distributor, retailer, relayer, chainId, options};
+}
+
+export function openStore(filename: string, fixture: {chainId: bigint; options: IndexerOptions}): IndexerStore {
+  return new IndexerStore(filename, {chainId: fixture.chainId, supplyChainAddress: fixture.options.supplyChainAddress});
+}
+
+export function indexerFor(store: IndexerStore, options: IndexerOptions): EventIndexer {
+  return new EventIndexer(options, {provider: ethers.provider, store});
+}
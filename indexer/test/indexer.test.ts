@@ -0,0 +1,189 @@
+import {expect} from "chai";
+import {promises as fs} from "fs";
+import os from "os";
+import path from "path";
+import type {Filter} from "ethers";
+import {ethers} from "hardhat";
+
+import {EventIndexer} from "../src/indexer";
+import {StoreMismatchError} from "../src/store";
+import {indexerFor, openStore, SEEDED_BATCHES, SEEDED_PRODUCTS, seededFixture} from "./fixtures";
+
+describe("indexer - event indexing", function () {
+  async function withTempDir(fn: (dir: string) => Promise<void>) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "indexer-"));
+    try {
+      await fn(dir);
+    } finally {
+      await fs.rm(dir, {recursive: true, force: true});
+    }
+  }
+
+  it("builds the read model from the seeded history", async function () {
+    const fixture = await seededFixture();
+    const store = openStore(":memory:", fixture);
+    const result = await indexerFor(store, fixture.options).sync();
+    const {db} = store;
+    const [manufacturer, distributor, retailer] = [fixture.manufacturer, fixture.distributor, fixture.retailer].map(
+      (signer) => signer.address.toLowerCase()
+    );
+
+    expect(result.from).to.equal(fixture.options.deployBlock);
+    expect(result.to).to.equal(await ethers.provider.getBlockNumber());
+    expect(store.checkpoint()!.blockNumber).to.equal(result.to);
+
+    const batches = db
+      .prepare("SELECT id, status, product_count, total_staked, total_slashed FROM batches ORDER BY id")
+      .all();
+    expect(batches).to.deep.equal([
+      {
+        id: SEEDED_BATCHES.full.toString(),
+        status: "RESOLVED",
+        product_count: 3,
+        total_staked: ethers.parseEther("0.03").toString(),
+        total_slashed: ethers.parseEther("0.005").toString()
+      },
+      {
+        id: SEEDED_BATCHES.open.toString(),
+        status: "ACTIVE",
+        product_count: 1,
+        total_staked: ethers.parseEther("0.05").toString(),
+        total_slashed: "0"
+      }
+    ]);
+
+    const product = (id: bigint) =>
+      db
+        .prepare("SELECT status, current_owner, current_transfer_id, transfer_count FROM products WHERE id = ?")
+        .get(id.toString());
+    expect(product(SEEDED_PRODUCTS.delivered)).to.deep.equal({
+      status: "DELIVERED",
+      current_owner: retailer,
+      current_transfer_id: null,
+      transfer_count: 2
+    });
+    expect(product(SEEDED_PRODUCTS.inTransit)).to.deep.equal({
+      status: "IN_TRANSIT",
+      current_owner: manufacturer,
+      current_transfer_id: `${SEEDED_PRODUCTS.inTransit}-1`,
+      transfer_count: 1
+    });
+    expect(product(SEEDED_PRODUCTS.slashed)).to.include({status: "SLASHED", current_transfer_id: null});
+    expect(product(SEEDED_PRODUCTS.relayed)).to.include({status: "IN_TRANSIT", transfer_count: 1});
+
+    const transfers = db
+      .prepare(
+        "SELECT id, from_address, to_address, status, duration IS NOT NULL AS timed FROM transfers WHERE product_id = ?"
+      )
+      .all(SEEDED_PRODUCTS.delivered.toString());
+    expect(transfers).to.deep.equal([
+      {id: "1001-1", from_address: manufacturer, to_address: distributor, status: "ACCEPTED", timed: 1},
+      {id: "1001-2", from_address: distributor, to_address: retailer, status: "ACCEPTED", timed: 1}
+    ]);
+
+    const dispute = db.prepare("SELECT * FROM disputes").get() as Record<string, unknown>;
+    expect(dispute).to.include({
+      id: "1003-1",
+      product_id: "1003",
+      initiator: distributor,
+      status: "RESOLVED",
+      manufacturer_won: 0,
+      winner: distributor,
+      stake_involved: ethers.parseEther("0.01").toString(),
+      slash_amount: ethers.parseEther("0.005").toString(),
+      refund_amount: null
+    });
+    expect(db.prepare("SELECT dispute_id FROM transfers WHERE id = '1003-1'").get()).to.deep.equal({
+      dispute_id: "1003-1"
+    });
+
+    const provenance = db
+      .prepare("SELECT action FROM provenance WHERE product_id = ? ORDER BY block, log_index")
+      .all(SEEDED_PRODUCTS.delivered.toString())
+      .map((row) => (row as {action: string}).action);
+    expect(provenance.length).to.be.greaterThan(1);
+    expect(provenance[0]).to.equal("MINTED");
+  });
+
+  it("backfills from the deployment block in bounded ranges", async function () {
+    const fixture = await seededFixture();
+    const ranges: [number, number][] = [];
+    const provider = {
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      getBlock: (block: number) => ethers.provider.getBlock(block),
+      getLogs: async (filter: Filter) => {
+        ranges.push([Number(filter.fromBlock), Number(filter.toBlock)]);
+        return ethers.provider.getLogs(filter);
+      }
+    };
+    const ranged = openStore(":memory:", fixture);
+    const result = await new EventIndexer({...fixture.options, blockRange: 4}, {provider, store: ranged}).sync();
+
+    expect(ranges[0][0]).to.equal(fixture.options.deployBlock);
+    expect(ranges[ranges.length - 1][1]).to.equal(result.to);
+    for (const [index, [from, to]] of ranges.entries()) {
+      expect(to - from).to.be.lessThan(4);
+      if (index > 0) expect(from).to.equal(ranges[index - 1][1] + 1);
+    }
+
+    const whole = openStore(":memory:", fixture);
+    await indexerFor(whole, fixture.options).sync();
+    for (const table of ["batches", "products", "transfers", "disputes", "provenance"]) {
+      const rows = (store: typeof whole) => store.db.prepare(`SELECT * FROM ${table} ORDER BY id`).all();
+      expect(rows(ranged), table).to.deep.equal(rows(whole));
+    }
+  });
+
+  it("resumes after its checkpoint when restarted", async function () {
+    const fixture = await seededFixture();
+    await withTempDir(async (dir) => {
+      const file = path.join(dir, "indexer.sqlite");
+      let store = openStore(file, fixture);
+      const first = await indexerFor(store, fixture.options).sync();
+      store.close();
+
+      await (await fixture.sc.connect(fixture.distributor).acceptTransfer(SEEDED_PRODUCTS.inTransit)).wait();
+
+      store = openStore(file, fixture);
+      const second = await indexerFor(store, fixture.options).sync();
+      expect(second.from).to.equal(first.to + 1);
+      expect(second.events).to.be.greaterThan(0);
+      const row = store.db
+        .prepare("SELECT status FROM products WHERE id = ?")
+        .get(SEEDED_PRODUCTS.inTransit.toString());
+      expect(row).to.deep.equal({status: "DELIVERED"});
+      expect(store.db.prepare("SELECT COUNT(*) AS count FROM batches").get()).to.deep.equal({count: 2});
+      store.close();
+    });
+  });
+
+  it("follows new blocks until stopped", async function () {
+    const fixture = await seededFixture();
+    const store = openStore(":memory:", fixture);
+    const indexer = indexerFor(store, fixture.options);
+    indexer.start();
+    try {
+      const receipt = await (
+        await fixture.sc.connect(fixture.distributor).acceptTransfer(SEEDED_PRODUCTS.inTransit)
+      ).wait();
+      for (let i = 0; i < 200 && (store.checkpoint()?.blockNumber ?? -1) < receipt!.blockNumber; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    } finally {
+      await indexer.stop();
+    }
+    const row = store.db.prepare("SELECT status FROM products WHERE id = ?").get(SEEDED_PRODUCTS.inTransit.toString());
+    expect(row).to.deep.equal({status: "DELIVERED"});
+  });
+
+  it("refuses a database indexed for another deployment", async function () {
+    const fixture = await seededFixture();
+    await withTempDir(async (dir) => {
+      const file = path.join(dir, "indexer.sqlite");
+      openStore(file, fixture).close();
+      const other = {...fixture, options: {...fixture.options, supplyChainAddress: ethers.ZeroAddress}};
+      expect(() => openStore(file, other)).to.throw(StoreMismatchError, /supply_chain_address/);
+      expect(() => openStore(file, {...fixture, chainId: 1n})).to.throw(StoreMismatchError, /chain_id/);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {ReorgTooDeepError} from "../src/indexer";
+import type {IndexerStore} from "../src/store";
+import {indexerFor, openStore, SEEDED_PRODUCTS, seededFixture} from "./fixtures";
+
+describe("indexer - chain reorganizations", function () {
+  const TABLES = ["batches", "products", "transfers", "disputes", "provenance"];
+
+  function rows(store: IndexerStore, table: string) {
+    return store.db.prepare(`SELECT * FROM ${table} ORDER BY id`).all();
+  }
+
+  async function mine(blocks: number) {
+    for (let i = 0; i < blocks; i++) await ethers.provider.send("evm_mine", []);
+  }
+
+  it("rolls orphaned blocks back to the fork point and reapplies the new branch", async function () {
+    const fixture = await seededFixture();
+    const options = {...fixture.options, confirmations: 5};
+    const store = openStore(":memory:", fixture);
+    await indexerFor(store, options).sync();
+
+    const fork = await ethers.provider.getBlock("latest");
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await (await fixture.sc.connect(fixture.distributor).acceptTransfer(SEEDED_PRODUCTS.inTransit)).wait();
+    await indexerFor(store, options).sync();
+    expect(rows(store, "products").find((row) => (row as {id: string}).id === "1002")).to.include({
+      status: "DELIVERED"
+    });
+
+    // The orphaned branch is replaced by a longer one that leaves 1002 in transit and delivers 2001 instead.
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await (await fixture.sc.connect(fixture.retailer).acceptTransfer(SEEDED_PRODUCTS.relayed)).wait();
+    await mine(2);
+    const result = await indexerFor(store, options).sync();
+
+    expect(result.forks).to.deep.equal([fork!.number]);
+    const product = (id: bigint) =>
+      store.db.prepare("SELECT status, current_transfer_id FROM products WHERE id = ?").get(id.toString());
+    expect(product(SEEDED_PRODUCTS.inTransit)).to.deep.equal({status: "IN_TRANSIT", current_transfer_id: "1002-1"});
+    expect(product(SEEDED_PRODUCTS.relayed)).to.deep.equal({status: "DELIVERED", current_transfer_id: null});
+    expect(store.db.prepare("SELECT status, accepted_at FROM transfers WHERE id = '1002-1'").get()).to.deep.equal({
+      status: "PENDING",
+      accepted_at: null
+    });
+
+    const fresh = openStore(":memory:", fixture);
+    await indexerFor(fresh, options).sync();
+    for (const table of TABLES) expect(rows(store, table), table).to.deep.equal(rows(fresh, table));
+    expect(store.recentBlocks()).to.deep.equal(fresh.recentBlocks());
+  });
+
+  it("marks records final once they are buried under the confirmation depth", async function () {
+    const fixture = await seededFixture();
+    const options = {...fixture.options, confirmations: 3};
+    const store = openStore(":memory:", fixture);
+    const {to} = await indexerFor(store, options).sync();
+
+    expect(store.finalizedBlock()).to.equal(to - 3);
+    for (const table of TABLES) {
+      for (const row of rows(store, table) as {updated_block: number; final: number}[]) {
+        expect(row.final, table).to.equal(row.updated_block <= to - 3 ? 1 : 0);
+      }
+    }
+    // The seed ends with the dispute on 1003 and the relayed transfer of 2001.
+    const pending = store.db.prepare("SELECT id FROM products WHERE final = 0 ORDER BY id").all();
+    expect(pending).to.deep.equal([{id: "1003"}, {id: "2001"}]);
+    expect(store.recentBlocks().map((block) => block.number)).to.deep.equal([to, to - 1, to - 2, to - 3]);
+
+    await mine(3);
+    await indexerFor(store, options).sync();
+    for (const table of TABLES) {
+      expect(store.db.prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE final = 0`).get(), table).to.deep.equal({
+        count: 0
+      });
+    }
+    expect(store.db.prepare("SELECT COUNT(*) AS count FROM journal").get()).to.deep.equal({count: 0});
+  });
+
+  it("refuses to roll back past the confirmation depth", async function () {
+    const fixture = await seededFixture();
+    const options = {...fixture.options, confirmations: 1};
+    const store = openStore(":memory:", fixture);
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await (await fixture.sc.connect(fixture.distributor).acceptTransfer(SEEDED_PRODUCTS.inTransit)).wait();
+    await mine(2);
+    await indexerFor(store, options).sync();
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await mine(5);
+    await expect(indexerFor(store, options).sync()).to.be.rejectedWith(ReorgTooDeepError);
+  });
+});
@@ -0,0 +1,119 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import type {IndexerStore} from "../src/store";
+import {indexerFor, openStore, SEEDED_PRODUCTS, seededFixture} from "./fixtures";
+
+describe("indexer - transfer timeouts", function () {
+  const TRANSFER_TIMEOUT = 3 * 24 * 60 * 60;
+  const REFUND_WINDOW = 14 * 24 * 60 * 60;
+
+  async function elapse(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  function transfer(store: IndexerStore, id: string) {
+    return store.db
+      .prepare("SELECT status, initiated_at, expires_at, timed_out_at, dispute_id FROM transfers WHERE id = ?")
+      .get(id) as {status: string; initiated_at: number; expires_at: number; timed_out_at: number | null};
+  }
+
+  function product(store: IndexerStore, id: bigint) {
+    return store.db
+      .prepare("SELECT status, current_owner, current_transfer_id, last_updated_at FROM products WHERE id = ?")
+      .get(id.toString());
+  }
+
+  it("times out transfers not accepted within TRANSFER_TIMEOUT and hands the product back", async function () {
+    const fixture = await seededFixture();
+    const store = openStore(":memory:", fixture);
+    await indexerFor(store, fixture.options).sync();
+    const pending = transfer(store, "1002-1");
+    expect(pending).to.include({status: "PENDING", expires_at: pending.initiated_at + TRANSFER_TIMEOUT});
+
+    await elapse(TRANSFER_TIMEOUT + 1);
+    await indexerFor(store, fixture.options).sync();
+
+    expect(transfer(store, "1002-1")).to.include({status: "TIMEDOUT", timed_out_at: pending.expires_at});
+    expect(transfer(store, "2001-1")).to.include({status: "TIMEDOUT"});
+    expect(product(store, SEEDED_PRODUCTS.inTransit)).to.deep.equal({
+      status: "MINTED",
+      current_owner: fixture.manufacturer.address.toLowerCase(),
+      current_transfer_id: null,
+      last_updated_at: pending.expires_at
+    });
+
+    const {sc, manufacturer, retailer} = fixture;
+    await (
+      await sc.connect(manufacturer).initiateTransfer(SEEDED_PRODUCTS.inTransit, retailer.address, ethers.ZeroHash)
+    ).wait();
+    await indexerFor(store, fixture.options).sync();
+    expect(transfer(store, "1002-2")).to.include({status: "PENDING"});
+    expect(product(store, SEEDED_PRODUCTS.inTransit)).to.include({
+      status: "IN_TRANSIT",
+      current_transfer_id: "1002-2"
+    });
+
+    // Indexed in one range, the new transfer is what reveals the timeout of the first.
+    const fresh = openStore(":memory:", fixture);
+    await indexerFor(fresh, fixture.options).sync();
+    for (const query of [
+      "SELECT id, status, current_transfer_id, last_updated_at FROM products ORDER BY id",
+      "SELECT id, status, timed_out_at FROM transfers ORDER BY id"
+    ]) {
+      expect(fresh.db.prepare(query).all(), query).to.deep.equal(store.db.prepare(query).all());
+    }
+  });
+
+  it("blocks a pending transfer on a dispute and times it out once the refund is claimed", async function () {
+    const fixture = await seededFixture();
+    const store = openStore(":memory:", fixture);
+    await indexerFor(store, fixture.options).sync();
+    // The seeded dispute on 1003 was resolved, which drops the transfer it blocked.
+    expect(transfer(store, "1003-1")).to.include({status: "BLOCKED_BY_DISPUTE", dispute_id: "1003-1"});
+    expect(product(store, SEEDED_PRODUCTS.slashed)).to.include({current_transfer_id: null});
+
+    const {sc, manufacturer, retailer} = fixture;
+    await (await sc.connect(retailer).raiseDispute(SEEDED_PRODUCTS.relayed, ethers.ZeroHash)).wait();
+    await indexerFor(store, fixture.options).sync();
+    expect(transfer(store, "2001-1")).to.include({status: "BLOCKED_BY_DISPUTE", dispute_id: "2001-1"});
+
+    // Blocked transfers are left alone once they expire; only the claim settles them.
+    await elapse(REFUND_WINDOW);
+    await indexerFor(store, fixture.options).sync();
+    expect(transfer(store, "2001-1")).to.include({status: "BLOCKED_BY_DISPUTE"});
+
+    await (await sc.connect(manufacturer).claimRefund(SEEDED_PRODUCTS.relayed)).wait();
+    await indexerFor(store, fixture.options).sync();
+    const blocked = transfer(store, "2001-1");
+    expect(blocked).to.include({status: "TIMEDOUT", timed_out_at: blocked.expires_at});
+    expect(product(store, SEEDED_PRODUCTS.relayed)).to.include({status: "REFUNDED", current_transfer_id: null});
+    expect(store.db.prepare("SELECT status FROM disputes WHERE id = '2001-1'").get()).to.deep.equal({
+      status: "CLAIMED_REFUND"
+    });
+  });
+
+  it("brings timed-out transfers back when the block that timed them out is orphaned", async function () {
+    const fixture = await seededFixture();
+    const options = {...fixture.options, confirmations: 5};
+    const store = openStore(":memory:", fixture);
+    await indexerFor(store, options).sync();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await elapse(TRANSFER_TIMEOUT + 1);
+    await indexerFor(store, options).sync();
+    expect(transfer(store, "1002-1")).to.include({status: "TIMEDOUT"});
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    for (let i = 0; i < 2; i++) await ethers.provider.send("evm_mine", []);
+    const result = await indexerFor(store, options).sync();
+
+    expect(result.forks).to.have.length(1);
+    expect(transfer(store, "1002-1")).to.include({status: "PENDING", timed_out_at: null});
+    expect(product(store, SEEDED_PRODUCTS.inTransit)).to.include({
+      status: "IN_TRANSIT",
+      current_transfer_id: "1002-1"
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import {promises as fs} from "fs";
+import {
+  AbstractSigner,
+  copyRequest,
+  getAddress,
+  hexlify,
+  resolveAddress,
+  toUtf8Bytes,
+  Transaction,
+  TypedDataEncoder,
+  verifyMessage,
+  verifyTypedData,
+  Wallet,
+  type Provider,
+  type TransactionLike,
+  type TransactionRequest,
+  type TypedDataDomain,
+  type TypedDataField
+} from "ethers";
+
+import {ConfigError, type RelayerConfig} from "../config";
+
+/** A sending key held by a signing service rather than by the relayer. */
+export interface RemoteSignerConfig {
+  /** Base URL of a service speaking the remote signer protocol (see src/remoteSigner.ts). */
+  url: string;
+  /** Accounts to send from; each must be offered by the service. */
+  addresses: string[];
+  /** Sent as a bearer token when set. */
+  token?: string;
+}
+
+export interface KeystoreConfig {
+  /** Encrypted JSON (v3) keystore file. */
+  path: string;
+  password: string;
+}
+
+export class RemoteSignerError extends Error {
+  constructor(
+    readonly status: number | undefined,
+    message: string
+  ) {
+    super(message);
+    this.name = "RemoteSignerError";
+  }
+}
+
+/**
+ * Signer whose key lives behind the remote signer protocol:
+ *
+ *   GET  /accounts          -> {addresses}
+ *   POST /sign/transaction  {address, transaction} -> {signedTransaction}
+ *   POST /sign/message      {address, message}     -> {signature}
+ *   POST /sign/typed-data   {address, payload}     -> {signature}
+ *
+ * `transaction` is the unsigned serialized transaction, `message` is hex and
+ * `payload` is the EIP-712 JSON payload. Every signature is recovered and
+ * checked against the account before it is used, so a misbehaving service
+ * cannot make the relayer broadcast something it did not ask for.
+ */
+export class RemoteSigner extends AbstractSigner {
+  readonly address: string;
+
+  constructor(
+    address: string,
+    readonly remote: Omit<RemoteSignerConfig, "addresses">,
+    provider: Provider | null = null
+  ) {
+    super(provider);
+    this.address = getAddress(address);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: Provider | null): RemoteSigner {
+    return new RemoteSigner(this.address, this.remote, provider);
+  }
+
+  async signTransaction(request: TransactionRequest): Promise<string> {
+    const [to, from] = await Promise.all([
+      request.to ? resolveAddress(request.to, this.provider) : undefined,
+      request.from ? resolveAddress(request.from, this.provider) : undefined
+    ]);
+    if (from !== undefined && getAddress(from) !== this.address) {
+      throw new RemoteSignerError(undefined, `transaction from ${from} cannot be signed by ${this.address}`);
+    }
+    // Copied rather than spread: ethers passes a Transaction, whose fields are accessors.
+    const tx = copyRequest(request);
+    tx.to = to;
+    delete tx.from;
+    const unsigned = Transaction.from(tx as TransactionLike<string>);
+
+    const {signedTransaction} = await this.sign("/sign/transaction", {transaction: unsigned.unsignedSerialized});
+    const signed = Transaction.from(String(signedTransaction));
+    if (signed.unsignedHash !== unsigned.unsignedHash || signed.from !== this.address) {
+      throw new RemoteSignerError(undefined, "remote signer returned a different transaction");
+    }
+    return signed.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === "string" ? toUtf8Bytes(message) : message;
+    const {signature} = await this.sign("/sign/message", {message: hexlify(bytes)});
+    this.check(verifyMessage(bytes, String(signature)));
+    return String(signature);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const resolved = await TypedDataEncoder.resolveNames(domain, types, value, async (name) =>
+      resolveAddress(name, this.provider)
+    );
+    const payload = TypedDataEncoder.getPayload(resolved.domain, types, resolved.value);
+    const {signature} = await this.sign("/sign/typed-data", {payload});
+    this.check(verifyTypedData(resolved.domain, types, resolved.value, String(signature)));
+    return String(signature);
+  }
+
+  private check(recovered: string): void {
+    if (recovered !== this.address) {
+      throw new RemoteSignerError(undefined, `remote signer answered with a signature from ${recovered}`);
+    }
+  }
+
+  private sign(route: string, body: Record<string, unknown>): Promise<Record<string, unknown>> {
+    return remoteRequest(this.remote, route, {address: this.address, ...body});
+  }
+}
+
+async function remoteRequest(
+  remote: Omit<RemoteSignerConfig, "addresses">,
+  route: string,
+  body?: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const headers: Record<string, string> = {"content-type": "application/json"};
+  if (remote.token) headers.authorization = `Bearer ${remote.token}`;
+  let res: Response;
+  try {
+    res = await fetch(`${remote.url.replace(/\/+$/, "")}${route}`, {
+      method: body ? "POST" : "GET",
+      headers,
+      body: body && JSON.stringify(body)
+    });
+  } catch (err) {
+    throw new RemoteSignerError(undefined, `remote signer unreachable: ${(err as Error).message}`);
+  }
+  const answer = (await res.json().catch(() => ({}))) as Record<string, unknown>;
+  if (!res.ok) {
+    const reason = String(answer.error ?? res.statusText);
+    throw new RemoteSignerError(res.status, `remote signer refused ${route}: ${reason}`);
+  }
+  return answer;
+}
+
+/**
+ * Builds a signer for every configured sending key: raw private keys,
+ * decrypted keystores, then remote accounts, each connected to `provider`.
+ * A keystore that cannot be decrypted, a remote account the service does not
+ * offer, or a key configured twice fails startup.
+ */
+export async function loadRelayerSigners(
+  config: Pick<RelayerConfig, "relayerPrivateKeys" | "relayerKeystores" | "remoteSigner">,
+  provider: Provider
+): Promise<AbstractSigner[]> {
+  const problems: string[] = [];
+  const signers: AbstractSigner[] = config.relayerPrivateKeys.map((key) => new Wallet(key, provider));
+
+  for (const [index, keystore] of config.relayerKeystores.entries()) {
+    const field = `relayerKeystores[${index}]`;
+    let json: string;
+    try {
+      json = await fs.readFile(keystore.path, "utf8");
+    } catch (err) {
+      problems.push(`${field}: cannot read ${keystore.path} (${(err as NodeJS.ErrnoException).code})`);
+      continue;
+    }
+    try {
+      signers.push((await Wallet.fromEncryptedJson(json, keystore.password)).connect(provider));
+    } catch {
+      problems.push(`${field}: cannot decrypt ${keystore.path} (wrong password or not a v3 keystore)`);
+    }
+  }
+
+  if (config.remoteSigner) {
+    const {addresses, ...remote} = config.remoteSigner;
+    try {
+      const offered = new Set(((await remoteRequest(remote, "/accounts")).addresses as string[]).map(getAddress));
+      for (const address of addresses) {
+        if (offered.has(getAddress(address))) signers.push(new RemoteSigner(address, remote, provider));
+        else problems.push(`remoteSigner.addresses: ${address} is not offered by ${remote.url}`);
+      }
+    } catch (err) {
+      problems.push(`remoteSigner.url: ${(err as Error).message}`);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const signer of signers) {
+    const address = await signer.getAddress();
+    if (seen.has(address)) problems.push(`relayer keys: ${address} is configured more than once`);
+    seen.add(address);
+  }
+  if (problems.length > 0) throw new ConfigError(problems);
+  return signers;
+}
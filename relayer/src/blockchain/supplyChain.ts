@@ -0,0 +1,338 @@
+import {
+  Contract,
+  getAddress,
+  Interface,
+  isHexString,
+  type BaseContract,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type Overrides,
+  type TransactionReceipt
+} from "ethers";
+
+import type {SupplyChain} from "../../../hardhat/typechain-types/contracts/SupplyChain";
+import SupplyChainArtifact from "../../../hardhat/artifacts/contracts/SupplyChain.sol/SupplyChain.json";
+
+export type {SupplyChain};
+
+export const supplyChainInterface = new Interface(SupplyChainArtifact.abi);
+
+export function connectSupplyChain(address: string, runner: ContractRunner): SupplyChain {
+  return new Contract(address, supplyChainInterface, runner) as unknown as SupplyChain;
+}
+
+/** SupplyChain entry points the relayer can pay for. */
+export const RELAY_METHODS = ["executeMetaTx", "acceptTransferWithSig", "initiateTransferWithSig"] as const;
+export type RelayMethod = (typeof RELAY_METHODS)[number];
+
+/** Argument tuples of the relayable methods, in contract order. */
+export interface RelayArgs {
+  executeMetaTx: [
+    user: string,
+    productId: bigint,
+    to: string,
+    locationHash: string,
+    nonce: bigint,
+    deadline: bigint,
+    signature: string
+  ];
+  initiateTransferWithSig: [
+    productId: bigint,
+    to: string,
+    locationHash: string,
+    nonce: bigint,
+    deadline: bigint,
+    signature: string
+  ];
+  acceptTransferWithSig: [productId: bigint, nonce: bigint, deadline: bigint, signature: string];
+}
+
+/** A relayable method together with its arguments. */
+export type RelayCall = {[M in RelayMethod]: {method: M; args: RelayArgs[M]}}[RelayMethod];
+
+/** Custom errors declared in contracts/errors/SupplyChainErrors.sol. */
+export type SupplyChainErrorName =
+  | "NotAuthorized"
+  | "StakeRequired"
+  | "BatchAlreadyRegistered"
+  | "BatchNotActive"
+  | "BatchLimitReached"
+  | "InvalidBatch"
+  | "ProductAlreadyExists"
+  | "ProductNotFound"
+  | "TransferAlreadyPending"
+  | "NoPendingTransfer"
+  | "InvalidReceiver"
+  | "DeadlineExpired"
+  | "InvalidSignature"
+  | "DisputeNotActive"
+  | "DisputeAlreadyResolved"
+  | "InsufficientStake"
+  | "NoRelayerApproval";
+
+/**
+ * A SupplyChain revert. Errors from SupplyChainErrors.sol get their own
+ * subclass; reverts from inherited OpenZeppelin code (AccessControl, ECDSA)
+ * use this class directly with the decoded name and arguments.
+ */
+export class SupplyChainError extends Error {
+  constructor(
+    readonly errorName: SupplyChainErrorName | (string & {}),
+    readonly args: readonly unknown[] = [],
+    /** The provider error the revert was decoded from. */
+    readonly cause?: unknown
+  ) {
+    super(`SupplyChain reverted with ${errorName}`);
+    this.name = "SupplyChainError";
+  }
+}
+
+export class NotAuthorizedError extends SupplyChainError {}
+export class StakeRequiredError extends SupplyChainError {}
+export class BatchAlreadyRegisteredError extends SupplyChainError {}
+export class BatchNotActiveError extends SupplyChainError {}
+export class BatchLimitReachedError extends SupplyChainError {}
+export class InvalidBatchError extends SupplyChainError {}
+export class ProductAlreadyExistsError extends SupplyChainError {}
+export class ProductNotFoundError extends SupplyChainError {}
+export class TransferAlreadyPendingError extends SupplyChainError {}
+export class NoPendingTransferError extends SupplyChainError {}
+export class InvalidReceiverError extends SupplyChainError {}
+export class DeadlineExpiredError extends SupplyChainError {}
+export class InvalidSignatureError extends SupplyChainError {}
+export class DisputeNotActiveError extends SupplyChainError {}
+export class DisputeAlreadyResolvedError extends SupplyChainError {}
+export class InsufficientStakeError extends SupplyChainError {}
+export class NoRelayerApprovalError extends SupplyChainError {}
+
+const ERROR_CLASSES: Record<SupplyChainErrorName, typeof SupplyChainError> = {
+  NotAuthorized: NotAuthorizedError,
+  StakeRequired: StakeRequiredError,
+  BatchAlreadyRegistered: BatchAlreadyRegisteredError,
+  BatchNotActive: BatchNotActiveError,
+  BatchLimitReached: BatchLimitReachedError,
+  InvalidBatch: InvalidBatchError,
+  ProductAlreadyExists: ProductAlreadyExistsError,
+  ProductNotFound: ProductNotFoundError,
+  TransferAlreadyPending: TransferAlreadyPendingError,
+  NoPendingTransfer: NoPendingTransferError,
+  InvalidReceiver: InvalidReceiverError,
+  DeadlineExpired: DeadlineExpiredError,
+  InvalidSignature: InvalidSignatureError,
+  DisputeNotActive: DisputeNotActiveError,
+  DisputeAlreadyResolved: DisputeAlreadyResolvedError,
+  InsufficientStake: InsufficientStakeError,
+  NoRelayerApproval: NoRelayerApprovalError
+};
+
+/**
+ * Revert data carried by a failed call. ethers puts it on CALL_EXCEPTION
+ * errors, while JSON-RPC and hardhat provider errors nest it one or two
+ * levels down, so walk the usual wrappers.
+ */
+function revertData(err: unknown): string | null {
+  let current = err as {data?: unknown; error?: unknown; info?: {error?: unknown}} | undefined;
+  for (let depth = 0; current && depth < 4; depth++) {
+    if (isHexString(current.data) && current.data.length >= 10) return current.data;
+    current = (current.error ?? current.info?.error) as typeof current;
+  }
+  return null;
+}
+
+/** Typed error for a failed SupplyChain call, or null when it was not a decodable revert. */
+export function decodeSupplyChainError(err: unknown): SupplyChainError | null {
+  if (err instanceof SupplyChainError) return err;
+  const data = revertData(err);
+  if (!data) return null;
+
+  let parsed;
+  try {
+    parsed = supplyChainInterface.parseError(data);
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const ErrorClass = ERROR_CLASSES[parsed.name as SupplyChainErrorName] ?? SupplyChainError;
+  const error = new ErrorClass(parsed.name, [...parsed.args], err);
+  error.name = ErrorClass.name;
+  return error;
+}
+
+/** Name of the SupplyChain custom error behind a failed call, or null. */
+export function revertReason(err: unknown): string | null {
+  return decodeSupplyChainError(err)?.errorName ?? null;
+}
+
+export type BatchStatus = "CREATED" | "FULLY_MINTED";
+
+export interface BatchMetadata {
+  manufacturer: string;
+  maxUnits: bigint;
+  minted: bigint;
+  stake: bigint;
+  status: BatchStatus;
+}
+
+/** A transfer awaiting acceptance. */
+export interface PendingTransfer {
+  to: string;
+  /** Timestamp (seconds) of the block it was initiated in. */
+  initiatedAt: bigint;
+}
+
+/** A transfer starting or ending for a product, as SupplyChain's events tell it. */
+export interface PendingTransferEvent {
+  productId: bigint;
+  /** Receiver of the transfer initiated; null when the pending one was accepted or dropped. */
+  to: string | null;
+  blockNumber: number;
+}
+
+/**
+ * Relayer-facing wrapper around the typechain SupplyChain contract: reads
+ * come back as plain typed values, every revert surfaces as a
+ * SupplyChainError subclass, and writes wait for the configured number of
+ * confirmations.
+ */
+export class SupplyChainClient {
+  constructor(
+    readonly contract: SupplyChain,
+    readonly confirmations = 1
+  ) {}
+
+  static connect(address: string, runner: ContractRunner, confirmations?: number): SupplyChainClient {
+    return new SupplyChainClient(connectSupplyChain(address, runner), confirmations);
+  }
+
+  /** Same contract and settings, sending from another runner. */
+  connect(runner: ContractRunner): SupplyChainClient {
+    return new SupplyChainClient(this.contract.connect(runner), this.confirmations);
+  }
+
+  getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  ownerOf(productId: bigint): Promise<string> {
+    return this.read(() => this.contract.ownerOf(productId));
+  }
+
+  productBatch(productId: bigint): Promise<bigint> {
+    return this.read(() => this.contract.productBatch(productId));
+  }
+
+  getBatchMetadata(batchId: bigint): Promise<BatchMetadata> {
+    return this.read(async () => {
+      const [manufacturer, maxUnits, minted, stake, status] = await this.contract.getBatchMetadata(batchId);
+      return {manufacturer, maxUnits, minted, stake, status: status as BatchStatus};
+    });
+  }
+
+  nonces(user: string): Promise<bigint> {
+    return this.read(() => this.contract.nonces(user));
+  }
+
+  isDisputeActive(productId: bigint): Promise<boolean> {
+    return this.read(() => this.contract.isDisputeActive(productId));
+  }
+
+  /** Seconds a pending transfer may wait for acceptance (TRANSFER_TIMEOUT). */
+  transferTimeout(): Promise<bigint> {
+    return this.read(() => this.contract.TRANSFER_TIMEOUT());
+  }
+
+  /**
+   * Events in blocks `fromBlock` to `toBlock` that start or end a pending
+   * transfer, in chain order: TransferInitiated, TransferAccepted and the
+   * "DISPUTE_RESOLVED" provenance record of resolveDispute, which deletes the
+   * transfer. claimRefund emits DisputeResolved too but leaves the transfer in
+   * place, so DisputeResolved alone cannot tell. Transfers that lapse past
+   * TRANSFER_TIMEOUT emit nothing.
+   */
+  async transferEvents(fromBlock: number, toBlock: number): Promise<PendingTransferEvent[]> {
+    const {filters} = this.contract;
+    const [initiated, accepted, provenance] = await Promise.all([
+      this.contract.queryFilter(filters.TransferInitiated(), fromBlock, toBlock),
+      this.contract.queryFilter(filters.TransferAccepted(), fromBlock, toBlock),
+      this.contract.queryFilter(filters.ProvenanceRecorded(), fromBlock, toBlock)
+    ]);
+    const cleared = [...accepted, ...provenance.filter((event) => event.args.action === "DISPUTE_RESOLVED")];
+    return [
+      ...initiated.map((event) => ({event, to: getAddress(event.args.to)})),
+      ...cleared.map((event) => ({event, to: null}))
+    ]
+      .sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.index - b.event.index)
+      .map(({event, to}) => ({productId: event.args.productId, to, blockNumber: event.blockNumber}));
+  }
+
+  isApprovedRelayer(relayer: string): Promise<boolean> {
+    return this.read(() => this.contract.approvedRelayers(relayer));
+  }
+
+  estimateGas(call: RelayCall): Promise<bigint> {
+    return this.read(() => this.method(call.method).estimateGas(...call.args));
+  }
+
+  /** Runs the call against current state without sending anything. */
+  staticCall(call: RelayCall): Promise<void> {
+    return this.read(() => this.method(call.method).staticCall(...call.args));
+  }
+
+  send(call: RelayCall, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.read(
+      () => this.method(call.method).send(...call.args, overrides) as Promise<ContractTransactionResponse>
+    );
+  }
+
+  /**
+   * Waits for `confirmations` blocks and returns the receipt, reverted or
+   * not; null if the transaction was replaced or dropped.
+   */
+  async wait(tx: ContractTransactionResponse): Promise<TransactionReceipt | null> {
+    try {
+      return await tx.wait(this.confirmations);
+    } catch (err) {
+      const receipt = (err as {receipt?: TransactionReceipt}).receipt;
+      if (receipt) return receipt;
+      throw err;
+    }
+  }
+
+  /**
+   * Decodes why a mined transaction reverted by replaying it against the
+   * state before its block. When that succeeds, an earlier transaction in the
+   * same block caused the revert; the state after the block includes it, and
+   * the reverted transaction left nothing there, so the replay is retried
+   * against that. Still a best-effort diagnosis.
+   */
+  async revertOf(tx: {
+    from: string;
+    to: string | null;
+    data: string;
+    blockNumber: number;
+  }): Promise<SupplyChainError | null> {
+    const provider = this.contract.runner?.provider;
+    if (!provider || !tx.to) return null;
+    for (const blockTag of [tx.blockNumber - 1, tx.blockNumber]) {
+      try {
+        await provider.call({from: tx.from, to: tx.to, data: tx.data, blockTag});
+      } catch (err) {
+        return decodeSupplyChainError(err);
+      }
+    }
+    return null;
+  }
+
+  private method(method: RelayMethod) {
+    return (this.contract as unknown as BaseContract).getFunction(method);
+  }
+
+  private async read<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      throw decodeSupplyChainError(err) ?? err;
+    }
+  }
+}
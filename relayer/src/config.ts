@@ -0,0 +1,566 @@
+import {promises as fs} from "fs";
+import path from "path";
+import {computeAddress, getAddress, isAddress, isHexString, parseEther, parseUnits, type Provider} from "ethers";
+import {parse as parseYaml} from "yaml";
+
+import type {KeystoreConfig, RemoteSignerConfig} from "./blockchain/signers";
+import {RELAY_METHODS, SupplyChainClient, type RelayMethod} from "./blockchain/supplyChain";
+import {ROLES, type GasPolicyConfig, type RoleName} from "./services/gasPolicy";
+import type {PrecheckConfig} from "./services/precheck";
+import type {BucketConfig, RateLimitConfig} from "./services/rateLimit";
+import type {ReadinessConfig} from "./services/readiness";
+import type {QueueConfig} from "./services/relayQueue";
+import type {BatchRange, TenantConfig, TenantWebhook} from "./services/tenants";
+import type {WebhookConfig} from "./services/webhooks";
+
+export interface RelayerConfig {
+  port: number;
+  rpcUrl: string;
+  chainId: bigint;
+  supplyChainAddress: string;
+  /**
+   * Sending keys, from any mix of the three sources below; each must be
+   * approved through SupplyChain.approveRelayer. Raw keys suit local chains;
+   * elsewhere prefer keystores or a remote signer.
+   */
+  relayerPrivateKeys: string[];
+  relayerKeystores: KeystoreConfig[];
+  remoteSigner?: RemoteSignerConfig;
+  /** Keys holding less than this (wei) are paused until topped up. */
+  minRelayerBalance: bigint;
+  confirmations: number;
+  /** Directory holding the relayer's persistent state (nonce queues, counters). */
+  stateDir: string;
+  /** How far past the next expected user nonce an intent may be queued. */
+  maxNonceAhead: number;
+  rateLimits: RateLimitConfig;
+  gasPolicy: GasPolicyConfig;
+  queue: QueueConfig;
+  precheck: PrecheckConfig;
+  readiness: ReadinessConfig;
+  /** Operator name to bearer token for the admin API; empty disables it. */
+  adminTokens: Record<string, string>;
+  /** Organizations sharing the relayer; when any are set, POST /relay requires an API key. */
+  tenants: TenantConfig[];
+  webhooks: WebhookConfig;
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`invalid relayer configuration:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+/** Hardhat and Ganache; only these may be given raw private keys. */
+const LOCAL_CHAIN_IDS = [31337n, 1337n];
+
+/**
+ * Reads settings from the parsed config file (camelCase keys, dotted for
+ * nesting) and their environment variables; the environment wins so a
+ * deployment can override a shared file. Every problem is collected so one
+ * startup attempt reports them all.
+ */
+class Reader {
+  readonly problems: string[] = [];
+
+  constructor(
+    private readonly file: Raw,
+    private readonly env: NodeJS.ProcessEnv
+  ) {}
+
+  raw(field: string, envName?: string): unknown {
+    if (envName && this.env[envName] !== undefined && this.env[envName] !== "") return this.env[envName];
+    let value: unknown = this.file;
+    for (const key of field.split(".")) {
+      value = typeof value === "object" && value !== null ? (value as Raw)[key] : undefined;
+    }
+    return value;
+  }
+
+  fail<T>(field: string, message: string, fallback: T): T {
+    this.problems.push(`${field}: ${message}`);
+    return fallback;
+  }
+
+  private missing<T>(field: string, envName: string | undefined, fallback: T): T {
+    return this.fail(field, `is required${envName ? ` (set ${envName})` : ""}`, fallback);
+  }
+
+  integer(field: string, envName: string | undefined, fallback: number, min = 0): number {
+    const value = this.raw(field, envName);
+    if (value === undefined) return fallback;
+    const parsed = typeof value === "number" ? value : Number(value);
+    if (!Number.isSafeInteger(parsed) || parsed < min) return this.fail(field, `must be an integer >= ${min}`, fallback);
+    return parsed;
+  }
+
+  uint(field: string, envName: string | undefined, fallback?: bigint): bigint {
+    const value = this.raw(field, envName);
+    if (value === undefined) return fallback ?? this.missing(field, envName, 0n);
+    if ((typeof value === "number" && Number.isSafeInteger(value) && value >= 0) || /^[0-9]+$/.test(String(value))) {
+      return BigInt(value as number | string);
+    }
+    return this.fail(field, "must be a non-negative whole number", fallback ?? 0n);
+  }
+
+  string(field: string, envName: string | undefined, fallback?: string): string {
+    const value = this.raw(field, envName);
+    if (value === undefined) return fallback ?? this.missing(field, envName, "");
+    if (typeof value !== "string" || value === "") return this.fail(field, "must be a non-empty string", "");
+    return value;
+  }
+
+  url(field: string, envName: string, fallback: string): string {
+    const value = this.string(field, envName, fallback);
+    try {
+      const {protocol} = new URL(value);
+      if (!["http:", "https:", "ws:", "wss:"].includes(protocol)) throw new Error(protocol);
+    } catch {
+      return this.fail(field, "must be an http(s) or ws(s) URL", value);
+    }
+    return value;
+  }
+
+  address(field: string, envName: string): string {
+    const value = this.string(field, envName);
+    if (!value) return value;
+    if (!isAddress(value)) return this.fail(field, "must be a 0x-prefixed address", value);
+    return getAddress(value);
+  }
+
+  /** Problems name a key by position only; key material never reaches an error message. */
+  privateKeys(field: string, envName: string): string[] {
+    const value = this.raw(field, envName) ?? this.env.RELAYER_PRIVATE_KEY;
+    if (value === undefined) return [];
+    const keys = Array.isArray(value) ? value : String(value).split(",");
+    const parsed: string[] = [];
+    keys.forEach((key, index) => {
+      const trimmed = typeof key === "string" ? key.trim() : "";
+      const prefixed = trimmed.startsWith("0x") ? trimmed : `0x${trimmed}`;
+      if (isHexString(prefixed, 32)) parsed.push(prefixed);
+      else this.fail(`${field}[${index}]`, "must be a 32-byte hex private key", null);
+    });
+    if (keys.length === 0) this.fail(field, "must list at least one key", null);
+    if (new Set(parsed.map((k) => k.toLowerCase())).size !== parsed.length) {
+      this.fail(field, "must not repeat a key", null);
+    }
+    return parsed;
+  }
+
+  /**
+   * Keystore paths, comma-separated in the environment. In the file an entry
+   * may be a path or {path, password}; entries without their own password use
+   * the shared one.
+   */
+  keystores(field: string, envName: string, passwordField: string, passwordEnv: string): KeystoreConfig[] {
+    const value = this.raw(field, envName);
+    if (value === undefined) return [];
+    const entries = Array.isArray(value) ? value : String(value).split(",").filter((entry) => entry.trim());
+    const shared = this.raw(passwordField, passwordEnv);
+    return entries.flatMap((entry: unknown, index): KeystoreConfig[] => {
+      const raw = (typeof entry === "object" && entry !== null ? entry : {path: entry}) as Raw;
+      const password = raw.password ?? shared;
+      if (typeof raw.path !== "string" || !raw.path.trim()) {
+        return this.fail(`${field}[${index}]`, "must be a keystore file path", []);
+      }
+      if (typeof password !== "string") return this.missing(`${field}[${index}].password`, passwordEnv, []);
+      return [{path: raw.path.trim(), password}];
+    });
+  }
+
+  remoteSigner(field: string): RemoteSignerConfig | undefined {
+    const addresses = this.raw(`${field}.addresses`, "REMOTE_SIGNER_ADDRESSES");
+    if (this.raw(`${field}.url`, "REMOTE_SIGNER_URL") === undefined) {
+      return addresses === undefined ? undefined : this.missing(`${field}.url`, "REMOTE_SIGNER_URL", undefined);
+    }
+    const url = this.url(`${field}.url`, "REMOTE_SIGNER_URL", "");
+    const listed = Array.isArray(addresses) ? addresses : String(addresses ?? "").split(",");
+    const valid = listed.map((address) => String(address).trim()).filter((address) => {
+      if (isAddress(address)) return true;
+      return address ? this.fail(`${field}.addresses`, `${address} is not an address`, false) : false;
+    });
+    if (valid.length === 0) this.missing(`${field}.addresses`, "REMOTE_SIGNER_ADDRESSES", null);
+    const token = this.raw(`${field}.token`, "REMOTE_SIGNER_TOKEN");
+    if (token !== undefined && typeof token !== "string") this.fail(`${field}.token`, "must be a string", null);
+    return {url, addresses: valid.map((address) => getAddress(address)), ...(typeof token === "string" && {token})};
+  }
+
+  /** A signing secret; like tokens, it is never quoted in a problem. */
+  secret(field: string, envName: string | undefined): string | undefined {
+    const value = this.raw(field, envName);
+    if (value === undefined) return undefined;
+    if (typeof value !== "string" || value.length < 32) {
+      return this.fail(field, "must be at least 32 characters", undefined);
+    }
+    return value;
+  }
+
+  /** The env var sets a plain per-minute rate; the file may tune burst and refill separately. */
+  bucket(field: string, envName: string, fallback: BucketConfig): BucketConfig {
+    if (this.env[envName]) {
+      const rate = this.integer(field, envName, fallback.refillPerMinute, 1);
+      return {capacity: rate, refillPerMinute: rate};
+    }
+    return {
+      capacity: this.integer(`${field}.capacity`, undefined, fallback.capacity, 1),
+      refillPerMinute: this.integer(`${field}.refillPerMinute`, undefined, fallback.refillPerMinute, 1)
+    };
+  }
+
+  methods(field: string, envName: string): RelayMethod[] {
+    const value = this.raw(field, envName);
+    if (value === undefined) return [...RELAY_METHODS];
+    const methods = (Array.isArray(value) ? value : String(value).split(",")).map((m) => String(m).trim());
+    return methods.filter((method): method is RelayMethod => {
+      if ((RELAY_METHODS as readonly string[]).includes(method)) return true;
+      return this.fail(field, `unknown method ${method}; expected one of ${RELAY_METHODS.join(", ")}`, false);
+    });
+  }
+
+  /** Host names, comma-separated in the environment, compared lower-case. */
+  hosts(field: string, envName: string): string[] {
+    const value = this.raw(field, envName);
+    if (value === undefined) return [];
+    const hosts = (Array.isArray(value) ? value : String(value).split(",")).map((h) => String(h).trim().toLowerCase());
+    return hosts.filter((host) => {
+      if (/^[a-z0-9.\-]+$|^\[[0-9a-f:.]+\]$/.test(host)) return true;
+      return this.fail(field, `${host || "(empty)"} is not a host name; give hosts without scheme, port or path`, false);
+    });
+  }
+
+  ether(field: string, envName: string, fallback: string): bigint {
+    const value = this.raw(field, envName) ?? fallback;
+    try {
+      return parseEther(String(value));
+    } catch {
+      return this.fail(field, "must be an amount in ether", 0n);
+    }
+  }
+
+  gwei(field: string, envName: string, fallback: string): bigint {
+    const value = this.raw(field, envName) ?? fallback;
+    try {
+      return parseUnits(String(value), "gwei");
+    } catch {
+      return this.fail(field, "must be a gas price in gwei", 0n);
+    }
+  }
+
+  /**
+   * ADMIN_TOKENS looks like "alice=<token>,bob=<token>"; the file uses an
+   * object. As with private keys, problems never quote a token.
+   */
+  adminTokens(field: string, envName: string): Record<string, string> {
+    const value = this.raw(field, envName);
+    if (value === undefined) return {};
+    const entries =
+      typeof value === "string"
+        ? value
+            .split(",")
+            .filter((entry) => entry.trim())
+            .map((entry) => {
+              const at = entry.indexOf("=");
+              return at < 0 ? [entry.trim(), ""] : [entry.slice(0, at).trim(), entry.slice(at + 1).trim()];
+            })
+        : Object.entries(value as Raw);
+
+    const tokens: Record<string, string> = {};
+    for (const [name, token] of entries) {
+      if (!/^[A-Za-z0-9_.-]+$/.test(String(name))) {
+        this.fail(field, "operator names may only use letters, digits, '.', '_' and '-'", null);
+      } else if (typeof token !== "string" || token.length < 32) {
+        this.fail(`${field}.${name}`, "token must be at least 32 characters", null);
+      } else {
+        tokens[String(name)] = token;
+      }
+    }
+    if (new Set(Object.values(tokens)).size !== Object.keys(tokens).length) {
+      this.fail(field, "operators must not share a token", null);
+    }
+    return tokens;
+  }
+
+  /**
+   * Tenants come from the file as a list, or from TENANTS as the same list in
+   * JSON. Batches are ids or inclusive "from-to" ranges and may not overlap
+   * between tenants, so every batch has one payer.
+   */
+  tenants(field: string, envName: string): TenantConfig[] {
+    let value = this.raw(field, envName);
+    if (value === undefined) return [];
+    if (typeof value === "string") {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return this.fail(field, "must be a JSON list of tenants", []);
+      }
+    }
+    if (!Array.isArray(value)) return this.fail(field, "must be a list of tenants", []);
+
+    const tenants: TenantConfig[] = [];
+    value.forEach((entry: unknown, index) => {
+      const at = `${field}[${index}]`;
+      const raw = (typeof entry === "object" && entry !== null ? entry : {}) as Raw;
+      const id = typeof raw.id === "string" && /^[A-Za-z0-9_.-]+$/.test(raw.id) ? raw.id : "";
+      if (!id) this.fail(`${at}.id`, "must use only letters, digits, '.', '_' and '-'", null);
+      if (typeof raw.apiKey !== "string" || raw.apiKey.length < 32) {
+        this.fail(`${at}.apiKey`, "must be at least 32 characters", null);
+      }
+      const signers = (Array.isArray(raw.signers) ? raw.signers : []).filter((signer: unknown) => {
+        if (typeof signer === "string" && isAddress(signer)) return true;
+        return this.fail(`${at}.signers`, `${String(signer)} is not an address`, false);
+      });
+      const batches = (Array.isArray(raw.batches) ? raw.batches : []).flatMap((batch: unknown): BatchRange[] => {
+        const match = /^\s*([0-9]+)\s*(?:-\s*([0-9]+)\s*)?$/.exec(String(batch));
+        if (!match || BigInt(match[2] ?? match[1]) < BigInt(match[1])) {
+          return this.fail(`${at}.batches`, `${String(batch)} is not a batch id or "from-to" range`, []);
+        }
+        return [{from: BigInt(match[1]), to: BigInt(match[2] ?? match[1])}];
+      });
+      if (batches.length === 0) this.fail(`${at}.batches`, "must list at least one batch", null);
+      const quota = raw.monthlyGasQuota;
+      const validQuota =
+        (typeof quota === "number" && Number.isSafeInteger(quota) && quota >= 0) ||
+        (typeof quota === "string" && /^[0-9]+$/.test(quota));
+      if (!validQuota) this.fail(`${at}.monthlyGasQuota`, "must be a non-negative whole number", null);
+      const webhook = raw.webhook === undefined ? undefined : this.tenantWebhook(`${at}.webhook`, raw.webhook);
+      tenants.push({
+        id,
+        apiKey: typeof raw.apiKey === "string" ? raw.apiKey : "",
+        signers: (signers as string[]).map((signer) => getAddress(signer)),
+        batches,
+        monthlyGasQuota: validQuota ? BigInt(quota as number | string) : 0n,
+        ...(webhook && {webhook})
+      });
+    });
+
+    if (new Set(tenants.map((t) => t.id)).size !== tenants.length) this.fail(field, "tenant ids must be unique", null);
+    if (new Set(tenants.map((t) => t.apiKey)).size !== tenants.length) {
+      this.fail(field, "tenants must not share an API key", null);
+    }
+    const ranges = tenants.flatMap((tenant) => tenant.batches.map((range) => ({...range, id: tenant.id})));
+    ranges.forEach((a, i) =>
+      ranges.slice(i + 1).forEach((b) => {
+        if (a.from <= b.to && b.from <= a.to && a.id !== b.id) {
+          this.fail(field, `batches of ${a.id} and ${b.id} overlap`, null);
+        }
+      })
+    );
+    return tenants;
+  }
+
+  /** A tenant's `{url, secret}`; the url may be left out to sign per-job webhooks only. */
+  private tenantWebhook(field: string, value: unknown): TenantWebhook | undefined {
+    const raw = (typeof value === "object" && value !== null ? value : {}) as Raw;
+    const {url, secret} = raw;
+    let valid = true;
+    if (url !== undefined && !(typeof url === "string" && /^https?:\/\/\S+$/.test(url))) {
+      valid = this.fail(`${field}.url`, "must be an http(s) URL", false);
+    }
+    if (typeof secret !== "string" || secret.length < 32) {
+      valid = this.fail(`${field}.secret`, "must be at least 32 characters", false);
+    }
+    if (!valid) return undefined;
+    return {...(url !== undefined && {url: url as string}), secret: secret as string};
+  }
+
+  /** ROLE_DAILY_GAS looks like "MANUFACTURER=50000000,DISTRIBUTOR=20000000"; the file uses an object. */
+  roleBudgets(field: string, envName: string): Partial<Record<RoleName, bigint>> {
+    const value = this.raw(field, envName);
+    if (value === undefined) return {};
+    const entries =
+      typeof value === "string"
+        ? value
+            .split(",")
+            .filter((entry) => entry.trim())
+            .map((entry) => entry.split("=").map((part) => part.trim()))
+        : Object.entries(value as Raw);
+
+    const budgets: Partial<Record<RoleName, bigint>> = {};
+    for (const [role, amount] of entries) {
+      if (!(ROLES as readonly string[]).includes(String(role))) {
+        this.fail(field, `unknown role ${role}; expected one of ${ROLES.join(", ")}`, null);
+      } else if (!/^[0-9]+$/.test(String(amount))) {
+        this.fail(`${field}.${role}`, "must be a whole number of gas units", null);
+      } else {
+        budgets[role as RoleName] = BigInt(String(amount));
+      }
+    }
+    return budgets;
+  }
+}
+
+export async function readConfigFile(filePath: string): Promise<Raw> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, "utf8");
+  } catch (err) {
+    throw new ConfigError([`CONFIG_FILE: cannot read ${filePath} (${(err as NodeJS.ErrnoException).code})`]);
+  }
+  const yaml = [".yaml", ".yml"].includes(path.extname(filePath).toLowerCase());
+  let parsed: unknown;
+  try {
+    parsed = yaml ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new ConfigError([`CONFIG_FILE: ${filePath} is not valid ${yaml ? "YAML" : "JSON"}: ${(err as Error).message}`]);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError([`CONFIG_FILE: ${filePath} must contain an object`]);
+  }
+  return parsed as Raw;
+}
+
+/** Validates settings from a parsed config file overlaid with the environment. */
+export function parseConfig(file: Raw, env: NodeJS.ProcessEnv = process.env): RelayerConfig {
+  const r = new Reader(file, env);
+  const config: RelayerConfig = {
+    port: r.integer("port", "PORT", 8080),
+    rpcUrl: r.url("rpcUrl", "RPC_URL", "http://127.0.0.1:8545"),
+    chainId: r.uint("chainId", "CHAIN_ID"),
+    supplyChainAddress: r.address("supplyChainAddress", "SUPPLY_CHAIN_ADDRESS"),
+    relayerPrivateKeys: r.privateKeys("relayerPrivateKeys", "RELAYER_PRIVATE_KEYS"),
+    relayerKeystores: r.keystores(
+      "relayerKeystores",
+      "RELAYER_KEYSTORES",
+      "relayerKeystorePassword",
+      "RELAYER_KEYSTORE_PASSWORD"
+    ),
+    remoteSigner: r.remoteSigner("remoteSigner"),
+    minRelayerBalance: r.ether("minRelayerBalanceEth", "MIN_RELAYER_BALANCE_ETH", "0.05"),
+    confirmations: r.integer("confirmations", "CONFIRMATIONS", 1, 1),
+    stateDir: r.string("stateDir", "STATE_DIR", "./data"),
+    maxNonceAhead: r.integer("maxNonceAhead", "MAX_NONCE_AHEAD", 8),
+    rateLimits: {
+      signer: r.bucket("rateLimits.signer", "RATE_LIMIT_SIGNER_PER_MINUTE", {capacity: 10, refillPerMinute: 10}),
+      ip: r.bucket("rateLimits.ip", "RATE_LIMIT_IP_PER_MINUTE", {capacity: 60, refillPerMinute: 60}),
+      product: r.bucket("rateLimits.product", "RATE_LIMIT_PRODUCT_PER_MINUTE", {capacity: 5, refillPerMinute: 5}),
+      ban: {
+        maxInvalidSignatures: r.integer("rateLimits.ban.maxInvalidSignatures", "BAN_AFTER_INVALID_SIGNATURES", 5, 1),
+        windowSeconds: r.integer("rateLimits.ban.windowSeconds", "BAN_WINDOW_SECONDS", 600, 1),
+        banSeconds: r.integer("rateLimits.ban.banSeconds", "BAN_SECONDS", 900, 1)
+      }
+    },
+    gasPolicy: {
+      allowedMethods: r.methods("gasPolicy.allowedMethods", "SPONSORED_METHODS"),
+      maxGasPrice: r.gwei("gasPolicy.maxGasPriceGwei", "MAX_GAS_PRICE_GWEI", "100"),
+      maxGasPerTx: r.uint("gasPolicy.maxGasPerTx", "MAX_GAS_PER_TX", 300_000n),
+      userDailyGas: r.uint("gasPolicy.userDailyGas", "USER_DAILY_GAS", 2_000_000n),
+      roleDailyGas: r.roleBudgets("gasPolicy.roleDailyGas", "ROLE_DAILY_GAS")
+    },
+    queue: {
+      pollIntervalMs: r.integer("queue.pollIntervalMs", "QUEUE_POLL_INTERVAL_MS", 2_000, 10),
+      resubmitAfterMs: r.integer("queue.resubmitAfterMs", "RESUBMIT_AFTER_MS", 30_000, 1_000),
+      feeBumpPercent: r.integer("queue.feeBumpPercent", "FEE_BUMP_PERCENT", 15, 10)
+    },
+    precheck: {
+      cacheTtlMs: r.integer("precheck.cacheTtlMs", "PRECHECK_CACHE_TTL_MS", 10_000),
+      fromBlock: r.integer("precheck.fromBlock", "SUPPLY_CHAIN_DEPLOY_BLOCK", 0),
+      blockRange: r.integer("precheck.blockRange", "PRECHECK_BLOCK_RANGE", 2_000, 1)
+    },
+    readiness: {
+      stalledJobMs: r.integer("readiness.stalledJobMs", "STALLED_JOB_MS", 300_000, 1_000)
+    },
+    adminTokens: r.adminTokens("adminTokens", "ADMIN_TOKENS"),
+    tenants: r.tenants("tenants", "TENANTS"),
+    webhooks: {
+      secret: r.secret("webhooks.secret", "WEBHOOK_SECRET"),
+      maxAttempts: r.integer("webhooks.maxAttempts", "WEBHOOK_MAX_ATTEMPTS", 8, 1),
+      initialBackoffMs: r.integer("webhooks.initialBackoffMs", "WEBHOOK_BACKOFF_MS", 1_000, 10),
+      timeoutMs: r.integer("webhooks.timeoutMs", "WEBHOOK_TIMEOUT_MS", 5_000, 100),
+      allowedHosts: r.hosts("webhooks.allowedHosts", "WEBHOOK_ALLOWED_HOSTS")
+    }
+  };
+  // A pending transaction is replaced every resubmitAfterMs; only a job outliving that is stuck.
+  if (config.readiness.stalledJobMs <= config.queue.resubmitAfterMs) {
+    r.fail("readiness.stalledJobMs", "must be longer than queue.resubmitAfterMs", null);
+  }
+  if (!config.relayerPrivateKeys.length && !config.relayerKeystores.length && !config.remoteSigner) {
+    const sources = "RELAYER_PRIVATE_KEYS, RELAYER_KEYSTORES or REMOTE_SIGNER_URL";
+    r.fail("relayerPrivateKeys", `is required (set ${sources})`, null);
+  }
+  // A missing chainId is already reported; anything else must keep its keys out of plain text.
+  if (config.relayerPrivateKeys.length && config.chainId !== 0n && !LOCAL_CHAIN_IDS.includes(config.chainId)) {
+    const local = LOCAL_CHAIN_IDS.join(" or ");
+    const instead = "use RELAYER_KEYSTORES or REMOTE_SIGNER_URL";
+    r.fail("relayerPrivateKeys", `only allowed on local chains (${local}); ${instead}`, null);
+  }
+  if (r.problems.length > 0) throw new ConfigError(r.problems);
+  return config;
+}
+
+/** Reads CONFIG_FILE (JSON, or YAML by extension) if set, then applies the environment on top. */
+export async function loadConfig(env: NodeJS.ProcessEnv = process.env): Promise<RelayerConfig> {
+  const file = env.CONFIG_FILE ? await readConfigFile(env.CONFIG_FILE) : {};
+  return parseConfig(file, env);
+}
+
+export function relayerAddresses(config: Pick<RelayerConfig, "relayerPrivateKeys">): string[] {
+  return config.relayerPrivateKeys.map((key) => computeAddress(key));
+}
+
+/**
+ * Copy of the config that is safe to log: private keys become the addresses
+ * they control; keystore passwords, the remote signer token, admin tokens,
+ * tenant API keys and webhook secrets are hidden, and so are the path,
+ * query and credentials of the RPC URL, where hosted providers put API keys.
+ */
+export function redactConfig(config: RelayerConfig): Record<string, unknown> {
+  return {
+    ...config,
+    rpcUrl: redactUrl(config.rpcUrl),
+    relayerPrivateKeys: relayerAddresses(config).map((address) => `[redacted key for ${address}]`),
+    relayerKeystores: config.relayerKeystores.map(({path}) => ({path, password: "[redacted]"})),
+    remoteSigner: config.remoteSigner && {
+      ...config.remoteSigner,
+      ...(config.remoteSigner.token !== undefined && {token: "[redacted]"})
+    },
+    adminTokens: Object.fromEntries(Object.keys(config.adminTokens).map((name) => [name, "[redacted]"])),
+    tenants: config.tenants.map((tenant) => ({
+      ...tenant,
+      apiKey: "[redacted]",
+      ...(tenant.webhook && {webhook: {...tenant.webhook, secret: "[redacted]"}})
+    })),
+    webhooks: {...config.webhooks, ...(config.webhooks.secret !== undefined && {secret: "[redacted]"})}
+  };
+}
+
+/** Scheme, host and port only, e.g. https://mainnet.infura.io/[redacted] for https://mainnet.infura.io/v3/<key>. */
+function redactUrl(value: string): string {
+  const url = new URL(value);
+  const hidden = url.username !== "" || url.password !== "" || url.pathname !== "/" || url.search !== "";
+  return `${url.protocol}//${url.host}${hidden ? "/[redacted]" : ""}`;
+}
+
+/**
+ * Startup checks that need the chain: the RPC serves the configured chain,
+ * SupplyChain is deployed at the configured address, and every relayer
+ * account is whitelisted. Failing here beats paying for NoRelayerApproval
+ * reverts. Keystore and remote accounts are only known once loaded, so
+ * callers pass the addresses of every loaded signer.
+ */
+export async function verifyConfigOnChain(
+  config: RelayerConfig,
+  provider: Provider,
+  addresses: string[] = relayerAddresses(config)
+): Promise<void> {
+  const problems: string[] = [];
+
+  const {chainId} = await provider.getNetwork();
+  if (chainId !== config.chainId) {
+    problems.push(`chainId: RPC serves chain ${chainId}, expected ${config.chainId}`);
+  }
+  if ((await provider.getCode(config.supplyChainAddress)) === "0x") {
+    throw new ConfigError([...problems, `supplyChainAddress: no contract deployed at ${config.supplyChainAddress}`]);
+  }
+
+  const supplyChain = SupplyChainClient.connect(config.supplyChainAddress, provider);
+  for (const address of addresses) {
+    if (!(await supplyChain.isApprovedRelayer(address))) {
+      problems.push(`relayer keys: ${address} is not in SupplyChain.approvedRelayers`);
+    }
+  }
+  if (problems.length > 0) throw new ConfigError(problems);
+}
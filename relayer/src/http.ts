@@ -0,0 +1,48 @@
+import type {ErrorRequestHandler, NextFunction, Request, RequestHandler, Response} from "express";
+
+/**
+ * Error carrying the HTTP status the relayer answers with. Anything else that
+ * escapes a handler is reported as a 500 without leaking its message.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details: Record<string, unknown> = {},
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/** Request body rejected before any chain interaction. */
+export class ValidationError extends HttpError {
+  constructor(readonly field: string, readonly reason: string) {
+    super(400, `invalid ${field}: ${reason}`, {field, reason});
+    this.name = "ValidationError";
+  }
+}
+
+/** Express 4 does not forward rejected promises, so async handlers go through this. */
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    res.status(err.status).set(err.headers).json({error: err.message, ...err.details});
+    return;
+  }
+  // Malformed JSON bodies surface from express.json() as a SyntaxError with a status.
+  if (err instanceof SyntaxError && (err as {status?: number}).status === 400) {
+    res.status(400).json({error: "malformed JSON body"});
+    return;
+  }
+  console.error("relayer: unhandled error", err);
+  res.status(500).json({error: "internal error"});
+};
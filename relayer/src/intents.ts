@@ -0,0 +1,159 @@
+import {getAddress, isAddress, isHexString} from "ethers";
+
+import {RELAY_METHODS, type RelayCall, type RelayMethod} from "./blockchain/supplyChain";
+import {ValidationError} from "./http";
+import {acceptTransferIntentSchema, metaTxIntentSchema, validate} from "./schemas";
+
+/**
+ * A signed InitiateTransfer intent, relayed through SupplyChain.executeMetaTx
+ * or initiateTransferWithSig. `user` is the product owner who produced
+ * `signature` over the EIP-712 struct.
+ */
+export interface MetaTxIntent {
+  user: string;
+  productId: bigint;
+  to: string;
+  locationHash: string;
+  nonce: bigint;
+  deadline: bigint;
+  signature: string;
+  /** Chain the client signed for; when present it must match the relayer's chain. */
+  chainId?: bigint;
+}
+
+/** A signed AcceptTransfer intent; `user` is the pending receiver. */
+export interface AcceptTransferIntent {
+  user: string;
+  productId: bigint;
+  nonce: bigint;
+  deadline: bigint;
+  signature: string;
+  chainId?: bigint;
+}
+
+/**
+ * Any intent the relayer submits, tagged with the SupplyChain method that
+ * carries it. All three consume the signer's SupplyChain.nonces sequence.
+ */
+export type RelayIntent =
+  | ({method: "executeMetaTx"} & MetaTxIntent)
+  | ({method: "initiateTransferWithSig"} & MetaTxIntent)
+  | ({method: "acceptTransferWithSig"} & AcceptTransferIntent);
+
+/** JSON-safe form of an intent, as accepted back by the parse functions. */
+export type SerializedIntent = Record<string, string>;
+
+export function serializeIntent(intent: MetaTxIntent | AcceptTransferIntent | RelayIntent): SerializedIntent {
+  const serialized: SerializedIntent = {};
+  for (const [key, value] of Object.entries(intent)) {
+    if (value !== undefined) serialized[key] = typeof value === "bigint" ? value.toString() : value;
+  }
+  return serialized;
+}
+
+export function asObject(body: unknown): Record<string, unknown> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ValidationError("body", "expected a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+export function parseAddress(value: unknown, field: string): string {
+  if (typeof value !== "string" || !isAddress(value)) {
+    throw new ValidationError(field, "expected a 0x-prefixed address");
+  }
+  return getAddress(value);
+}
+
+/** uint256 values travel as decimal strings; small values may also be JSON numbers. */
+export function parseUint(value: unknown, field: string): bigint {
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  if (typeof value === "string" && /^[0-9]{1,78}$/.test(value)) {
+    const parsed = BigInt(value);
+    if (parsed < 2n ** 256n) return parsed;
+  }
+  throw new ValidationError(field, "expected a uint256 as a decimal string");
+}
+
+export function parseBytes32(value: unknown, field: string): string {
+  if (typeof value !== "string" || !isHexString(value, 32)) {
+    throw new ValidationError(field, "expected 32 bytes of 0x-prefixed hex");
+  }
+  return value.toLowerCase();
+}
+
+export function parseSignature(value: unknown, field = "signature"): string {
+  if (typeof value !== "string" || !isHexString(value, 65)) {
+    throw new ValidationError(field, "expected a 65-byte 0x-prefixed signature");
+  }
+  return value.toLowerCase();
+}
+
+export function parseMetaTxIntent(body: unknown): MetaTxIntent {
+  const raw = asObject(body);
+  return {
+    user: parseAddress(raw.user, "user"),
+    productId: parseUint(raw.productId, "productId"),
+    to: parseAddress(raw.to, "to"),
+    locationHash: parseBytes32(raw.locationHash, "locationHash"),
+    nonce: parseUint(raw.nonce, "nonce"),
+    deadline: parseUint(raw.deadline, "deadline"),
+    signature: parseSignature(raw.signature),
+    chainId: raw.chainId === undefined ? undefined : parseUint(raw.chainId, "chainId")
+  };
+}
+
+export function parseAcceptTransferIntent(body: unknown): AcceptTransferIntent {
+  const raw = asObject(body);
+  return {
+    user: parseAddress(raw.user, "user"),
+    productId: parseUint(raw.productId, "productId"),
+    nonce: parseUint(raw.nonce, "nonce"),
+    deadline: parseUint(raw.deadline, "deadline"),
+    signature: parseSignature(raw.signature),
+    chainId: raw.chainId === undefined ? undefined : parseUint(raw.chainId, "chainId")
+  };
+}
+
+/**
+ * Parses a relay request; `method` defaults to executeMetaTx. The body is
+ * checked against the method's published schema first, so unknown or missing
+ * fields are rejected before any signature work.
+ */
+export function parseRelayIntent(body: unknown): RelayIntent {
+  const raw = asObject(body);
+  const method = raw.method ?? "executeMetaTx";
+  if (!RELAY_METHODS.includes(method as RelayMethod)) {
+    throw new ValidationError("method", `expected one of ${RELAY_METHODS.join(", ")}`);
+  }
+  validate(method === "acceptTransferWithSig" ? acceptTransferIntentSchema : metaTxIntentSchema, raw);
+  switch (method as RelayMethod) {
+    case "executeMetaTx":
+      return {method: "executeMetaTx", ...parseMetaTxIntent(raw)};
+    case "initiateTransferWithSig":
+      return {method: "initiateTransferWithSig", ...parseMetaTxIntent(raw)};
+    case "acceptTransferWithSig":
+      return {method: "acceptTransferWithSig", ...parseAcceptTransferIntent(raw)};
+  }
+}
+
+/** The contract call that carries `intent`. */
+export function relayCall(intent: RelayIntent): RelayCall {
+  switch (intent.method) {
+    case "executeMetaTx": {
+      const {user, productId, to, locationHash, nonce, deadline, signature} = intent;
+      return {method: intent.method, args: [user, productId, to, locationHash, nonce, deadline, signature]};
+    }
+    case "initiateTransferWithSig": {
+      // The contract recovers the owner from the signature; `user` only drives the off-chain checks.
+      const {productId, to, locationHash, nonce, deadline, signature} = intent;
+      return {method: intent.method, args: [productId, to, locationHash, nonce, deadline, signature]};
+    }
+    case "acceptTransferWithSig": {
+      const {productId, nonce, deadline, signature} = intent;
+      return {method: intent.method, args: [productId, nonce, deadline, signature]};
+    }
+  }
+}
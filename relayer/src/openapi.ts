@@ -0,0 +1,375 @@
+import {
+  acceptTransferIntentSchema,
+  addressSchema,
+  bytes32Schema,
+  metaTxIntentSchema,
+  signatureSchema,
+  uint256Schema,
+  type Schema
+} from "./schemas";
+
+type Json = Record<string, unknown>;
+
+/** Shared leaf schemas, published once under components and referenced from everywhere else. */
+const PRIMITIVES: ReadonlyArray<[string, Schema]> = [
+  ["Uint256", uint256Schema],
+  ["Address", addressSchema],
+  ["Bytes32", bytes32Schema],
+  ["Signature", signatureSchema]
+];
+
+const ref = (name: string) => ({$ref: `#/components/schemas/${name}`});
+
+/** `schema` as a JSON object, with the shared primitives replaced by references. */
+function component(schema: Schema): Json {
+  const primitive = PRIMITIVES.find(([, candidate]) => candidate === schema);
+  if (primitive) return ref(primitive[0]);
+  const out: Json = {...schema};
+  if (schema.anyOf) out.anyOf = schema.anyOf.map(component);
+  if (schema.items) out.items = component(schema.items);
+  if (schema.properties) {
+    const properties = Object.entries(schema.properties).map(([name, item]) => [name, component(item)]);
+    out.properties = Object.fromEntries(properties);
+  }
+  return out;
+}
+
+const string = {type: "string"};
+const dateTime = {type: "string", format: "date-time"};
+const decimal = {type: "string", pattern: "^[0-9]+$", description: "a uint256 as a decimal string"};
+
+const jobSchema = {
+  type: "object",
+  required: ["jobId", "intentHash", "status", "method", "user", "nonce", "attempts", "createdAt", "updatedAt"],
+  properties: {
+    jobId: string,
+    intentHash: ref("Bytes32"),
+    status: {type: "string", enum: ["queued", "submitted", "mined", "failed", "expired"]},
+    method: {type: "string", enum: ["executeMetaTx", "initiateTransferWithSig", "acceptTransferWithSig"]},
+    tenant: string,
+    user: ref("Address"),
+    nonce: decimal,
+    expectedNonce: {...decimal, description: "the signer's on-chain nonce while the job waits for earlier ones"},
+    txHash: ref("Bytes32"),
+    blockNumber: {type: "integer"},
+    attempts: {type: "integer", minimum: 0},
+    error: string,
+    createdAt: dateTime,
+    updatedAt: dateTime
+  }
+};
+
+const simulationSchema = {
+  type: "object",
+  required: ["success", "method"],
+  properties: {
+    success: {type: "boolean"},
+    method: string,
+    gasEstimate: {...decimal, description: "present when the call would succeed"},
+    error: {type: "string", description: "the SupplyChain custom error the call would revert with"},
+    args: {type: "array", items: {}}
+  }
+};
+
+const webhookPayloadSchema = {
+  type: "object",
+  required: ["id", "event", "createdAt", "job"],
+  description: "Signed with X-Relayer-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of \"<t>.<body>\">",
+  properties: {
+    id: {type: "string", description: "the delivery id, also sent as X-Relayer-Delivery; the same on every retry"},
+    event: {type: "string", enum: ["job.mined", "job.reverted", "job.failed", "job.expired"]},
+    createdAt: dateTime,
+    job: {
+      type: "object",
+      properties: {
+        jobId: string,
+        intentHash: ref("Bytes32"),
+        status: jobSchema.properties.status,
+        method: jobSchema.properties.method,
+        tenant: string,
+        user: ref("Address"),
+        productId: decimal,
+        nonce: decimal,
+        txHash: ref("Bytes32"),
+        blockNumber: {type: "integer"},
+        error: {type: "string", description: "for job.reverted, the SupplyChain custom error"},
+        updatedAt: dateTime
+      }
+    }
+  }
+};
+
+const errorSchema = {type: "object", required: ["error"], properties: {error: string}};
+
+const validationErrorSchema = {
+  type: "object",
+  required: ["error", "field", "reason"],
+  properties: {
+    error: {type: "string", example: "invalid nonce: expected a uint256 as a decimal string"},
+    field: {type: "string", description: "the offending field; nested fields are joined with dots", example: "nonce"},
+    reason: {type: "string", example: "expected a uint256 as a decimal string"}
+  }
+};
+
+const checkSchema = {type: "object", required: ["ok"], properties: {ok: {type: "boolean"}, error: string}};
+
+const readinessSchema = {
+  type: "object",
+  required: ["status", "checks"],
+  properties: {
+    status: {type: "string", enum: ["ready", "not ready"]},
+    checks: {
+      type: "object",
+      properties: {rpc: ref("Check"), supplyChain: ref("Check"), relayers: ref("Check"), queue: ref("Check")}
+    }
+  }
+};
+
+const adminStatusSchema = {
+  type: "object",
+  properties: {
+    paused: {type: "boolean"},
+    signerBans: {type: "object", additionalProperties: {type: "object"}},
+    gasPolicy: {type: "object"},
+    queue: {type: "object", additionalProperties: {type: "integer"}}
+  }
+};
+
+const banSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    durationSeconds: {type: "integer", minimum: 1, description: "omit for a ban until lifted"},
+    reason: {type: "string", maxLength: 200}
+  }
+};
+
+const gasPolicyChangesSchema = {
+  type: "object",
+  minProperties: 1,
+  properties: {
+    maxGasPriceGwei: {anyOf: [string, {type: "number"}]},
+    maxGasPerTx: ref("Uint256"),
+    userDailyGas: ref("Uint256"),
+    roleDailyGas: {type: "object", additionalProperties: ref("Uint256")}
+  }
+};
+
+const usageSchema = {
+  type: "object",
+  properties: {
+    tenant: string,
+    month: {type: "string", pattern: "^[0-9]{4}-[0-9]{2}$"},
+    monthlyGasQuota: decimal,
+    gasUsed: decimal,
+    weiSpent: decimal,
+    transactions: {type: "integer"},
+    gasRemaining: decimal
+  }
+};
+
+function json(schema: Json, description: string): Json {
+  return {description, content: {"application/json": {schema}}};
+}
+
+const badRequest = json(ref("ValidationError"), "The body or a parameter does not conform; nothing was checked");
+const rateLimited = json(ref("Error"), "Rate limited or banned; see Retry-After");
+const unauthorized = json(ref("Error"), "Missing or unknown admin token");
+const adminStatus = json(ref("AdminStatus"), "The resulting admin state");
+const addressParam = (name: string) => ({name, in: "path", required: true, schema: ref("Address")});
+const relayBody = {required: true, content: {"application/json": {schema: ref("RelayRequest")}}};
+
+/** Marks every operation under /admin as needing the bearer token. */
+function admin(operations: Record<string, Json>): Record<string, Json> {
+  return Object.fromEntries(
+    Object.entries(operations).map(([method, operation]) => [
+      method,
+      {
+        tags: ["admin"],
+        security: [{adminToken: []}],
+        ...operation,
+        responses: {...(operation.responses as Json), 401: unauthorized}
+      }
+    ])
+  );
+}
+
+/**
+ * The OpenAPI 3 description of every route the relayer serves, served at
+ * /openapi.json. Request bodies reference the same schemas src/schemas.ts
+ * validates them with, so the document cannot drift from what is enforced.
+ */
+export function openApiDocument(version = "0.1.0"): Json {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "SupplyChain relayer",
+      version,
+      description: "Relays signed SupplyChain intents so that neither sender nor receiver needs gas."
+    },
+    components: {
+      schemas: {
+        ...Object.fromEntries(PRIMITIVES.map(([name, schema]) => [name, component({...schema})])),
+        MetaTxIntent: component(metaTxIntentSchema),
+        AcceptTransferIntent: component(acceptTransferIntentSchema),
+        RelayRequest: {
+          oneOf: [ref("MetaTxIntent"), ref("AcceptTransferIntent")],
+          description: "A signed intent; `method` picks the SupplyChain function that carries it."
+        },
+        Job: jobSchema,
+        SimulationResult: simulationSchema,
+        WebhookPayload: webhookPayloadSchema,
+        Error: errorSchema,
+        ValidationError: validationErrorSchema,
+        Check: checkSchema,
+        Readiness: readinessSchema,
+        AdminStatus: adminStatusSchema,
+        SignerBan: banSchema,
+        GasPolicyChanges: gasPolicyChangesSchema,
+        TenantUsage: usageSchema
+      },
+      securitySchemes: {
+        adminToken: {type: "http", scheme: "bearer", description: "One of ADMIN_TOKENS"},
+        apiKey: {type: "apiKey", in: "header", name: "X-API-Key", description: "A tenant's key, when tenants are set"}
+      }
+    },
+    paths: {
+      "/relay": {
+        post: {
+          tags: ["relay"],
+          summary: "Queue a signed intent for relaying",
+          security: [{}, {apiKey: []}],
+          requestBody: relayBody,
+          callbacks: {
+            outcome: {
+              "{$request.body#/webhookUrl}": {
+                post: {
+                  summary: "The job finished; also posted to the submitting tenant's webhook",
+                  requestBody: {required: true, content: {"application/json": {schema: ref("WebhookPayload")}}},
+                  responses: {"2XX": {description: "Received; anything else is retried with backoff"}}
+                }
+              }
+            }
+          },
+          responses: {
+            200: json(ref("Job"), "The intent was sent before; its existing job"),
+            202: json(ref("Job"), "Queued as a new job"),
+            400: badRequest,
+            401: json(ref("Error"), "Tenants are configured and the API key is missing or unknown"),
+            403: json(ref("Error"), "Not sponsored: policy, tenant or quota"),
+            409: json(ref("Error"), "The nonce was already used or is too far ahead"),
+            422: json(ref("Error"), "The call would revert; `reason` names the failed check"),
+            429: rateLimited,
+            503: json(ref("Error"), "Sponsorship is paused or no relayer key is usable")
+          }
+        }
+      },
+      "/relay/simulate": {
+        post: {
+          tags: ["relay"],
+          summary: "Dry-run a signed intent against the latest block",
+          requestBody: relayBody,
+          responses: {
+            200: json(ref("SimulationResult"), "Whether the call would succeed"),
+            400: badRequest,
+            429: rateLimited,
+            503: json(ref("Error"), "No relayer key is usable")
+          }
+        }
+      },
+      "/relay/{jobId}": {
+        get: {
+          tags: ["relay"],
+          summary: "A job's progress",
+          parameters: [{name: "jobId", in: "path", required: true, schema: string}],
+          responses: {200: json(ref("Job"), "The job"), 404: json(ref("Error"), "No such job")}
+        }
+      },
+      "/healthz": {
+        get: {
+          tags: ["operations"],
+          summary: "Liveness; never touches the chain",
+          responses: {200: json({type: "object", properties: {status: {type: "string", enum: ["ok"]}}}, "Serving")}
+        }
+      },
+      "/readyz": {
+        get: {
+          tags: ["operations"],
+          summary: "Readiness: chain, contract, relayer keys and queue",
+          responses: {200: json(ref("Readiness"), "Ready"), 503: json(ref("Readiness"), "A check failed")}
+        }
+      },
+      "/metrics": {
+        get: {
+          tags: ["operations"],
+          summary: "Prometheus metrics",
+          responses: {200: {description: "Text exposition format", content: {"text/plain": {schema: string}}}}
+        }
+      },
+      "/openapi.json": {
+        get: {
+          tags: ["operations"],
+          summary: "This document",
+          responses: {200: json({type: "object"}, "The OpenAPI document")}
+        }
+      },
+      "/tenants/usage": {
+        get: {
+          tags: ["tenants"],
+          summary: "The calling tenant's gas use and remaining quota",
+          security: [{apiKey: []}],
+          parameters: [{name: "month", in: "query", schema: {type: "string", pattern: "^[0-9]{4}-(0[1-9]|1[0-2])$"}}],
+          responses: {
+            200: json(ref("TenantUsage"), "Usage for the month, the current UTC month by default"),
+            400: badRequest,
+            401: json(ref("Error"), "Missing or unknown API key")
+          }
+        }
+      },
+      "/admin/status": admin({get: {summary: "Pause state, bans and gas policy", responses: {200: adminStatus}}}),
+      "/admin/pause": admin({post: {summary: "Stop sponsoring", responses: {200: adminStatus}}}),
+      "/admin/resume": admin({post: {summary: "Resume sponsoring", responses: {200: adminStatus}}}),
+      "/admin/signers/{address}/ban": admin({
+        put: {
+          summary: "Ban a signer",
+          parameters: [addressParam("address")],
+          requestBody: {content: {"application/json": {schema: ref("SignerBan")}}},
+          responses: {200: json({type: "object"}, "The ban"), 400: badRequest}
+        },
+        delete: {
+          summary: "Lift a signer's ban",
+          parameters: [addressParam("address")],
+          responses: {200: json({type: "object"}, "Whether the signer was banned"), 400: badRequest}
+        }
+      }),
+      "/admin/gas-policy": admin({
+        patch: {
+          summary: "Change gas limits",
+          requestBody: {required: true, content: {"application/json": {schema: ref("GasPolicyChanges")}}},
+          responses: {200: json({type: "object"}, "The resulting gas policy"), 400: badRequest}
+        }
+      }),
+      "/admin/jobs": admin({
+        get: {
+          summary: "List jobs",
+          parameters: [{name: "status", in: "query", schema: jobSchema.properties.status}],
+          responses: {200: json({type: "object", properties: {jobs: {type: "array", items: ref("Job")}}}, "Jobs")}
+        }
+      }),
+      "/admin/jobs/drain": admin({
+        post: {
+          summary: "Fail every job not yet sent",
+          responses: {200: json({type: "object", properties: {drained: {type: "array", items: string}}}, "Drained")}
+        }
+      }),
+      "/admin/spend": admin({get: {summary: "Today's gas use", responses: {200: json({type: "object"}, "Spend")}}}),
+      "/admin/spend/{user}": admin({
+        get: {
+          summary: "A signer's gas use today",
+          parameters: [addressParam("user")],
+          responses: {200: json({type: "object"}, "Spend"), 400: badRequest}
+        }
+      })
+    }
+  };
+}
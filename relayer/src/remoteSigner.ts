@@ -0,0 +1,122 @@
+import {createHash, timingSafeEqual} from "crypto";
+import {promises as fs} from "fs";
+import express, {type Express, type RequestHandler} from "express";
+import {getAddress, isAddress, isHexString, Transaction, Wallet, type TypedDataField} from "ethers";
+
+import {asyncHandler, errorHandler, HttpError, ValidationError} from "./http";
+import {asObject} from "./intents";
+
+/**
+ * Stand-in for an HSM or KMS signing service, speaking the protocol
+ * RemoteSigner expects (see src/blockchain/signers.ts). Keys are read from a
+ * JSON file listing private keys, so it is only meant for local chains and
+ * tests; a production service would keep them in hardware.
+ */
+export function remoteSignerApp(keys: Wallet[], options: {token?: string} = {}): Express {
+  const wallets = new Map(keys.map((wallet) => [wallet.address, wallet]));
+  const app = express();
+  app.use(express.json({limit: "64kb"}));
+  if (options.token) app.use(requireToken(options.token));
+
+  const walletFor = (body: unknown): Wallet => {
+    const {address} = asObject(body);
+    if (typeof address !== "string" || !isAddress(address)) throw new ValidationError("address", "expected an address");
+    const wallet = wallets.get(getAddress(address));
+    if (!wallet) throw new HttpError(404, "unknown account", {address});
+    return wallet;
+  };
+
+  app.get("/accounts", (_req, res) => {
+    res.json({addresses: [...wallets.keys()]});
+  });
+
+  app.post(
+    "/sign/transaction",
+    asyncHandler(async (req, res) => {
+      const wallet = walletFor(req.body);
+      let tx: Transaction;
+      try {
+        tx = Transaction.from(String(asObject(req.body).transaction));
+      } catch {
+        throw new ValidationError("transaction", "expected an unsigned serialized transaction");
+      }
+      if (tx.isSigned()) throw new ValidationError("transaction", "expected an unsigned serialized transaction");
+      res.json({signedTransaction: await wallet.signTransaction(tx)});
+    })
+  );
+
+  app.post(
+    "/sign/message",
+    asyncHandler(async (req, res) => {
+      const wallet = walletFor(req.body);
+      const {message} = asObject(req.body);
+      if (!isHexString(message)) throw new ValidationError("message", "expected hex bytes");
+      res.json({signature: await wallet.signMessage(Buffer.from(message.slice(2), "hex"))});
+    })
+  );
+
+  app.post(
+    "/sign/typed-data",
+    asyncHandler(async (req, res) => {
+      const wallet = walletFor(req.body);
+      const {domain, types, message} = asObject(asObject(req.body).payload);
+      // The payload lists EIP712Domain among its types; ethers derives it from the domain itself.
+      const {EIP712Domain: _domainType, ...fields} = asObject(types);
+      if (!Object.values(fields).every(Array.isArray)) throw new ValidationError("payload", "expected EIP-712 types");
+      let signature: string;
+      try {
+        // ethers checks each field's name and type while encoding.
+        const fieldTypes = fields as Record<string, TypedDataField[]>;
+        signature = await wallet.signTypedData(asObject(domain), fieldTypes, asObject(message));
+      } catch {
+        throw new ValidationError("payload", "expected an EIP-712 payload");
+      }
+      res.json({signature});
+    })
+  );
+
+  app.use(errorHandler);
+  return app;
+}
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+function requireToken(token: string): RequestHandler {
+  const expected = digest(token);
+  return (req, _res, next) => {
+    const match = /^Bearer (.+)$/.exec(req.get("authorization") ?? "");
+    if (!match || !timingSafeEqual(digest(match[1]), expected)) {
+      next(new HttpError(401, "signer authentication required", {}, {"WWW-Authenticate": "Bearer"}));
+      return;
+    }
+    next();
+  };
+}
+
+/** Reads a JSON list of private keys. */
+export async function readKeysFile(filePath: string): Promise<Wallet[]> {
+  const keys: unknown = JSON.parse(await fs.readFile(filePath, "utf8"));
+  if (!Array.isArray(keys) || keys.some((key) => !isHexString(key, 32))) {
+    throw new Error(`${filePath} must contain a JSON list of 32-byte hex private keys`);
+  }
+  return keys.map((key: string) => new Wallet(key));
+}
+
+async function main(): Promise<void> {
+  const file = process.env.REMOTE_SIGNER_KEYS_FILE;
+  if (!file) throw new Error("set REMOTE_SIGNER_KEYS_FILE to a JSON list of private keys");
+  const keys = await readKeysFile(file);
+  const port = Number(process.env.PORT ?? 9545);
+  remoteSignerApp(keys, {token: process.env.REMOTE_SIGNER_TOKEN || undefined}).listen(port, () => {
+    console.log(`remote signer listening on :${port} for ${keys.map((wallet) => wallet.address).join(", ")}`);
+  });
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
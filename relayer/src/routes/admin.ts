@@ -0,0 +1,196 @@
+import {createHash, timingSafeEqual} from "crypto";
+import {Router, type RequestHandler} from "express";
+import {parseUnits} from "ethers";
+
+import {asyncHandler, HttpError, ValidationError} from "../http";
+import {asObject, parseAddress, parseUint} from "../intents";
+import type {AdminControls, GasPolicyChanges} from "../services/admin";
+import {ROLES, type GasPolicyConfig, type RoleName} from "../services/gasPolicy";
+import type {JobStatus, RelayQueue} from "../services/relayQueue";
+import {jobView} from "./relay";
+
+export interface AdminRouteDeps {
+  controls: AdminControls;
+  queue: RelayQueue;
+  /** Operator name to bearer token. */
+  tokens: Record<string, string>;
+}
+
+const JOB_STATUSES: readonly JobStatus[] = ["queued", "submitted", "mined", "failed", "expired"];
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Resolves the bearer token to its operator, stored in res.locals.operator.
+ * Tokens are compared as fixed-length digests in constant time.
+ */
+function authenticate(tokens: Record<string, string>): RequestHandler {
+  const known = Object.entries(tokens).map(([name, token]) => ({name, digest: digest(token)}));
+  return (req, res, next) => {
+    const match = /^Bearer (.+)$/.exec(req.get("authorization") ?? "");
+    const presented = match ? digest(match[1]) : undefined;
+    // Every token is compared, so the response time does not reveal which operator nearly matched.
+    let operator: string | undefined;
+    for (const {name, digest: expected} of known) {
+      if (presented && timingSafeEqual(presented, expected)) operator = name;
+    }
+    if (!operator) {
+      next(new HttpError(401, "admin authentication required", {}, {"WWW-Authenticate": "Bearer"}));
+      return;
+    }
+    res.locals.operator = operator;
+    next();
+  };
+}
+
+function policyView(config: GasPolicyConfig): Record<string, unknown> {
+  return {
+    allowedMethods: config.allowedMethods,
+    maxGasPrice: config.maxGasPrice.toString(),
+    maxGasPerTx: config.maxGasPerTx.toString(),
+    userDailyGas: config.userDailyGas.toString(),
+    roleDailyGas: Object.fromEntries(Object.entries(config.roleDailyGas).map(([role, gas]) => [role, gas.toString()]))
+  };
+}
+
+function parsePolicyChanges(body: unknown): GasPolicyChanges {
+  const raw = asObject(body);
+  const changes: GasPolicyChanges = {};
+  if (raw.maxGasPriceGwei !== undefined) {
+    try {
+      changes.maxGasPrice = parseUnits(String(raw.maxGasPriceGwei), "gwei");
+    } catch {
+      throw new ValidationError("maxGasPriceGwei", "expected a gas price in gwei");
+    }
+  }
+  if (raw.maxGasPerTx !== undefined) changes.maxGasPerTx = parseUint(raw.maxGasPerTx, "maxGasPerTx");
+  if (raw.userDailyGas !== undefined) changes.userDailyGas = parseUint(raw.userDailyGas, "userDailyGas");
+  if (raw.roleDailyGas !== undefined) {
+    const budgets: Partial<Record<RoleName, bigint>> = {};
+    for (const [role, gas] of Object.entries(asObject(raw.roleDailyGas))) {
+      if (!(ROLES as readonly string[]).includes(role)) {
+        throw new ValidationError("roleDailyGas", `unknown role ${role}; expected one of ${ROLES.join(", ")}`);
+      }
+      budgets[role as RoleName] = parseUint(gas, `roleDailyGas.${role}`);
+    }
+    changes.roleDailyGas = budgets;
+  }
+  if (Object.keys(changes).length === 0) {
+    throw new ValidationError("body", "expected maxGasPriceGwei, maxGasPerTx, userDailyGas or roleDailyGas");
+  }
+  return changes;
+}
+
+/**
+ * Operator endpoints, each behind a bearer token. Every change goes through
+ * AdminControls, which persists it and appends it to the audit log.
+ */
+export function adminRouter(deps: AdminRouteDeps): Router {
+  const router = Router();
+  const {controls, queue} = deps;
+  router.use(authenticate(deps.tokens));
+
+  const status = async () => {
+    const {paused, signerBans, gasPolicy} = controls.status();
+    return {paused, signerBans, gasPolicy: policyView(gasPolicy), queue: await queue.depth()};
+  };
+
+  router.get(
+    "/status",
+    asyncHandler(async (_req, res) => {
+      res.json(await status());
+    })
+  );
+
+  router.post(
+    "/pause",
+    asyncHandler(async (_req, res) => {
+      await controls.pause(res.locals.operator);
+      res.json(await status());
+    })
+  );
+
+  router.post(
+    "/resume",
+    asyncHandler(async (_req, res) => {
+      await controls.resume(res.locals.operator);
+      res.json(await status());
+    })
+  );
+
+  router.put(
+    "/signers/:address/ban",
+    asyncHandler(async (req, res) => {
+      const signer = parseAddress(req.params.address, "address");
+      const {durationSeconds, reason} = asObject(req.body ?? {});
+      if (durationSeconds !== undefined && !(Number.isSafeInteger(durationSeconds) && Number(durationSeconds) > 0)) {
+        throw new ValidationError("durationSeconds", "expected a positive whole number of seconds");
+      }
+      if (reason !== undefined && (typeof reason !== "string" || reason.length > 200)) {
+        throw new ValidationError("reason", "expected a string of at most 200 characters");
+      }
+      const ban = await controls.banSigner(res.locals.operator, signer, {
+        durationSeconds: durationSeconds as number | undefined,
+        reason: reason as string | undefined
+      });
+      res.json({signer, until: ban.until === undefined ? null : new Date(ban.until).toISOString(), reason});
+    })
+  );
+
+  router.delete(
+    "/signers/:address/ban",
+    asyncHandler(async (req, res) => {
+      const signer = parseAddress(req.params.address, "address");
+      res.json({signer, wasBanned: await controls.unbanSigner(res.locals.operator, signer)});
+    })
+  );
+
+  router.patch(
+    "/gas-policy",
+    asyncHandler(async (req, res) => {
+      const changes = parsePolicyChanges(req.body);
+      res.json(policyView(await controls.updateGasPolicy(res.locals.operator, changes)));
+    })
+  );
+
+  router.get(
+    "/jobs",
+    asyncHandler(async (req, res) => {
+      const {status: filter} = req.query;
+      if (filter !== undefined && !JOB_STATUSES.includes(filter as JobStatus)) {
+        throw new ValidationError("status", `expected one of ${JOB_STATUSES.join(", ")}`);
+      }
+      const jobs = await queue.list(filter as JobStatus | undefined);
+      res.json({jobs: jobs.map((job) => ({...jobView(job), relayer: job.relayer}))});
+    })
+  );
+
+  router.post(
+    "/jobs/drain",
+    asyncHandler(async (_req, res) => {
+      const drained = await controls.drainQueue(res.locals.operator);
+      res.json({drained: drained.map((job) => job.id)});
+    })
+  );
+
+  router.get(
+    "/spend",
+    asyncHandler(async (_req, res) => {
+      res.json(await controls.usage());
+    })
+  );
+
+  router.get(
+    "/spend/:user",
+    asyncHandler(async (req, res) => {
+      const user = parseAddress(req.params.user, "user");
+      const usage = await controls.usage();
+      const spend = usage.users[user.toLowerCase()] ?? {gas: "0", wei: "0"};
+      res.json({day: usage.day, user, ...spend});
+    })
+  );
+
+  return router;
+}
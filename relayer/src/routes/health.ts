@@ -0,0 +1,27 @@
+import {Router} from "express";
+
+import {asyncHandler} from "../http";
+import {checkReadiness, type ReadinessDeps} from "../services/readiness";
+
+/**
+ * /healthz answers as long as the process serves requests and never touches
+ * the chain, so a slow RPC does not get the relayer restarted. /readyz runs
+ * the readiness checks and answers 503 while any of them fails.
+ */
+export function healthRouter(deps: ReadinessDeps): Router {
+  const router = Router();
+
+  router.get("/healthz", (_req, res) => {
+    res.json({status: "ok"});
+  });
+
+  router.get(
+    "/readyz",
+    asyncHandler(async (_req, res) => {
+      const report = await checkReadiness(deps);
+      res.status(report.ready ? 200 : 503).json({status: report.ready ? "ready" : "not ready", checks: report.checks});
+    })
+  );
+
+  return router;
+}
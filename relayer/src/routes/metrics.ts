@@ -0,0 +1,33 @@
+import {Router} from "express";
+
+import {asyncHandler} from "../http";
+import {MetricsRegistry, type RelayerMetrics} from "../services/metrics";
+import type {RelayQueue} from "../services/relayQueue";
+import type {WalletPool} from "../services/walletPool";
+
+export interface MetricsRouteDeps {
+  metrics: RelayerMetrics;
+  queue: Pick<RelayQueue, "depth">;
+  wallets: Pick<WalletPool, "statuses">;
+}
+
+/** Prometheus scrape endpoint; gauges are sampled on each scrape. */
+export function metricsRouter(deps: MetricsRouteDeps): Router {
+  const router = Router();
+
+  router.get(
+    "/",
+    asyncHandler(async (_req, res) => {
+      const {metrics} = deps;
+      const [depth, statuses] = await Promise.all([deps.queue.depth(), deps.wallets.statuses()]);
+      for (const [status, count] of Object.entries(depth)) metrics.queueDepth.set({status}, count);
+      metrics.walletBalance.reset();
+      for (const {address, state, balance} of statuses) {
+        metrics.walletBalance.set({relayer: address.toLowerCase(), state}, balance);
+      }
+      res.type(MetricsRegistry.CONTENT_TYPE).send(metrics.render());
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,125 @@
+import {Router} from "express";
+
+import {asyncHandler, HttpError, ValidationError} from "../http";
+import {parseRelayIntent} from "../intents";
+import type {RateLimiter} from "../services/rateLimit";
+import type {RelayJob, RelayQueue} from "../services/relayQueue";
+import {SignatureError, type SignatureVerifier} from "../services/signature";
+import {simulate, type SimulationResult} from "../services/simulation";
+import type {TenantRegistry} from "../services/tenants";
+import type {WalletPool} from "../services/walletPool";
+import type {WebhookNotifier} from "../services/webhooks";
+
+export interface RelayRouteDeps {
+  verifier: SignatureVerifier;
+  rateLimiter: RateLimiter;
+  queue: RelayQueue;
+  wallets: WalletPool;
+  /** When tenants are configured, relaying needs an API key and is charged to the batch's tenant. */
+  tenants?: TenantRegistry;
+  /**
+   * Posts job outcomes. A request may only name a webhookUrl when its
+   * callbacks can be signed, and without an API key only on an allowed host.
+   */
+  webhooks?: WebhookNotifier;
+}
+
+/** What clients see of a job; fee history and account nonces stay internal. */
+export function jobView(job: RelayJob): Record<string, unknown> {
+  const latest = job.attempts[job.attempts.length - 1];
+  return {
+    jobId: job.id,
+    intentHash: job.digest,
+    status: job.status,
+    method: job.intent.method,
+    tenant: job.tenant,
+    user: job.intent.user,
+    nonce: job.intent.nonce,
+    expectedNonce: job.waitingForNonce,
+    txHash: job.txHash ?? latest?.txHash,
+    blockNumber: job.blockNumber,
+    attempts: job.attempts.length,
+    error: job.error,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString()
+  };
+}
+
+/** Simulation outcome as JSON; custom error arguments are stringified like intent fields. */
+export function simulationView(result: SimulationResult): Record<string, unknown> {
+  const json = (value: unknown) => (typeof value === "bigint" ? value.toString() : value);
+  return result.success
+    ? {success: true, method: result.method, gasEstimate: result.gasEstimate.toString()}
+    : {success: false, method: result.method, error: result.error, args: result.args.map(json)};
+}
+
+export function relayRouter(deps: RelayRouteDeps): Router {
+  const router = Router();
+
+  router.post(
+    "/",
+    asyncHandler(async (req, res) => {
+      const {rateLimiter} = deps;
+      const ip = req.ip ?? req.socket.remoteAddress ?? "unknown";
+      await rateLimiter.checkBan(ip);
+      await rateLimiter.take("ip", ip);
+      const caller = deps.tenants?.enabled ? deps.tenants.authenticate(req.get("x-api-key")) : undefined;
+
+      const intent = parseRelayIntent(req.body);
+      const {webhookUrl} = req.body as {webhookUrl?: string};
+      if (webhookUrl !== undefined && !deps.webhooks?.canSign(caller?.id)) {
+        throw new ValidationError("webhookUrl", "webhooks are not enabled on this relayer");
+      }
+      // Anyone may send an intent, so without an API key the relayer only calls hosts it was told to trust.
+      if (webhookUrl !== undefined && !caller && !deps.webhooks!.allowsHost(webhookUrl)) {
+        throw new ValidationError("webhookUrl", "host is not in WEBHOOK_ALLOWED_HOSTS; send a tenant API key");
+      }
+      try {
+        deps.verifier.verify(intent);
+      } catch (err) {
+        if (err instanceof SignatureError && err.field === "signature") await rateLimiter.recordInvalidSignature(ip);
+        throw err;
+      }
+      rateLimiter.checkSigner(intent.user);
+      // A client retrying an intent it already sent gets that job back, without spending signer quota.
+      const existing = await deps.queue.find(intent);
+      if (existing) {
+        res.status(200).json(jobView(existing));
+        return;
+      }
+      const payer = caller && (await deps.tenants!.payer(caller, intent.user, intent.productId));
+      // Only authenticated signers are charged, so forged intents cannot drain someone else's bucket.
+      await rateLimiter.take("signer", intent.user);
+      await rateLimiter.take("product", intent.productId.toString());
+
+      const job = await deps.queue.submit(intent, {tenant: payer?.id, submittedBy: caller?.id, webhookUrl});
+      res.status(202).json(jobView(job));
+    })
+  );
+
+  // Answers 200 whether or not the intent would go through; only bad input and relayer trouble are errors.
+  router.post(
+    "/simulate",
+    asyncHandler(async (req, res) => {
+      const {rateLimiter} = deps;
+      const ip = req.ip ?? req.socket.remoteAddress ?? "unknown";
+      await rateLimiter.checkBan(ip);
+      await rateLimiter.take("ip", ip);
+
+      const intent = parseRelayIntent(req.body);
+      const account = await deps.wallets.pick();
+      res.json(simulationView(await simulate(account.supplyChain, intent)));
+    })
+  );
+
+  router.get(
+    "/:jobId",
+    asyncHandler(async (req, res) => {
+      const job = await deps.queue.get(req.params.jobId);
+      if (!job) throw new HttpError(404, "job not found", {jobId: req.params.jobId});
+      res.json(jobView(job));
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,28 @@
+import {Router} from "express";
+
+import {asyncHandler, ValidationError} from "../http";
+import type {TenantLedger, TenantRegistry} from "../services/tenants";
+
+export interface TenantRouteDeps {
+  tenants: TenantRegistry;
+  ledger: TenantLedger;
+}
+
+export function tenantRouter(deps: TenantRouteDeps): Router {
+  const router = Router();
+
+  // Each tenant sees only its own account, identified by the API key.
+  router.get(
+    "/usage",
+    asyncHandler(async (req, res) => {
+      const tenant = deps.tenants.authenticate(req.get("x-api-key"));
+      const {month} = req.query;
+      if (month !== undefined && (typeof month !== "string" || !/^[0-9]{4}-(0[1-9]|1[0-2])$/.test(month))) {
+        throw new ValidationError("month", "expected YYYY-MM");
+      }
+      res.json(await deps.ledger.report(tenant.id, month));
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,182 @@
+import {ValidationError} from "./http";
+import type {AcceptTransferIntent, MetaTxIntent} from "./intents";
+
+/**
+ * The subset of JSON Schema the relayer validates request bodies with. Every
+ * schema here is also an OpenAPI 3.0 Schema Object, so src/openapi.ts
+ * publishes the same definitions clients are checked against.
+ */
+export interface Schema {
+  type?: "object" | "string" | "integer" | "boolean" | "array";
+  /** For leaf schemas, completes "expected ..." in the 400 a mismatch produces. */
+  description?: string;
+  pattern?: string;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  example?: unknown;
+  anyOf?: readonly Schema[];
+  properties?: Readonly<Record<string, Schema>>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  items?: Schema;
+}
+
+export const uint256Schema = {
+  description: "a uint256 as a decimal string",
+  anyOf: [
+    {type: "string", pattern: "^[0-9]{1,78}$"},
+    {type: "integer", minimum: 0, maximum: Number.MAX_SAFE_INTEGER}
+  ],
+  example: "100"
+} as const satisfies Schema;
+
+export const addressSchema = {
+  type: "string",
+  description: "a 0x-prefixed address",
+  pattern: "^0x[0-9a-fA-F]{40}$",
+  example: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"
+} as const satisfies Schema;
+
+export const bytes32Schema = {
+  type: "string",
+  description: "32 bytes of 0x-prefixed hex",
+  pattern: "^0x[0-9a-fA-F]{64}$"
+} as const satisfies Schema;
+
+export const signatureSchema = {
+  type: "string",
+  description: "a 65-byte 0x-prefixed signature",
+  pattern: "^0x[0-9a-fA-F]{130}$"
+} as const satisfies Schema;
+
+/** Fields every signed intent carries, whatever its struct. */
+const signedFields = {
+  user: addressSchema,
+  productId: uint256Schema,
+  nonce: uint256Schema,
+  deadline: uint256Schema,
+  signature: signatureSchema,
+  chainId: uint256Schema
+} as const;
+
+/** Unsigned instructions that may accompany any intent. */
+const requestFields = {
+  webhookUrl: {
+    type: "string",
+    description: "an http(s) URL to post the outcome to",
+    pattern: "^https?://[^\\s]+$",
+    example: "https://example.com/relayer-callbacks"
+  }
+} as const;
+
+/** A signed InitiateTransfer intent, relayed through executeMetaTx or initiateTransferWithSig. */
+export const metaTxIntentSchema = {
+  type: "object",
+  required: ["user", "productId", "to", "locationHash", "nonce", "deadline", "signature"],
+  additionalProperties: false,
+  properties: {
+    method: {type: "string", enum: ["executeMetaTx", "initiateTransferWithSig"], default: "executeMetaTx"},
+    ...signedFields,
+    to: addressSchema,
+    locationHash: bytes32Schema,
+    ...requestFields
+  }
+} as const satisfies Schema;
+
+/** A signed AcceptTransfer intent, relayed through acceptTransferWithSig. */
+export const acceptTransferIntentSchema = {
+  type: "object",
+  required: ["method", "user", "productId", "nonce", "deadline", "signature"],
+  additionalProperties: false,
+  properties: {
+    method: {type: "string", enum: ["acceptTransferWithSig"]},
+    ...signedFields,
+    ...requestFields
+  }
+} as const satisfies Schema;
+
+// The intent types and their schemas must list the same fields, with the same
+// ones required; a field added to one and not the other fails the type-check.
+// `method` and the unsigned request fields are not part of an intent.
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type Assert<T extends true> = T;
+type RequiredKeys<T> = {[K in keyof T]-?: undefined extends T[K] ? never : K}[keyof T];
+type Fields<S extends {properties: object}> = Exclude<keyof S["properties"], "method" | keyof typeof requestFields>;
+type RequiredFields<S extends {required: readonly string[]}> = Exclude<S["required"][number], "method">;
+export type SchemasMatchIntents = [
+  Assert<Same<keyof MetaTxIntent, Fields<typeof metaTxIntentSchema>>>,
+  Assert<Same<RequiredKeys<MetaTxIntent>, RequiredFields<typeof metaTxIntentSchema>>>,
+  Assert<Same<keyof AcceptTransferIntent, Fields<typeof acceptTransferIntentSchema>>>,
+  Assert<Same<RequiredKeys<AcceptTransferIntent>, RequiredFields<typeof acceptTransferIntentSchema>>>
+];
+
+function expected(schema: Schema): string {
+  if (schema.enum) return `expected one of ${schema.enum.join(", ")}`;
+  return `expected ${schema.description ?? schema.type}`;
+}
+
+function problem(schema: Schema, value: unknown, field: string): ValidationError | undefined {
+  if (schema.anyOf) {
+    return schema.anyOf.some((branch) => !problem(branch, value, field))
+      ? undefined
+      : new ValidationError(field, expected(schema));
+  }
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return new ValidationError(field, "expected a JSON object");
+      }
+      const path = (name: string) => (field === "body" ? name : `${field}.${name}`);
+      const properties = schema.properties ?? {};
+      if (schema.additionalProperties === false) {
+        const unknown = Object.keys(value).find((name) => !(name in properties));
+        if (unknown !== undefined) return new ValidationError(path(unknown), "unknown field");
+      }
+      for (const [name, property] of Object.entries(properties)) {
+        const item = (value as Record<string, unknown>)[name];
+        if (item === undefined) {
+          if (schema.required?.includes(name)) return new ValidationError(path(name), expected(property));
+          continue;
+        }
+        const found = problem(property, item, path(name));
+        if (found) return found;
+      }
+      return undefined;
+    }
+    case "array": {
+      if (!Array.isArray(value)) return new ValidationError(field, expected(schema));
+      for (const [index, item] of value.entries()) {
+        const found = schema.items && problem(schema.items, item, `${field}[${index}]`);
+        if (found) return found;
+      }
+      return undefined;
+    }
+    case "string": {
+      const ok =
+        typeof value === "string" &&
+        (!schema.pattern || new RegExp(schema.pattern).test(value)) &&
+        (!schema.enum || schema.enum.includes(value));
+      return ok ? undefined : new ValidationError(field, expected(schema));
+    }
+    case "integer": {
+      const ok =
+        typeof value === "number" &&
+        Number.isInteger(value) &&
+        (schema.minimum === undefined || value >= schema.minimum) &&
+        (schema.maximum === undefined || value <= schema.maximum);
+      return ok ? undefined : new ValidationError(field, expected(schema));
+    }
+    case "boolean":
+      return typeof value === "boolean" ? undefined : new ValidationError(field, expected(schema));
+    default:
+      return undefined;
+  }
+}
+
+/** Throws a ValidationError naming the first field of `value` that does not conform to `schema`. */
+export function validate(schema: Schema, value: unknown, field = "body"): void {
+  const found = problem(schema, value, field);
+  if (found) throw found;
+}
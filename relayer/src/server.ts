@@ -0,0 +1,149 @@
+import path from "path";
+import express, {type Express} from "express";
+import {JsonRpcProvider} from "ethers";
+
+import {loadRelayerSigners} from "./blockchain/signers";
+import {SupplyChainClient} from "./blockchain/supplyChain";
+import {loadConfig, redactConfig, verifyConfigOnChain} from "./config";
+import {errorHandler} from "./http";
+import {openApiDocument} from "./openapi";
+import {adminRouter, type AdminRouteDeps} from "./routes/admin";
+import {healthRouter} from "./routes/health";
+import {metricsRouter} from "./routes/metrics";
+import {relayRouter, type RelayRouteDeps} from "./routes/relay";
+import {tenantRouter} from "./routes/tenants";
+import {AdminControls} from "./services/admin";
+import {FileAuditLog} from "./services/audit";
+import {GasPolicy, supplyChainRoles} from "./services/gasPolicy";
+import {RelayerMetrics} from "./services/metrics";
+import {AccountNonceManager, UserNonceManager} from "./services/nonce";
+import {ProductPrechecks} from "./services/precheck";
+import {RateLimiter} from "./services/rateLimit";
+import type {ReadinessDeps} from "./services/readiness";
+import {RelayQueue} from "./services/relayQueue";
+import {SignatureVerifier} from "./services/signature";
+import {FileJsonStore} from "./services/store";
+import {TenantLedger, TenantRegistry} from "./services/tenants";
+import {WalletPool} from "./services/walletPool";
+import {WebhookNotifier} from "./services/webhooks";
+
+export type RelayerDeps = RelayRouteDeps & {
+  metrics: RelayerMetrics;
+  /** What /readyz checks against. */
+  readiness: Omit<ReadinessDeps, "wallets" | "queue">;
+  /** Mounted at /admin when present. */
+  admin?: Omit<AdminRouteDeps, "queue">;
+  /** Serves /tenants/usage when tenants are configured. */
+  ledger?: TenantLedger;
+};
+
+export function createApp(deps: RelayerDeps): Express {
+  const app = express();
+  app.use(express.json({limit: "16kb"}));
+  const document = openApiDocument();
+  app.get("/openapi.json", (_req, res) => {
+    res.json(document);
+  });
+  app.use(healthRouter({...deps.readiness, wallets: deps.wallets, queue: deps.queue}));
+  app.use("/relay", relayRouter(deps));
+  app.use("/metrics", metricsRouter(deps));
+  if (deps.admin) app.use("/admin", adminRouter({...deps.admin, queue: deps.queue}));
+  if (deps.tenants?.enabled && deps.ledger) {
+    app.use("/tenants", tenantRouter({tenants: deps.tenants, ledger: deps.ledger}));
+  }
+  app.use(errorHandler);
+  return app;
+}
+
+async function main(): Promise<void> {
+  const config = await loadConfig();
+  console.log("relayer: configuration", redactConfig(config));
+
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const signers = await loadRelayerSigners(config, provider);
+  const addresses = await Promise.all(signers.map((signer) => signer.getAddress()));
+  await verifyConfigOnChain(config, provider, addresses);
+
+  const supplyChain = SupplyChainClient.connect(config.supplyChainAddress, provider, config.confirmations);
+  const verifier = await SignatureVerifier.fromContract(supplyChain);
+  const gasPolicy = new GasPolicy(config.gasPolicy, {
+    provider,
+    roles: supplyChainRoles(supplyChain.contract),
+    store: new FileJsonStore(path.join(config.stateDir, "gas-usage.json"))
+  });
+  const userNonces = new UserNonceManager<string>(
+    supplyChain,
+    new FileJsonStore(path.join(config.stateDir, "user-nonces.json")),
+    BigInt(config.maxNonceAhead)
+  );
+  const accounts = signers.map((signer, index) => ({
+    address: addresses[index],
+    supplyChain: supplyChain.connect(signer),
+    accountNonces: new AccountNonceManager(
+      provider,
+      addresses[index],
+      new FileJsonStore(path.join(config.stateDir, `account-nonce-${addresses[index].toLowerCase()}.json`))
+    )
+  }));
+  const wallets = new WalletPool(accounts, {provider, minBalance: config.minRelayerBalance});
+  const metrics = new RelayerMetrics();
+  const tenants = new TenantRegistry(config.tenants, supplyChain);
+  const ledger = new TenantLedger(tenants, new FileJsonStore(path.join(config.stateDir, "tenant-usage.json")));
+  const prechecks = new ProductPrechecks({supplyChain, provider}, config.precheck);
+  await prechecks.watch();
+  const webhooks = new WebhookNotifier(
+    {store: new FileJsonStore(path.join(config.stateDir, "webhook-deliveries.json")), tenants},
+    config.webhooks
+  );
+
+  const queue = new RelayQueue(
+    {
+      wallets,
+      provider,
+      verifier,
+      gasPolicy,
+      userNonces,
+      store: new FileJsonStore(path.join(config.stateDir, "relay-jobs.json")),
+      metrics,
+      tenants: ledger,
+      webhooks,
+      prechecks
+    },
+    config.queue
+  );
+
+  const rateLimiter = new RateLimiter(config.rateLimits);
+  let admin: RelayerDeps["admin"];
+  if (Object.keys(config.adminTokens).length > 0) {
+    const controls = new AdminControls({
+      gasPolicy,
+      rateLimiter,
+      queue,
+      store: new FileJsonStore(path.join(config.stateDir, "admin-state.json")),
+      audit: new FileAuditLog(path.join(config.stateDir, "admin-audit.jsonl"))
+    });
+    await controls.restore();
+    admin = {controls, tokens: config.adminTokens};
+  }
+  // Operator overrides such as a pause must be in force before resumed jobs are sent.
+  await queue.resume();
+  await webhooks.resume();
+
+  const readiness = {
+    ...config.readiness,
+    provider,
+    chainId: config.chainId,
+    supplyChainAddress: config.supplyChainAddress
+  };
+  const app = createApp({verifier, rateLimiter, queue, wallets, metrics, readiness, admin, tenants, ledger, webhooks});
+  app.listen(config.port, () => {
+    console.log(`relayer listening on :${config.port} with ${accounts.length} key(s)`);
+  });
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,164 @@
+import type {AuditLog} from "./audit";
+import type {GasPolicy, GasPolicyConfig, PersistedGasUsage, RoleName} from "./gasPolicy";
+import type {RateLimiter} from "./rateLimit";
+import type {RelayJob, RelayQueue} from "./relayQueue";
+import type {JsonStore} from "./store";
+
+/** Gas policy limits an operator may change at runtime. */
+export type GasPolicyChanges = Partial<
+  Pick<GasPolicyConfig, "maxGasPrice" | "maxGasPerTx" | "userDailyGas" | "roleDailyGas">
+>;
+
+export interface SignerBan {
+  /** Milliseconds since epoch; absent for an indefinite ban. */
+  until?: number;
+  reason?: string;
+}
+
+/** Operator overrides, re-applied on startup so they outlive a restart. */
+export interface PersistedAdminState {
+  paused: boolean;
+  signerBans: Record<string, SignerBan>;
+  gasPolicy: {
+    maxGasPrice?: string;
+    maxGasPerTx?: string;
+    userDailyGas?: string;
+    roleDailyGas?: Partial<Record<RoleName, string>>;
+  };
+}
+
+export interface AdminControlsDeps {
+  gasPolicy: GasPolicy;
+  rateLimiter: RateLimiter;
+  queue: RelayQueue;
+  store: JsonStore<PersistedAdminState>;
+  audit: AuditLog;
+  now?: () => number;
+}
+
+const LIMITS = ["maxGasPrice", "maxGasPerTx", "userDailyGas"] as const;
+
+function serializeChanges(changes: GasPolicyChanges): PersistedAdminState["gasPolicy"] {
+  const saved: PersistedAdminState["gasPolicy"] = {};
+  for (const limit of LIMITS) {
+    const value = changes[limit];
+    if (value !== undefined) saved[limit] = value.toString();
+  }
+  if (changes.roleDailyGas) {
+    saved.roleDailyGas = Object.fromEntries(
+      Object.entries(changes.roleDailyGas).map(([role, gas]) => [role, gas.toString()])
+    );
+  }
+  return saved;
+}
+
+function parseChanges(saved: PersistedAdminState["gasPolicy"]): GasPolicyChanges {
+  const changes: GasPolicyChanges = {};
+  for (const limit of LIMITS) {
+    const value = saved[limit];
+    if (value !== undefined) changes[limit] = BigInt(value);
+  }
+  if (saved.roleDailyGas) {
+    changes.roleDailyGas = Object.fromEntries(
+      Object.entries(saved.roleDailyGas).map(([role, gas]) => [role, BigInt(gas)])
+    );
+  }
+  return changes;
+}
+
+/**
+ * Runtime controls for operators. Each action takes effect on the gas policy,
+ * rate limiter or queue immediately, is persisted, and is written to the
+ * audit log with the acting operator before it returns.
+ */
+export class AdminControls {
+  private state: PersistedAdminState = {paused: false, signerBans: {}, gasPolicy: {}};
+  private readonly now: () => number;
+
+  constructor(private readonly deps: AdminControlsDeps) {
+    this.now = deps.now ?? Date.now;
+  }
+
+  /** Applies persisted overrides on top of the configured defaults. */
+  async restore(): Promise<void> {
+    this.state = (await this.deps.store.load()) ?? this.state;
+    const {gasPolicy, rateLimiter} = this.deps;
+    if (this.state.paused) gasPolicy.pause();
+    for (const [signer, ban] of Object.entries(this.state.signerBans)) rateLimiter.banSigner(signer, ban.until);
+    gasPolicy.update(parseChanges(this.state.gasPolicy));
+  }
+
+  status(): {paused: boolean; signerBans: Record<string, SignerBan>; gasPolicy: GasPolicyConfig} {
+    const now = this.now();
+    const signerBans = Object.fromEntries(
+      Object.entries(this.state.signerBans).filter(([, ban]) => ban.until === undefined || ban.until > now)
+    );
+    return {paused: this.deps.gasPolicy.isPaused, signerBans, gasPolicy: this.deps.gasPolicy.config};
+  }
+
+  async pause(actor: string): Promise<void> {
+    this.deps.gasPolicy.pause();
+    this.state.paused = true;
+    await this.record(actor, "pause", {});
+  }
+
+  async resume(actor: string): Promise<void> {
+    this.deps.gasPolicy.resume();
+    this.state.paused = false;
+    await this.record(actor, "resume", {});
+  }
+
+  /** Bars `signer` for `durationSeconds`, or until unbanned when that is left out. */
+  async banSigner(
+    actor: string,
+    signer: string,
+    options: {durationSeconds?: number; reason?: string} = {}
+  ): Promise<SignerBan> {
+    const key = signer.toLowerCase();
+    const {durationSeconds, reason} = options;
+    const ban: SignerBan = {
+      ...(durationSeconds !== undefined && {until: this.now() + durationSeconds * 1000}),
+      ...(reason !== undefined && {reason})
+    };
+    this.deps.rateLimiter.banSigner(key, ban.until);
+    this.state.signerBans[key] = ban;
+    await this.record(actor, "ban signer", {signer: key, ...ban});
+    return ban;
+  }
+
+  /** Returns whether `signer` was banned. */
+  async unbanSigner(actor: string, signer: string): Promise<boolean> {
+    const key = signer.toLowerCase();
+    const wasBanned = this.deps.rateLimiter.unbanSigner(key);
+    delete this.state.signerBans[key];
+    await this.record(actor, "unban signer", {signer: key, wasBanned});
+    return wasBanned;
+  }
+
+  /** Role budgets are merged into the current ones; a role left out keeps its budget. */
+  async updateGasPolicy(actor: string, changes: GasPolicyChanges): Promise<GasPolicyConfig> {
+    const {gasPolicy} = this.deps;
+    const applied = {...changes};
+    if (changes.roleDailyGas) applied.roleDailyGas = {...gasPolicy.config.roleDailyGas, ...changes.roleDailyGas};
+    gasPolicy.update(applied);
+    this.state.gasPolicy = {...this.state.gasPolicy, ...serializeChanges(applied)};
+    await this.record(actor, "update gas policy", serializeChanges(changes));
+    return gasPolicy.config;
+  }
+
+  async drainQueue(actor: string): Promise<RelayJob[]> {
+    const drained = await this.deps.queue.drain(`drained by operator ${actor}`);
+    await this.record(actor, "drain queue", {jobIds: drained.map((job) => job.id)});
+    return drained;
+  }
+
+  usage(): Promise<PersistedGasUsage> {
+    return this.deps.gasPolicy.usageToday();
+  }
+
+  /** Persists the new state, then appends to the audit log; a failed write fails the action. */
+  private async record(actor: string, action: string, details: Record<string, unknown>): Promise<void> {
+    await this.deps.store.save(this.state);
+    await this.deps.audit.append({at: new Date(this.now()).toISOString(), actor, action, details});
+  }
+}
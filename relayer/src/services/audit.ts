@@ -0,0 +1,45 @@
+import {promises as fs} from "fs";
+import path from "path";
+
+/** One operator action, as recorded. */
+export interface AuditEntry {
+  /** ISO timestamp. */
+  at: string;
+  /** Name of the admin token used. */
+  actor: string;
+  action: string;
+  details: Record<string, unknown>;
+}
+
+/** Where admin actions are recorded. Entries are only ever appended. */
+export interface AuditLog {
+  append(entry: AuditEntry): Promise<void>;
+}
+
+export class MemoryAuditLog implements AuditLog {
+  readonly entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(JSON.parse(JSON.stringify(entry)) as AuditEntry);
+  }
+}
+
+/**
+ * JSON Lines file opened in append mode, so earlier entries are never
+ * rewritten. Appends are serialized to keep lines from interleaving.
+ */
+export class FileAuditLog implements AuditLog {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    const write = async () => {
+      await fs.mkdir(path.dirname(this.filePath), {recursive: true});
+      await fs.appendFile(this.filePath, line, {flag: "a"});
+    };
+    this.pending = this.pending.then(write, write);
+    return this.pending;
+  }
+}
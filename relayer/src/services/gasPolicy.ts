@@ -0,0 +1,257 @@
+import {id, type Provider} from "ethers";
+
+import {revertReason, type RelayMethod, type SupplyChain} from "../blockchain/supplyChain";
+import {HttpError} from "../http";
+import type {JsonStore} from "./store";
+
+/** Roles from SupplyChainRoles, checked in this order when a user holds several. */
+export const ROLES = ["MANUFACTURER", "DISTRIBUTOR", "INSPECTOR"] as const;
+export type RoleName = (typeof ROLES)[number];
+
+export interface GasPolicyConfig {
+  /** Methods sponsored at all; anything else is refused. */
+  allowedMethods: RelayMethod[];
+  /** Highest fee per gas (wei) the relayer will pay. */
+  maxGasPrice: bigint;
+  /** Hard gas limit per transaction; larger estimates are refused. */
+  maxGasPerTx: bigint;
+  /** Gas each user may consume per UTC day. */
+  userDailyGas: bigint;
+  /** Gas all holders of a role may consume together per UTC day. Roles left out are unbounded. */
+  roleDailyGas: Partial<Record<RoleName, bigint>>;
+}
+
+export type PolicyRefusal =
+  | "sponsorship paused"
+  | "method not sponsored"
+  | "gas price above cap"
+  | "gas limit above cap"
+  | "user daily budget exhausted"
+  | "role daily budget exhausted";
+
+export class PolicyError extends HttpError {
+  constructor(
+    readonly reason: PolicyRefusal,
+    details: Record<string, unknown> = {}
+  ) {
+    super(403, "sponsorship refused", {reason, ...details});
+    this.name = "PolicyError";
+  }
+}
+
+/** Refusal because the call is predicted to revert; `reason` is the SupplyChain custom error. */
+export class RevertPredictedError extends HttpError {
+  constructor(readonly reason: string) {
+    super(422, "transaction would revert", {reason});
+    this.name = "RevertPredictedError";
+  }
+}
+
+/** Fee fields to send the sponsored transaction with. */
+export type FeeOverrides = {gasPrice: bigint} | {maxFeePerGas: bigint; maxPriorityFeePerGas: bigint};
+
+export interface SponsorshipRequest {
+  method: RelayMethod;
+  /** Signer of the intent, who is charged for the gas. */
+  user: string;
+  /** eth_estimateGas for the exact call; rejects when the call would revert. */
+  estimateGas: () => Promise<bigint>;
+}
+
+export interface Sponsorship {
+  gasLimit: bigint;
+  fees: FeeOverrides;
+  role: RoleName | null;
+  /** Replaces the reservation with what the mined transaction actually used. */
+  settle(gasUsed: bigint, effectiveGasPrice: bigint): Promise<void>;
+  /** Returns the reservation when nothing was mined. */
+  cancel(): Promise<void>;
+}
+
+interface Spend {
+  gas: string;
+  wei: string;
+}
+
+export interface PersistedGasUsage {
+  /** UTC day the counters belong to, as YYYY-MM-DD. */
+  day: string;
+  users: Record<string, Spend>;
+  roles: Record<string, Spend>;
+}
+
+export type RoleResolver = (user: string) => Promise<RoleName | null>;
+
+/** Resolves a user's budget role from SupplyChain.hasRole. */
+export function supplyChainRoles(supplyChain: Pick<SupplyChain, "hasRole">): RoleResolver {
+  return async (user) => {
+    for (const role of ROLES) {
+      if (await supplyChain.hasRole(id(role), user)) return role;
+    }
+    return null;
+  };
+}
+
+function utcDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function add(spend: Spend | undefined, gas: bigint, wei: bigint): Spend {
+  // Settling a reservation made before midnight would otherwise drive the new day negative.
+  const total = BigInt(spend?.gas ?? "0") + gas;
+  return {
+    gas: (total > 0n ? total : 0n).toString(),
+    wei: (BigInt(spend?.wei ?? "0") + wei).toString()
+  };
+}
+
+export interface GasPolicyOptions {
+  provider: Pick<Provider, "getFeeData">;
+  roles: RoleResolver;
+  store: JsonStore<PersistedGasUsage>;
+  now?: () => Date;
+}
+
+/**
+ * Decides whether the relayer pays for a call. A request is sponsored only if
+ * its method is allowlisted, current fees are under the cap, the call is
+ * predicted to succeed within the per-transaction gas limit, and the gas limit
+ * fits in the signer's and their role's remaining daily budget. The gas limit
+ * is reserved up front so concurrent requests cannot overdraw a budget.
+ */
+export class GasPolicy {
+  private usage: PersistedGasUsage | undefined;
+  private current: GasPolicyConfig;
+  private paused = false;
+  private readonly now: () => Date;
+
+  constructor(
+    config: GasPolicyConfig,
+    private readonly options: GasPolicyOptions
+  ) {
+    this.current = config;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  get config(): GasPolicyConfig {
+    return this.current;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Refuses every sponsorship until resume(); transactions already sent are unaffected. */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  /** Replaces limits at runtime; reservations already made keep the limits they were checked against. */
+  update(changes: Partial<GasPolicyConfig>): void {
+    this.current = {...this.current, ...changes};
+  }
+
+  async authorize(request: SponsorshipRequest): Promise<Sponsorship> {
+    const {config} = this;
+    if (this.paused) throw new PolicyError("sponsorship paused");
+    if (!config.allowedMethods.includes(request.method)) {
+      throw new PolicyError("method not sponsored", {method: request.method});
+    }
+
+    const fees = await this.fees();
+
+    let gasLimit: bigint;
+    try {
+      gasLimit = await request.estimateGas();
+    } catch (err) {
+      const reason = revertReason(err);
+      if (reason) throw new RevertPredictedError(reason);
+      throw err;
+    }
+    if (gasLimit > config.maxGasPerTx) {
+      throw new PolicyError("gas limit above cap", {gasLimit: gasLimit.toString()});
+    }
+
+    const role = await this.options.roles(request.user);
+    const user = request.user.toLowerCase();
+    const usage = await this.currentUsage();
+
+    if (BigInt(usage.users[user]?.gas ?? "0") + gasLimit > config.userDailyGas) {
+      throw new PolicyError("user daily budget exhausted");
+    }
+    const roleBudget = role ? config.roleDailyGas[role] : undefined;
+    if (role && roleBudget !== undefined && BigInt(usage.roles[role]?.gas ?? "0") + gasLimit > roleBudget) {
+      throw new PolicyError("role daily budget exhausted", {role});
+    }
+
+    // Checked and reserved with no await in between, so concurrent requests see each other's reservations.
+    this.apply(usage, user, role, gasLimit, 0n);
+    await this.options.store.save(usage);
+
+    let open = true;
+    const release = async (gasUsed: bigint, wei: bigint) => {
+      if (!open) return;
+      open = false;
+      await this.charge(user, role, gasUsed - gasLimit, wei);
+    };
+    return {
+      gasLimit,
+      fees,
+      role,
+      settle: (gasUsed, effectiveGasPrice) => release(gasUsed, gasUsed * effectiveGasPrice),
+      cancel: () => release(0n, 0n)
+    };
+  }
+
+  /** Today's spend for a user, in gas units and wei. */
+  async spendOf(user: string): Promise<{gas: bigint; wei: bigint}> {
+    const spend = (await this.currentUsage()).users[user.toLowerCase()];
+    return {gas: BigInt(spend?.gas ?? "0"), wei: BigInt(spend?.wei ?? "0")};
+  }
+
+  /** Today's spend for every user and role that has any. */
+  async usageToday(): Promise<PersistedGasUsage> {
+    return JSON.parse(JSON.stringify(await this.currentUsage())) as PersistedGasUsage;
+  }
+
+  private async fees(): Promise<FeeOverrides> {
+    const {maxGasPrice} = this.config;
+    const feeData = await this.options.provider.getFeeData();
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      // maxFeePerGas includes headroom for base fee growth; only the going rate has to fit under the cap.
+      const current = feeData.gasPrice ?? feeData.maxFeePerGas;
+      if (current > maxGasPrice) throw new PolicyError("gas price above cap", {gasPrice: current.toString()});
+      const maxFeePerGas = feeData.maxFeePerGas < maxGasPrice ? feeData.maxFeePerGas : maxGasPrice;
+      const maxPriorityFeePerGas =
+        feeData.maxPriorityFeePerGas < maxFeePerGas ? feeData.maxPriorityFeePerGas : maxFeePerGas;
+      return {maxFeePerGas, maxPriorityFeePerGas};
+    }
+    const gasPrice = feeData.gasPrice ?? 0n;
+    if (gasPrice > maxGasPrice) throw new PolicyError("gas price above cap", {gasPrice: gasPrice.toString()});
+    return {gasPrice};
+  }
+
+  private async currentUsage(): Promise<PersistedGasUsage> {
+    const day = utcDay(this.now());
+    this.usage ??= await this.options.store.load();
+    if (!this.usage || this.usage.day !== day) {
+      this.usage = {day, users: {}, roles: {}};
+    }
+    return this.usage;
+  }
+
+  private apply(usage: PersistedGasUsage, user: string, role: RoleName | null, gas: bigint, wei: bigint): void {
+    usage.users[user] = add(usage.users[user], gas, wei);
+    if (role) usage.roles[role] = add(usage.roles[role], gas, wei);
+  }
+
+  private async charge(user: string, role: RoleName | null, gas: bigint, wei: bigint): Promise<void> {
+    const usage = await this.currentUsage();
+    this.apply(usage, user, role, gas, wei);
+    await this.options.store.save(usage);
+  }
+}
@@ -0,0 +1,240 @@
+import type {RelayMethod} from "../blockchain/supplyChain";
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length === 0 ? "" : `{${pairs.join(",")}}`;
+}
+
+/** Label values in a fixed order, so the same series always maps to the same key. */
+function seriesKey(names: readonly string[], labels: Labels): string {
+  return JSON.stringify(names.map((name) => labels[name] ?? ""));
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+abstract class LabelledMetric<V> implements Metric {
+  protected series = new Map<string, {labels: Labels; value: V}>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {}
+
+  protected entry(labels: Labels, initial: () => V): {labels: Labels; value: V} {
+    const key = seriesKey(this.labelNames, labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      const picked = Object.fromEntries(this.labelNames.map((name) => [name, labels[name] ?? ""]));
+      entry = {labels: picked, value: initial()};
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected header(type: string): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${type}`];
+  }
+
+  abstract render(): string[];
+}
+
+export class Counter extends LabelledMetric<number> {
+  inc(labels: Labels = {}, by = 1): void {
+    if (by < 0) throw new Error(`${this.name}: counters only go up`);
+    this.entry(labels, () => 0).value += by;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(this.labelNames, labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    const lines = this.header("counter");
+    for (const {labels, value} of this.series.values()) lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    return lines;
+  }
+}
+
+/** A value sampled when scraped; bigint keeps wei balances exact. */
+export class Gauge extends LabelledMetric<number | bigint> {
+  set(labels: Labels, value: number | bigint): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  /** Drops every series, e.g. before re-sampling a set of keys that may have shrunk. */
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines = this.header("gauge");
+    for (const {labels, value} of this.series.values()) lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    return lines;
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    /** Upper bounds, ascending; the +Inf bucket is implied. */
+    readonly bounds: readonly number[]
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({buckets: this.bounds.map(() => 0), sum: 0, count: 0})).value;
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i] += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  render(): string[] {
+    const lines = this.header("histogram");
+    for (const {labels, value} of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({...labels, le: String(bound)})} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({...labels, le: "+Inf"})} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/** Renders metrics in the Prometheus text exposition format (version 0.0.4). */
+export class MetricsRegistry {
+  static readonly CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[], bounds: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, bounds));
+  }
+
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`metric ${metric.name} registered twice`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/** Seconds from accepting a job to its first broadcast, and from accepting to mining. */
+const LATENCY_BUCKETS = [0.1, 0.5, 1, 2, 5, 10, 30, 60, 120, 300, 600];
+
+/**
+ * Everything the relayer exports on /metrics. Counters are fed by the relay
+ * queue as jobs move along; queue depth and wallet balances are sampled when
+ * scraped. User and key labels are lowercase addresses.
+ */
+export class RelayerMetrics {
+  readonly registry = new MetricsRegistry();
+
+  readonly jobsSubmitted = this.registry.counter(
+    "relayer_jobs_submitted_total",
+    "Jobs whose first transaction was broadcast.",
+    ["method"]
+  );
+  readonly jobsMined = this.registry.counter("relayer_jobs_mined_total", "Jobs mined successfully.", ["method"]);
+  readonly jobsFailed = this.registry.counter(
+    "relayer_jobs_failed_total",
+    "Jobs refused before sending or reverted on-chain.",
+    ["method"]
+  );
+  readonly jobsExpired = this.registry.counter(
+    "relayer_jobs_expired_total",
+    "Jobs dropped because the intent's deadline passed.",
+    ["method"]
+  );
+  readonly reverts = this.registry.counter(
+    "relayer_reverts_total",
+    "SupplyChain reverts by custom error; stage is precheck or estimate (refused before sending) or onchain.",
+    ["method", "reason", "stage"]
+  );
+  // Per signer would be a series per address ever seen; GET /admin/spend/:user answers that instead.
+  readonly gasByTenant = this.registry.counter(
+    "relayer_gas_used_by_tenant_total",
+    "Gas sponsored per tenant; the tenant is empty on a relayer without tenants.",
+    ["tenant"]
+  );
+  readonly gasByKey = this.registry.counter(
+    "relayer_gas_used_by_key_total",
+    "Gas paid per relayer key.",
+    ["relayer"]
+  );
+  readonly queueDepth = this.registry.gauge("relayer_queue_depth", "Unfinished jobs by status.", ["status"]);
+  readonly submitLatency = this.registry.histogram(
+    "relayer_job_submit_latency_seconds",
+    "Time from accepting a job to broadcasting its first transaction.",
+    ["method"],
+    LATENCY_BUCKETS
+  );
+  readonly mineLatency = this.registry.histogram(
+    "relayer_job_mine_latency_seconds",
+    "Time from accepting a job to its transaction being mined.",
+    ["method"],
+    LATENCY_BUCKETS
+  );
+  readonly walletBalance = this.registry.gauge(
+    "relayer_wallet_balance_wei",
+    "Balance of each relayer key at the last pool check.",
+    ["relayer", "state"]
+  );
+
+  submitted(method: RelayMethod, waitedMs: number): void {
+    this.jobsSubmitted.inc({method});
+    this.submitLatency.observe({method}, waitedMs / 1000);
+  }
+
+  mined(method: RelayMethod, waitedMs: number): void {
+    this.jobsMined.inc({method});
+    this.mineLatency.observe({method}, waitedMs / 1000);
+  }
+
+  reverted(method: RelayMethod, reason: string, stage: "precheck" | "estimate" | "onchain"): void {
+    this.reverts.inc({method, reason, stage});
+  }
+
+  gasUsed(tenant: string | undefined, relayer: string, gas: bigint): void {
+    this.gasByTenant.inc({tenant: tenant ?? ""}, Number(gas));
+    this.gasByKey.inc({relayer: relayer.toLowerCase()}, Number(gas));
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,222 @@
+import type {Provider} from "ethers";
+
+import type {SupplyChainClient} from "../blockchain/supplyChain";
+import {HttpError} from "../http";
+import type {JsonStore} from "./store";
+
+export type NonceRejection = "stale" | "duplicate" | "too far ahead";
+
+export class NonceError extends HttpError {
+  constructor(
+    readonly reason: NonceRejection,
+    readonly expectedNonce: bigint
+  ) {
+    super(409, `nonce ${reason}`, {reason, expectedNonce: expectedNonce.toString()});
+    this.name = "NonceError";
+  }
+}
+
+export type Admission = {status: "ready"} | {status: "queued"; expectedNonce: bigint};
+
+export interface PersistedUserNonces<T> {
+  users: Record<string, {inFlight: string[]; queued: Record<string, T>}>;
+}
+
+interface UserState<T> {
+  /** Nonces submitted on-chain whose transaction has not been mined yet. */
+  inFlight: Set<bigint>;
+  /** Intents that arrived ahead of their predecessors, keyed by nonce. */
+  queued: Map<bigint, T>;
+}
+
+/** Runs `fn` after every earlier call for the same key has settled. */
+class KeyedLock {
+  private tails = new Map<string, Promise<unknown>>();
+
+  run<R>(key: string, fn: () => Promise<R>): Promise<R> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(fn, fn);
+    const tail = result.catch(() => undefined);
+    this.tails.set(key, tail);
+    void tail.then(() => {
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    });
+    return result;
+  }
+}
+
+function maxOf(values: Iterable<bigint>, floor: bigint): bigint {
+  let max = floor;
+  for (const value of values) if (value > max) max = value;
+  return max;
+}
+
+/**
+ * Tracks SupplyChain.nonces per user so the relayer only submits the intent
+ * the contract will accept next. Intents a little ahead of the sequence are
+ * parked until their predecessors are mined; stale, duplicate and far-future
+ * nonces are refused outright. Parked intents are persisted.
+ */
+export class UserNonceManager<T> {
+  private users = new Map<string, UserState<T>>();
+  private loaded: Promise<void> | undefined;
+  private lock = new KeyedLock();
+
+  constructor(
+    private readonly supplyChain: Pick<SupplyChainClient, "nonces">,
+    private readonly store: JsonStore<PersistedUserNonces<T>>,
+    private readonly maxAhead = 8n
+  ) {}
+
+  /**
+   * Claims `nonce` for `user`. "ready" means the caller should submit now and
+   * report back through complete() or release(); "queued" means the payload
+   * is held until complete() hands it back.
+   */
+  admit(user: string, nonce: bigint, payload: T): Promise<Admission> {
+    return this.lock.run(user.toLowerCase(), async () => {
+      const state = await this.state(user);
+      const onChain = await this.supplyChain.nonces(user);
+      this.prune(state, onChain);
+
+      const expected = maxOf([...state.inFlight].map((n) => n + 1n), onChain);
+      if (nonce < onChain) throw new NonceError("stale", expected);
+      if (state.inFlight.has(nonce) || state.queued.has(nonce)) throw new NonceError("duplicate", expected);
+      if (nonce > expected + this.maxAhead) throw new NonceError("too far ahead", expected);
+
+      if (nonce === expected) {
+        state.inFlight.add(nonce);
+        await this.persist();
+        return {status: "ready"};
+      }
+      state.queued.set(nonce, payload);
+      await this.persist();
+      return {status: "queued", expectedNonce: expected};
+    });
+  }
+
+  /**
+   * Records that the intent for `nonce` was mined and consumed the nonce.
+   * Returns the queued payloads that are now next in line; they are marked
+   * in flight and must be submitted by the caller.
+   */
+  complete(user: string, nonce: bigint): Promise<T[]> {
+    return this.lock.run(user.toLowerCase(), async () => {
+      const state = await this.state(user);
+      state.inFlight.delete(nonce);
+
+      const ready: T[] = [];
+      // Later nonces still in flight will unblock the queue when they complete.
+      let next = state.inFlight.size === 0 ? nonce + 1n : -1n;
+      for (let payload = state.queued.get(next); payload !== undefined; payload = state.queued.get(next)) {
+        state.queued.delete(next);
+        state.inFlight.add(next);
+        ready.push(payload);
+        next += 1n;
+      }
+      await this.persist();
+      return ready;
+    });
+  }
+
+  /**
+   * Gives `nonce` back after a submission that did not consume it (send
+   * failure or revert), or drops an intent still parked for it.
+   */
+  release(user: string, nonce: bigint): Promise<void> {
+    return this.lock.run(user.toLowerCase(), async () => {
+      const state = await this.state(user);
+      const inFlight = state.inFlight.delete(nonce);
+      if (state.queued.delete(nonce) || inFlight) await this.persist();
+    });
+  }
+
+  async queuedNonces(user: string): Promise<bigint[]> {
+    const state = await this.state(user);
+    return [...state.queued.keys()].sort((a, b) => (a < b ? -1 : 1));
+  }
+
+  private prune(state: UserState<T>, onChain: bigint): void {
+    for (const nonce of state.inFlight) if (nonce < onChain) state.inFlight.delete(nonce);
+    for (const nonce of state.queued.keys()) if (nonce < onChain) state.queued.delete(nonce);
+  }
+
+  private async state(user: string): Promise<UserState<T>> {
+    this.loaded ??= this.load();
+    await this.loaded;
+    const key = user.toLowerCase();
+    let state = this.users.get(key);
+    if (!state) {
+      state = {inFlight: new Set(), queued: new Map()};
+      this.users.set(key, state);
+    }
+    return state;
+  }
+
+  private async load(): Promise<void> {
+    const persisted = await this.store.load();
+    for (const [user, state] of Object.entries(persisted?.users ?? {})) {
+      this.users.set(user, {
+        inFlight: new Set(state.inFlight.map(BigInt)),
+        queued: new Map(Object.entries(state.queued).map(([nonce, payload]) => [BigInt(nonce), payload]))
+      });
+    }
+  }
+
+  private persist(): Promise<void> {
+    const users: PersistedUserNonces<T>["users"] = {};
+    for (const [user, state] of this.users) {
+      if (state.inFlight.size === 0 && state.queued.size === 0) continue;
+      users[user] = {
+        inFlight: [...state.inFlight].map(String),
+        queued: Object.fromEntries([...state.queued].map(([nonce, payload]) => [nonce.toString(), payload]))
+      };
+    }
+    return this.store.save({users});
+  }
+}
+
+export interface PersistedAccountNonce {
+  next: number;
+}
+
+/**
+ * Hands out transaction nonces for one relayer sending account so concurrent
+ * submissions never reuse a nonce. After a transaction fails to broadcast or
+ * is dropped, resync() falls back to the node's pending count so the gap it
+ * left is filled by the next submission.
+ */
+export class AccountNonceManager {
+  private next: number | undefined;
+  private lock = new KeyedLock();
+
+  constructor(
+    private readonly provider: Pick<Provider, "getTransactionCount">,
+    readonly address: string,
+    private readonly store: JsonStore<PersistedAccountNonce>
+  ) {}
+
+  allocate(): Promise<number> {
+    return this.lock.run(this.address, async () => {
+      if (this.next === undefined) {
+        // The persisted counter covers transactions a load-balanced RPC has not seen yet.
+        const [persisted, pending] = await Promise.all([
+          this.store.load(),
+          this.provider.getTransactionCount(this.address, "pending")
+        ]);
+        this.next = Math.max(persisted?.next ?? 0, pending);
+      }
+      const nonce = this.next;
+      this.next += 1;
+      await this.store.save({next: this.next});
+      return nonce;
+    });
+  }
+
+  resync(): Promise<void> {
+    return this.lock.run(this.address, async () => {
+      this.next = await this.provider.getTransactionCount(this.address, "pending");
+      await this.store.save({next: this.next});
+    });
+  }
+}
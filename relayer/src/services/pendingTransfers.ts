@@ -0,0 +1,82 @@
+import type {Provider} from "ethers";
+
+import type {PendingTransfer, SupplyChainClient} from "../blockchain/supplyChain";
+
+export interface PendingTransfersConfig {
+  /** Block SupplyChain was deployed in, where the first sync starts. */
+  fromBlock: number;
+  /** Most blocks read in one eth_getLogs call; hosted RPCs refuse wider ranges. */
+  blockRange: number;
+}
+
+export interface PendingTransfersDeps {
+  supplyChain: Pick<SupplyChainClient, "transferEvents">;
+  provider: Pick<Provider, "getBlock" | "getBlockNumber">;
+}
+
+interface Entry {
+  to: string;
+  blockNumber: number;
+  /** Looked up once the transfer is first asked for. */
+  initiatedAt?: Promise<bigint>;
+}
+
+/**
+ * The transfer awaiting acceptance for every product, which SupplyChain keeps
+ * private, rebuilt from its events. The first sync backfills from
+ * `fromBlock`; later ones only read the blocks mined since, in both cases at
+ * most `blockRange` blocks per call. A transfer past TRANSFER_TIMEOUT is still
+ * returned, since the contract only drops it on the next initiate; the caller
+ * judges the timeout.
+ */
+export class PendingTransfers {
+  private readonly pending = new Map<string, Entry>();
+  private next: number;
+  private syncing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly deps: PendingTransfersDeps,
+    readonly config: PendingTransfersConfig
+  ) {
+    this.next = config.fromBlock;
+  }
+
+  /** The product's pending transfer as of the chain head. */
+  async get(productId: bigint): Promise<PendingTransfer | null> {
+    await this.sync();
+    const entry = this.pending.get(productId.toString());
+    if (!entry) return null;
+    entry.initiatedAt ??= this.timestamp(entry.blockNumber).catch((err) => {
+      entry.initiatedAt = undefined;
+      throw err;
+    });
+    return {to: entry.to, initiatedAt: await entry.initiatedAt};
+  }
+
+  /** Reads the events up to the chain head, after any sync still running so ranges apply in order. */
+  sync(): Promise<void> {
+    const run = this.syncing.catch(() => undefined).then(() => this.catchUp());
+    this.syncing = run;
+    return run;
+  }
+
+  private async catchUp(): Promise<void> {
+    const head = await this.deps.provider.getBlockNumber();
+    while (this.next <= head) {
+      const to = Math.min(this.next + this.config.blockRange - 1, head);
+      for (const event of await this.deps.supplyChain.transferEvents(this.next, to)) {
+        const key = event.productId.toString();
+        if (event.to === null) this.pending.delete(key);
+        else this.pending.set(key, {to: event.to, blockNumber: event.blockNumber});
+      }
+      // Only past a range that was read in full, so a failed call is retried from where it started.
+      this.next = to + 1;
+    }
+  }
+
+  private async timestamp(blockNumber: number): Promise<bigint> {
+    const block = await this.deps.provider.getBlock(blockNumber);
+    if (!block) throw new Error(`block ${blockNumber} not found`);
+    return BigInt(block.timestamp);
+  }
+}
@@ -0,0 +1,171 @@
+import type {BaseContract, Provider} from "ethers";
+
+import {
+  ProductNotFoundError,
+  type PendingTransfer,
+  type SupplyChainClient,
+  type SupplyChainErrorName
+} from "../blockchain/supplyChain";
+import {HttpError} from "../http";
+import type {RelayIntent} from "../intents";
+import {PendingTransfers, type PendingTransfersConfig} from "./pendingTransfers";
+
+export interface PrecheckConfig extends PendingTransfersConfig {
+  /** How long a product's state is reused; events about the product drop it sooner. */
+  cacheTtlMs: number;
+}
+
+/** Mirrors the guards of SupplyChain._initiateTransfer and _acceptTransfer, in the same order. */
+export type PrecheckRefusal =
+  | "product not found"
+  | "not owner"
+  | "transfer already pending"
+  | "invalid receiver"
+  | "dispute active"
+  | "no pending transfer"
+  | "transfer expired"
+  | "not receiver";
+
+/** The custom error SupplyChain reverts with for each refusal. */
+const REVERTS: Record<PrecheckRefusal, SupplyChainErrorName> = {
+  "product not found": "ProductNotFound",
+  "not owner": "NotAuthorized",
+  "transfer already pending": "TransferAlreadyPending",
+  "invalid receiver": "InvalidReceiver",
+  // The contract reuses DisputeNotActive for a transfer blocked by an open dispute.
+  "dispute active": "DisputeNotActive",
+  "no pending transfer": "NoPendingTransfer",
+  "transfer expired": "DeadlineExpired",
+  "not receiver": "NotAuthorized"
+};
+
+export class PrecheckError extends HttpError {
+  readonly revert: SupplyChainErrorName;
+
+  constructor(
+    readonly reason: PrecheckRefusal,
+    details: Record<string, unknown> = {}
+  ) {
+    super(422, "transfer would revert", {reason, revert: REVERTS[reason], ...details});
+    this.name = "PrecheckError";
+    this.revert = REVERTS[reason];
+  }
+}
+
+export interface ProductState {
+  /** Null when the product was never minted. */
+  owner: string | null;
+  disputeActive: boolean;
+  pending: PendingTransfer | null;
+  /** Chain time (seconds) the state was read at, against which the transfer timeout is judged. */
+  readAt: bigint;
+}
+
+export interface ProductPrechecksDeps {
+  supplyChain: Pick<
+    SupplyChainClient,
+    "contract" | "ownerOf" | "isDisputeActive" | "transferEvents" | "transferTimeout"
+  >;
+  provider: Pick<Provider, "getBlock" | "getBlockNumber">;
+  /** Clock in milliseconds; defaults to Date.now. */
+  now?: () => number;
+}
+
+/** Events after which a product's cached state is stale. All carry the product id first. */
+const INVALIDATING_EVENTS = ["TransferInitiated", "TransferAccepted", "DisputeRaised", "DisputeResolved"] as const;
+
+/**
+ * Refuses intents that would obviously revert before they are sent, with
+ * the reason SupplyChain would revert for: ownership, pending transfers and
+ * their timeout, and disputes. Product state is cached for `cacheTtlMs` and
+ * dropped early when SupplyChain emits an event for the product or one of
+ * the relayer's own jobs is mined. The gas estimate at send time remains
+ * the backstop for anything that changed in between.
+ */
+export class ProductPrechecks {
+  private readonly cache = new Map<string, {state: Promise<ProductState>; expiresAt: number}>();
+  private timeout: Promise<bigint> | undefined;
+  private readonly transfers: PendingTransfers;
+  private readonly now: () => number;
+  private readonly listener = (productId: bigint) => this.invalidate(productId);
+
+  constructor(
+    private readonly deps: ProductPrechecksDeps,
+    readonly config: PrecheckConfig
+  ) {
+    this.now = deps.now ?? Date.now;
+    this.transfers = new PendingTransfers(deps, config);
+  }
+
+  /** Throws a PrecheckError when `intent` would hit one of the transfer guards. */
+  async check(intent: RelayIntent): Promise<void> {
+    const state = await this.state(intent.productId);
+    const timeout = await (this.timeout ??= this.deps.supplyChain.transferTimeout());
+    const pending = state.pending && state.readAt <= state.pending.initiatedAt + timeout ? state.pending : null;
+    const user = intent.user.toLowerCase();
+    const productId = intent.productId.toString();
+
+    if (state.owner === null) throw new PrecheckError("product not found", {productId});
+    if (intent.method === "acceptTransferWithSig") {
+      if (!state.pending) throw new PrecheckError("no pending transfer", {productId});
+      if (!pending) throw new PrecheckError("transfer expired", {productId});
+      if (pending.to.toLowerCase() !== user) throw new PrecheckError("not receiver", {productId, receiver: pending.to});
+    } else {
+      if (state.owner.toLowerCase() !== user) throw new PrecheckError("not owner", {productId, owner: state.owner});
+      if (pending) throw new PrecheckError("transfer already pending", {productId, receiver: pending.to});
+      if (intent.to.toLowerCase() === user || BigInt(intent.to) === 0n) {
+        throw new PrecheckError("invalid receiver", {productId});
+      }
+    }
+    if (state.disputeActive) throw new PrecheckError("dispute active", {productId});
+  }
+
+  /** The product's owner, dispute and pending transfer, from the cache while it is fresh. */
+  state(productId: bigint): Promise<ProductState> {
+    const key = productId.toString();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > this.now()) return cached.state;
+
+    const state = this.read(productId);
+    this.cache.set(key, {state, expiresAt: this.now() + this.config.cacheTtlMs});
+    // A failed read is not cached, so the next request tries the chain again.
+    state.catch(() => {
+      if (this.cache.get(key)?.state === state) this.cache.delete(key);
+    });
+    return state;
+  }
+
+  invalidate(productId: bigint): void {
+    this.cache.delete(productId.toString());
+  }
+
+  /**
+   * Starts dropping cached state when SupplyChain emits an event for a
+   * product, and backfills pending transfers in the background; checks that
+   * come in meanwhile wait for it.
+   */
+  async watch(): Promise<void> {
+    const contract = this.deps.supplyChain.contract as unknown as BaseContract;
+    for (const event of INVALIDATING_EVENTS) await contract.on(event, this.listener);
+    this.transfers.sync().catch((err) => console.warn("relayer: backfilling pending transfers failed", err));
+  }
+
+  async close(): Promise<void> {
+    const contract = this.deps.supplyChain.contract as unknown as BaseContract;
+    for (const event of INVALIDATING_EVENTS) await contract.off(event, this.listener);
+  }
+
+  private async read(productId: bigint): Promise<ProductState> {
+    const {supplyChain, provider} = this.deps;
+    const [owner, disputeActive, pending, block] = await Promise.all([
+      supplyChain.ownerOf(productId).catch((err) => {
+        if (err instanceof ProductNotFoundError) return null;
+        throw err;
+      }),
+      supplyChain.isDisputeActive(productId),
+      this.transfers.get(productId),
+      provider.getBlock("latest")
+    ]);
+    return {owner, disputeActive, pending, readAt: BigInt(block?.timestamp ?? Math.floor(this.now() / 1000))};
+  }
+}
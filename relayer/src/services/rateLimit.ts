@@ -0,0 +1,190 @@
+import {HttpError} from "../http";
+
+/** Token bucket: `capacity` requests in a burst, refilled at `refillPerMinute`. */
+export interface BucketConfig {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+/** Temporary ban for a client that keeps sending intents with bad signatures. */
+export interface BanConfig {
+  /** Invalid signatures tolerated within `windowSeconds` before the ban starts. */
+  maxInvalidSignatures: number;
+  windowSeconds: number;
+  banSeconds: number;
+}
+
+export interface RateLimitConfig {
+  signer: BucketConfig;
+  ip: BucketConfig;
+  product: BucketConfig;
+  ban: BanConfig;
+}
+
+export type LimitScope = "signer" | "ip" | "product";
+
+export class RateLimitError extends HttpError {
+  constructor(
+    readonly scope: LimitScope | "banned",
+    /** Whole seconds until a retry can succeed; also sent as Retry-After. */
+    readonly retryAfter: number
+  ) {
+    const message = scope === "banned" ? "temporarily banned" : "rate limited";
+    super(429, message, {scope, retryAfter}, {"Retry-After": String(retryAfter)});
+    this.name = "RateLimitError";
+  }
+}
+
+/** A signer an operator has barred from sponsorship. */
+export class SignerBannedError extends HttpError {
+  constructor(readonly signer: string) {
+    super(403, "signer banned", {signer});
+    this.name = "SignerBannedError";
+  }
+}
+
+/**
+ * Where limiter state lives. The in-memory store suits a single relayer
+ * process; a shared store (e.g. Redis) lets several instances enforce one
+ * limit. `update` must be atomic per key.
+ */
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | undefined>;
+  /** Replaces the value at `key` with `update(current)`; the entry may be dropped after `ttlMs`. */
+  update<T>(key: string, ttlMs: number, update: (current: T | undefined) => T): Promise<T>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, {value: unknown; expiresAt: number}>();
+  private writes = 0;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.read<T>(key);
+  }
+
+  async update<T>(key: string, ttlMs: number, update: (current: T | undefined) => T): Promise<T> {
+    // Read and write without yielding in between, which is what makes this atomic.
+    const value = update(this.read<T>(key));
+    this.entries.set(key, {value, expiresAt: this.now() + ttlMs});
+    // Keys are attacker-chosen (IPs, addresses), so expired ones must not pile up.
+    if (++this.writes % 1024 === 0) this.sweep();
+    return value;
+  }
+
+  private read<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  private sweep(): void {
+    const now = this.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+interface BucketState {
+  tokens: number;
+  /** Milliseconds since epoch of the last refill. */
+  updatedAt: number;
+}
+
+interface BanState {
+  /** Times of recent invalid signatures, in milliseconds. */
+  strikes: number[];
+  bannedUntil: number;
+}
+
+export interface RateLimiterOptions {
+  store?: RateLimitStore;
+  /** Clock in milliseconds; defaults to Date.now. */
+  now?: () => number;
+}
+
+/**
+ * Token-bucket limits per client IP, per signer and per product, plus
+ * temporary IP bans after repeated invalid signatures. Bans key on the IP,
+ * never on the claimed signer, so nobody can get a victim banned by sending
+ * garbage in their name.
+ */
+export class RateLimiter {
+  /** Operator bans by lowercase signer, to the millisecond they lapse (Infinity for indefinite). */
+  private readonly signerBans = new Map<string, number>();
+  private readonly store: RateLimitStore;
+  private readonly now: () => number;
+
+  constructor(
+    readonly config: RateLimitConfig,
+    options: RateLimiterOptions = {}
+  ) {
+    this.now = options.now ?? Date.now;
+    this.store = options.store ?? new MemoryRateLimitStore(this.now);
+  }
+
+  /** Takes one token from the bucket for `key`, or throws with the wait until one is available. */
+  async take(scope: LimitScope, key: string): Promise<void> {
+    const {capacity, refillPerMinute} = this.config[scope];
+    const perMs = refillPerMinute / 60_000;
+    const now = this.now();
+    let allowed = false;
+
+    const state = await this.store.update<BucketState>(
+      `${scope}:${key.toLowerCase()}`,
+      Math.ceil(capacity / perMs),
+      (current) => {
+        const elapsed = current ? Math.max(0, now - current.updatedAt) : 0;
+        const tokens = current ? Math.min(capacity, current.tokens + elapsed * perMs) : capacity;
+        allowed = tokens >= 1;
+        return {tokens: allowed ? tokens - 1 : tokens, updatedAt: now};
+      }
+    );
+
+    if (!allowed) {
+      throw new RateLimitError(scope, Math.max(1, Math.ceil((1 - state.tokens) / perMs / 1000)));
+    }
+  }
+
+  async checkBan(ip: string): Promise<void> {
+    const ban = await this.store.get<BanState>(`ban:${ip}`);
+    const remaining = ban ? ban.bannedUntil - this.now() : 0;
+    if (remaining > 0) throw new RateLimitError("banned", Math.ceil(remaining / 1000));
+  }
+
+  /** Bars an authenticated signer until `until` (milliseconds since epoch), or indefinitely. */
+  banSigner(signer: string, until = Infinity): void {
+    this.signerBans.set(signer.toLowerCase(), until);
+  }
+
+  /** Returns whether `signer` was banned. */
+  unbanSigner(signer: string): boolean {
+    return this.signerBans.delete(signer.toLowerCase());
+  }
+
+  checkSigner(signer: string): void {
+    const until = this.signerBans.get(signer.toLowerCase());
+    if (until === undefined) return;
+    if (until > this.now()) throw new SignerBannedError(signer);
+    this.signerBans.delete(signer.toLowerCase());
+  }
+
+  /** Counts a bad signature from `ip`; the one that crosses the threshold starts the ban. */
+  async recordInvalidSignature(ip: string): Promise<void> {
+    const {maxInvalidSignatures, windowSeconds, banSeconds} = this.config.ban;
+    const now = this.now();
+    await this.store.update<BanState>(`ban:${ip}`, Math.max(windowSeconds, banSeconds) * 1000, (current) => {
+      const strikes = [...(current?.strikes ?? []).filter((t) => t > now - windowSeconds * 1000), now];
+      if (strikes.length >= maxInvalidSignatures) {
+        return {strikes: [], bannedUntil: now + banSeconds * 1000};
+      }
+      return {strikes, bannedUntil: current?.bannedUntil ?? 0};
+    });
+  }
+}
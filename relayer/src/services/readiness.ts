@@ -0,0 +1,79 @@
+import type {Provider} from "ethers";
+
+import type {RelayQueue} from "./relayQueue";
+import type {WalletPool} from "./walletPool";
+
+export interface ReadinessConfig {
+  /** A submitted or ready job that has not moved for this long counts as stalled. */
+  stalledJobMs: number;
+}
+
+export interface ReadinessDeps extends ReadinessConfig {
+  provider: Pick<Provider, "getNetwork" | "getCode">;
+  chainId: bigint;
+  supplyChainAddress: string;
+  wallets: Pick<WalletPool, "statuses">;
+  queue: Pick<RelayQueue, "stalled">;
+  /** How long each check may take before it counts as failed. */
+  timeoutMs?: number;
+}
+
+export interface CheckResult {
+  ok: boolean;
+  /** Why the check could not run, e.g. the RPC timing out. */
+  error?: string;
+  [detail: string]: unknown;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: {rpc: CheckResult; supplyChain: CheckResult; relayers: CheckResult; queue: CheckResult};
+}
+
+/** Runs `check`, turning a rejection or a hang longer than `timeoutMs` into a failed result. */
+async function guarded(timeoutMs: number, check: () => Promise<CheckResult>): Promise<CheckResult> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<CheckResult>((resolve) => {
+    timer = setTimeout(() => resolve({ok: false, error: `timed out after ${timeoutMs}ms`}), timeoutMs);
+  });
+  try {
+    return await Promise.race([check(), timeout]);
+  } catch (err) {
+    return {ok: false, error: err instanceof Error ? err.message : String(err)};
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Whether this instance can relay right now: the RPC answers on the expected
+ * chain, SupplyChain has code at its address, every relayer key is approved
+ * and funded above the pool's minimum, and no job is stuck. Key checks reuse
+ * the wallet pool's recent reads, so a probe does not hit the chain per key.
+ */
+export async function checkReadiness(deps: ReadinessDeps): Promise<ReadinessReport> {
+  const timeoutMs = deps.timeoutMs ?? 5_000;
+  const [rpc, supplyChain, relayers, queue] = await Promise.all([
+    guarded(timeoutMs, async () => {
+      const {chainId} = await deps.provider.getNetwork();
+      return {ok: chainId === deps.chainId, chainId: chainId.toString(), expected: deps.chainId.toString()};
+    }),
+    guarded(timeoutMs, async () => {
+      const deployed = (await deps.provider.getCode(deps.supplyChainAddress)) !== "0x";
+      return {ok: deployed, address: deps.supplyChainAddress};
+    }),
+    guarded(timeoutMs, async () => {
+      const statuses = await deps.wallets.statuses();
+      return {
+        ok: statuses.every(({state}) => state === "active"),
+        accounts: statuses.map(({address, state, balance}) => ({address, state, balance: balance.toString()}))
+      };
+    }),
+    guarded(timeoutMs, async () => {
+      const stalled = await deps.queue.stalled(deps.stalledJobMs);
+      return {ok: stalled.length === 0, stalledJobs: stalled.map((job) => job.id)};
+    })
+  ]);
+  const checks = {rpc, supplyChain, relayers, queue};
+  return {ready: Object.values(checks).every((check) => check.ok), checks};
+}
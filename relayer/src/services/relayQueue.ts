@@ -0,0 +1,479 @@
+import {randomUUID} from "crypto";
+import type {Provider, TransactionReceipt} from "ethers";
+
+import {decodeSupplyChainError, type RelayCall, type SupplyChainClient} from "../blockchain/supplyChain";
+import {HttpError} from "../http";
+import {parseRelayIntent, relayCall, serializeIntent, type RelayIntent, type SerializedIntent} from "../intents";
+import {RevertPredictedError, type FeeOverrides, type GasPolicy, type Sponsorship} from "./gasPolicy";
+import type {RelayerMetrics} from "./metrics";
+import type {UserNonceManager} from "./nonce";
+import {PrecheckError, type ProductPrechecks} from "./precheck";
+import type {SignatureVerifier} from "./signature";
+import type {JsonStore} from "./store";
+import type {TenantLedger} from "./tenants";
+import type {RelayerAccount, WalletPool} from "./walletPool";
+import type {WebhookNotifier} from "./webhooks";
+
+export type JobStatus = "queued" | "submitted" | "mined" | "failed" | "expired";
+
+export interface TxAttempt {
+  txHash: string;
+  /** Fee fields the transaction was sent with, in wei. */
+  fees: Record<string, string>;
+  /** Milliseconds since epoch. */
+  sentAt: number;
+}
+
+export interface RelayJob {
+  id: string;
+  /** EIP-712 digest of the intent; resends of the same signed intent resolve to this job. */
+  digest: string;
+  intent: SerializedIntent;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  /** Set while the job waits for the signer's earlier nonces to be relayed. */
+  waitingForNonce?: string;
+  /** Tenant charged for the gas, when the relayer is shared by several. */
+  tenant?: string;
+  /** Tenant whose API key submitted the intent; its webhook hears the outcome. */
+  submittedBy?: string;
+  /** Where the outcome is posted, as given with the request. */
+  webhookUrl?: string;
+  /** Relayer account the job was sent from. */
+  relayer?: string;
+  /** Relayer account nonce shared by every attempt, so a replacement supersedes the last one. */
+  accountNonce?: number;
+  gasLimit?: string;
+  attempts: TxAttempt[];
+  /** The attempt that was mined, if any. */
+  txHash?: string;
+  blockNumber?: number;
+  /** Why the job failed or expired: a SupplyChain error name or a relayer message. */
+  error?: string;
+}
+
+export interface PersistedJobs {
+  jobs: Record<string, RelayJob>;
+  /** Intent digest to the id of the latest job for it. */
+  byDigest?: Record<string, string>;
+}
+
+export interface QueueConfig {
+  /** How often submitted jobs are checked for a receipt. */
+  pollIntervalMs: number;
+  /** How long an attempt may stay unmined before it is replaced with higher fees. */
+  resubmitAfterMs: number;
+  /** Fee increase per replacement; nodes reject replacements below 10%. */
+  feeBumpPercent: number;
+}
+
+export interface RelayQueueDeps {
+  wallets: WalletPool;
+  provider: Pick<Provider, "getTransaction" | "getTransactionReceipt">;
+  verifier: SignatureVerifier;
+  gasPolicy: GasPolicy;
+  /** Per-signer nonce ordering; queued entries hold job ids. */
+  userNonces: UserNonceManager<string>;
+  store: JsonStore<PersistedJobs>;
+  metrics?: RelayerMetrics;
+  /** Monthly quotas for jobs carrying a tenant. */
+  tenants?: TenantLedger;
+  /** Told of every job that finishes. */
+  webhooks?: Pick<WebhookNotifier, "notify">;
+  /** Refuses jobs that would revert against the product's state; dropped from its cache once a job is mined. */
+  prechecks?: Pick<ProductPrechecks, "check" | "invalidate">;
+  /** Clock in milliseconds; defaults to Date.now. */
+  now?: () => number;
+}
+
+const TERMINAL: readonly JobStatus[] = ["mined", "failed", "expired"];
+
+/** Gas held for a transaction until its receipt shows what it really cost. */
+type Reservation = Pick<Sponsorship, "settle" | "cancel">;
+
+function describe(err: unknown): string {
+  const decoded = decodeSupplyChainError(err);
+  if (decoded) return decoded.errorName;
+  if (err instanceof HttpError) {
+    const reason = err.details.reason;
+    return typeof reason === "string" ? `${err.message}: ${reason}` : err.message;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+function bumpFees(fees: Record<string, string>, percent: number, cap: bigint): FeeOverrides | null {
+  const bump = (value: string) => {
+    const current = BigInt(value);
+    const raised = (current * BigInt(100 + percent) + 99n) / 100n;
+    return raised > cap ? cap : raised;
+  };
+  if (fees.gasPrice !== undefined) {
+    const gasPrice = bump(fees.gasPrice);
+    return gasPrice > BigInt(fees.gasPrice) ? {gasPrice} : null;
+  }
+  const maxFeePerGas = bump(fees.maxFeePerGas);
+  const priority = bump(fees.maxPriorityFeePerGas);
+  if (maxFeePerGas <= BigInt(fees.maxFeePerGas)) return null;
+  return {maxFeePerGas, maxPriorityFeePerGas: priority < maxFeePerGas ? priority : maxFeePerGas};
+}
+
+function stringifyFees(fees: FeeOverrides): Record<string, string> {
+  return Object.fromEntries(Object.entries(fees).map(([key, value]) => [key, value.toString()]));
+}
+
+/**
+ * Durable record of every accepted intent. A job is submitted once its
+ * signer's earlier nonces are through, then watched until it is mined: an
+ * attempt left pending for `resubmitAfterMs` is replaced at the same account
+ * nonce with bumped fees, up to the gas policy's price cap. Nothing is sent
+ * once the intent's deadline has passed; the job expires instead.
+ */
+export class RelayQueue {
+  private jobs = new Map<string, RelayJob>();
+  private byDigest = new Map<string, string>();
+  /** Queued jobs between leaving the nonce queue and their first broadcast. */
+  private starting = new Set<string>();
+  private loaded: Promise<void> | undefined;
+  private running = new Set<Promise<void>>();
+  private stopped = false;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly deps: RelayQueueDeps,
+    readonly config: QueueConfig
+  ) {
+    this.now = deps.now ?? Date.now;
+  }
+
+  /**
+   * Stores a verified intent as a job. When the signer's nonce is next in
+   * line the first transaction is sent before this resolves, so policy
+   * refusals and predicted reverts reach the caller; otherwise the job waits
+   * in "queued". A `tenant` is charged against its monthly quota; the
+   * outcome is posted to `webhookUrl` and to the `submittedBy` tenant's webhook.
+   */
+  async submit(
+    intent: RelayIntent,
+    options: {tenant?: string; submittedBy?: string; webhookUrl?: string} = {}
+  ): Promise<RelayJob> {
+    await this.load();
+    const digest = this.deps.verifier.digest(intent);
+    // Checked and claimed without awaiting in between, so concurrent resends cannot both get through.
+    const existing = this.live(digest);
+    if (existing) return existing;
+
+    const now = this.now();
+    const job: RelayJob = {
+      id: randomUUID(),
+      digest,
+      intent: serializeIntent(intent),
+      ...(options.tenant !== undefined && {tenant: options.tenant}),
+      ...(options.submittedBy !== undefined && {submittedBy: options.submittedBy}),
+      ...(options.webhookUrl !== undefined && {webhookUrl: options.webhookUrl}),
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+      attempts: []
+    };
+
+    this.jobs.set(job.id, job);
+    this.byDigest.set(digest, job.id);
+    let admission;
+    try {
+      admission = await this.deps.userNonces.admit(intent.user, intent.nonce, job.id);
+    } catch (err) {
+      this.jobs.delete(job.id);
+      this.byDigest.delete(digest);
+      throw err;
+    }
+    if (admission.status === "queued") job.waitingForNonce = admission.expectedNonce.toString();
+    await this.persist();
+
+    if (admission.status === "ready") await this.start(job);
+    return job;
+  }
+
+  async get(id: string): Promise<RelayJob | undefined> {
+    await this.load();
+    return this.jobs.get(id);
+  }
+
+  /**
+   * The job already relaying this signed intent, if any. Failed and expired
+   * jobs do not count, so a resend after a refusal gets a fresh attempt.
+   */
+  async find(intent: RelayIntent): Promise<RelayJob | undefined> {
+    await this.load();
+    return this.live(this.deps.verifier.digest(intent));
+  }
+
+  /** Jobs newest first, optionally only those in `status`. */
+  async list(status?: JobStatus): Promise<RelayJob[]> {
+    await this.load();
+    return [...this.jobs.values()]
+      .filter((job) => status === undefined || job.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Fails every job still waiting to be sent, handing its nonce back. Jobs
+   * already broadcast keep being watched, since their transactions cannot be
+   * recalled.
+   */
+  async drain(reason: string): Promise<RelayJob[]> {
+    await this.load();
+    const drained = [...this.jobs.values()].filter((job) => job.status === "queued" && !this.starting.has(job.id));
+    for (const job of drained) await this.finish(job, parseRelayIntent(job.intent), "failed", reason);
+    return drained;
+  }
+
+  /**
+   * Unfinished jobs that have not moved for `olderThanMs`: submitted jobs
+   * whose latest attempt was neither mined nor replaced, and queued jobs no
+   * longer waiting on an earlier nonce that were never sent. Jobs waiting on
+   * a nonce the signer has not relayed yet are not the queue's fault.
+   */
+  async stalled(olderThanMs: number): Promise<RelayJob[]> {
+    await this.load();
+    const cutoff = this.now() - olderThanMs;
+    return [...this.jobs.values()].filter((job) => {
+      if (job.status === "submitted") return job.attempts[job.attempts.length - 1].sentAt < cutoff;
+      return job.status === "queued" && job.waitingForNonce === undefined && job.updatedAt < cutoff;
+    });
+  }
+
+  /** Number of unfinished jobs in each state. */
+  async depth(): Promise<{queued: number; submitted: number}> {
+    await this.load();
+    const depth = {queued: 0, submitted: 0};
+    for (const job of this.jobs.values()) {
+      if (job.status === "queued" || job.status === "submitted") depth[job.status] += 1;
+    }
+    return depth;
+  }
+
+  /** Picks up jobs left unfinished by a previous process. */
+  async resume(): Promise<void> {
+    await this.load();
+    for (const job of this.jobs.values()) {
+      if (job.status === "submitted") {
+        // Reservation handles did not survive the restart; the reservations stand in for the spend.
+        if (job.relayer) this.deps.wallets.claim(job.relayer);
+        this.track(this.watch(job, parseRelayIntent(job.intent)));
+      } else if (job.status === "queued") {
+        const intent = parseRelayIntent(job.intent);
+        const waiting = await this.deps.userNonces.queuedNonces(intent.user);
+        if (!waiting.includes(intent.nonce)) this.track(this.start(job));
+      }
+    }
+  }
+
+  /** Stops watching jobs and waits for in-progress steps to settle. */
+  async close(): Promise<void> {
+    this.stopped = true;
+    await Promise.allSettled([...this.running]);
+  }
+
+  private async start(job: RelayJob): Promise<void> {
+    this.starting.add(job.id);
+    try {
+      await this.send(job);
+    } finally {
+      this.starting.delete(job.id);
+    }
+  }
+
+  private async send(job: RelayJob): Promise<void> {
+    const intent = parseRelayIntent(job.intent);
+    job.waitingForNonce = undefined;
+    job.updatedAt = this.now();
+    if (this.pastDeadline(intent)) {
+      await this.finish(job, intent, "expired", "deadline passed before submission");
+      return;
+    }
+
+    const call = relayCall(intent);
+    const holds: Reservation[] = [];
+    try {
+      this.deps.verifier.verify(intent);
+      // Checked only now that earlier nonces are through, since those intents may be what makes this one valid.
+      await this.deps.prechecks?.check(intent);
+      const account = await this.deps.wallets.acquire();
+      job.relayer = account.address;
+      // Policy checks (including the revert-predicting estimate) run before a
+      // sending nonce is allocated, so a refusal never leaves a gap.
+      const sponsorship = await this.deps.gasPolicy.authorize({
+        method: call.method,
+        user: intent.user,
+        estimateGas: () => account.supplyChain.estimateGas(call)
+      });
+      holds.push(sponsorship);
+      if (job.tenant !== undefined && this.deps.tenants) {
+        holds.push(await this.deps.tenants.reserve(job.tenant, sponsorship.gasLimit));
+      }
+      job.accountNonce = await account.accountNonces.allocate();
+      job.gasLimit = sponsorship.gasLimit.toString();
+      try {
+        await this.broadcast(job, account, call, sponsorship.fees);
+      } catch (err) {
+        await account.accountNonces.resync();
+        throw err;
+      }
+    } catch (err) {
+      for (const hold of holds) await hold.cancel();
+      if (err instanceof RevertPredictedError) this.deps.metrics?.reverted(intent.method, err.reason, "estimate");
+      if (err instanceof PrecheckError) this.deps.metrics?.reverted(intent.method, err.revert, "precheck");
+      await this.finish(job, intent, "failed", describe(err));
+      throw err;
+    }
+    this.track(this.watch(job, intent, holds));
+  }
+
+  private async broadcast(job: RelayJob, account: RelayerAccount, call: RelayCall, fees: FeeOverrides): Promise<void> {
+    const overrides = {nonce: job.accountNonce, gasLimit: BigInt(job.gasLimit!), ...fees};
+    const tx = await account.supplyChain.send(call, overrides);
+    job.attempts.push({txHash: tx.hash, fees: stringifyFees(fees), sentAt: this.now()});
+    if (job.attempts.length === 1) this.deps.metrics?.submitted(call.method, this.now() - job.createdAt);
+    job.status = "submitted";
+    job.updatedAt = this.now();
+    await this.persist();
+  }
+
+  private async watch(job: RelayJob, intent: RelayIntent, holds: Reservation[] = []): Promise<void> {
+    const {resubmitAfterMs, pollIntervalMs} = this.config;
+    // Undefined when the key was removed from the config since the job was sent.
+    const account = job.relayer ? this.deps.wallets.account(job.relayer) : undefined;
+    while (!this.stopped) {
+      const receipt = await this.minedReceipt(job, account);
+      if (receipt) {
+        for (const hold of holds) await hold.settle(receipt.gasUsed, receipt.gasPrice);
+        this.deps.metrics?.gasUsed(job.tenant, receipt.from, receipt.gasUsed);
+        job.txHash = receipt.hash;
+        job.blockNumber = receipt.blockNumber;
+        if (receipt.status === 1) {
+          await this.finish(job, intent, "mined");
+        } else {
+          const sent = await this.deps.provider.getTransaction(receipt.hash);
+          const reason = sent
+            ? await this.reader(account).revertOf({...sent, blockNumber: receipt.blockNumber})
+            : null;
+          this.deps.metrics?.reverted(intent.method, reason?.errorName ?? "unknown", "onchain");
+          await this.finish(job, intent, "failed", reason?.errorName ?? "reverted");
+        }
+        return;
+      }
+
+      const last = job.attempts[job.attempts.length - 1];
+      if (this.now() - last.sentAt >= resubmitAfterMs) {
+        if (this.pastDeadline(intent)) {
+          // Whatever is still pending would revert with DeadlineExpired; hand its nonce back.
+          for (const hold of holds) await hold.cancel();
+          await account?.accountNonces.resync();
+          await this.finish(job, intent, "expired", "deadline passed before the transaction was mined");
+          return;
+        }
+        if (account) await this.replace(job, account, intent, last);
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  private async replace(job: RelayJob, account: RelayerAccount, intent: RelayIntent, last: TxAttempt): Promise<void> {
+    const fees = bumpFees(last.fees, this.config.feeBumpPercent, this.deps.gasPolicy.config.maxGasPrice);
+    if (!fees) return;
+    try {
+      await this.broadcast(job, account, relayCall(intent), fees);
+    } catch (err) {
+      // Typically "nonce too low" because an earlier attempt just got mined; the next poll finds it.
+      console.warn(`relayer: replacing job ${job.id} failed: ${describe(err)}`);
+    }
+  }
+
+  private async minedReceipt(job: RelayJob, account: RelayerAccount | undefined): Promise<TransactionReceipt | null> {
+    const {confirmations} = this.reader(account);
+    for (const attempt of [...job.attempts].reverse()) {
+      const receipt = await this.deps.provider.getTransactionReceipt(attempt.txHash);
+      if (receipt && (await receipt.confirmations()) >= confirmations) return receipt;
+    }
+    return null;
+  }
+
+  /** Client for reads about a job, falling back to any pool account when its own key is gone. */
+  private reader(account: RelayerAccount | undefined): SupplyChainClient {
+    return (account ?? this.deps.wallets.accounts[0]).supplyChain;
+  }
+
+  /** Records the outcome, announces it and moves the signer's nonce sequence on. */
+  private async finish(job: RelayJob, intent: RelayIntent, status: JobStatus, error?: string): Promise<void> {
+    job.status = status;
+    job.error = error;
+    job.updatedAt = this.now();
+    await this.persist();
+    // Contract events would drop it too, but only after the next poll; the next intent may already be here.
+    if (job.blockNumber !== undefined) this.deps.prechecks?.invalidate(intent.productId);
+    if (job.relayer) this.deps.wallets.release(job.relayer);
+    this.record(job, intent);
+
+    const {userNonces} = this.deps;
+    if (status !== "mined") {
+      await userNonces.release(intent.user, intent.nonce);
+    } else {
+      for (const nextId of await userNonces.complete(intent.user, intent.nonce)) {
+        const next = this.jobs.get(nextId);
+        if (!next || TERMINAL.includes(next.status)) continue;
+        this.track(this.start(next));
+      }
+    }
+    await this.notify(job);
+  }
+
+  /** Queues the job's callbacks last, and never lets a store failure there undo the bookkeeping above. */
+  private async notify(job: RelayJob): Promise<void> {
+    try {
+      await this.deps.webhooks?.notify(job);
+    } catch (err) {
+      console.error(`relayer: could not queue the webhook for job ${job.id}`, err);
+    }
+  }
+
+  private record(job: RelayJob, intent: RelayIntent): void {
+    const {metrics} = this.deps;
+    if (!metrics) return;
+    const {method} = intent;
+    if (job.status === "mined") metrics.mined(method, job.updatedAt - job.createdAt);
+    else if (job.status === "failed") metrics.jobsFailed.inc({method});
+    else if (job.status === "expired") metrics.jobsExpired.inc({method});
+  }
+
+  private live(digest: string): RelayJob | undefined {
+    const id = this.byDigest.get(digest);
+    const job = id ? this.jobs.get(id) : undefined;
+    return job && job.status !== "failed" && job.status !== "expired" ? job : undefined;
+  }
+
+  private pastDeadline(intent: RelayIntent): boolean {
+    return intent.deadline * 1000n < BigInt(this.now());
+  }
+
+  private track(work: Promise<void>): void {
+    const tracked = work.catch((err) => {
+      console.error("relayer: relay job failed", err);
+    });
+    this.running.add(tracked);
+    void tracked.then(() => this.running.delete(tracked));
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      const persisted = await this.deps.store.load();
+      for (const job of Object.values(persisted?.jobs ?? {})) this.jobs.set(job.id, job);
+      for (const [digest, id] of Object.entries(persisted?.byDigest ?? {})) this.byDigest.set(digest, id);
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    return this.deps.store.save({jobs: Object.fromEntries(this.jobs), byDigest: Object.fromEntries(this.byDigest)});
+  }
+}
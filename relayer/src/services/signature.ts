@@ -0,0 +1,143 @@
+import {getAddress, id, TypedDataEncoder, verifyTypedData, type TypedDataDomain, type TypedDataField} from "ethers";
+
+import type {SupplyChainClient} from "../blockchain/supplyChain";
+import {ValidationError} from "../http";
+import type {AcceptTransferIntent, MetaTxIntent, RelayIntent} from "../intents";
+
+// Mirrors EIP712("SupplyChain", "1") and the typehashes in SupplyChain.sol.
+export const DOMAIN_NAME = "SupplyChain";
+export const DOMAIN_VERSION = "1";
+
+export const INITIATE_TRANSFER_TYPEHASH = id(
+  "InitiateTransfer(uint256 productId,address to,bytes32 locationHash,uint256 nonce,uint256 deadline)"
+);
+export const ACCEPT_TRANSFER_TYPEHASH = id("AcceptTransfer(uint256 productId,uint256 nonce,uint256 deadline)");
+
+export const INITIATE_TRANSFER_TYPES: Record<string, TypedDataField[]> = {
+  InitiateTransfer: [
+    {name: "productId", type: "uint256"},
+    {name: "to", type: "address"},
+    {name: "locationHash", type: "bytes32"},
+    {name: "nonce", type: "uint256"},
+    {name: "deadline", type: "uint256"}
+  ]
+};
+
+export const ACCEPT_TRANSFER_TYPES: Record<string, TypedDataField[]> = {
+  AcceptTransfer: [
+    {name: "productId", type: "uint256"},
+    {name: "nonce", type: "uint256"},
+    {name: "deadline", type: "uint256"}
+  ]
+};
+
+export function supplyChainDomain(chainId: bigint, verifyingContract: string): TypedDataDomain {
+  return {name: DOMAIN_NAME, version: DOMAIN_VERSION, chainId, verifyingContract: getAddress(verifyingContract)};
+}
+
+/** EIP-712 struct the contract rebuilds for the intent's method. */
+function typedData(intent: RelayIntent): {types: Record<string, TypedDataField[]>; value: Record<string, unknown>} {
+  switch (intent.method) {
+    case "executeMetaTx":
+    case "initiateTransferWithSig": {
+      const {productId, to, locationHash, nonce, deadline} = intent;
+      return {types: INITIATE_TRANSFER_TYPES, value: {productId, to, locationHash, nonce, deadline}};
+    }
+    case "acceptTransferWithSig": {
+      const {productId, nonce, deadline} = intent;
+      return {types: ACCEPT_TRANSFER_TYPES, value: {productId, nonce, deadline}};
+    }
+  }
+}
+
+/** An intent the relayer refuses to pay for because the contract would reject its signature. */
+export class SignatureError extends ValidationError {
+  constructor(field: string, reason: string) {
+    super(field, reason);
+    this.name = "SignatureError";
+  }
+}
+
+export interface SignatureVerifierOptions {
+  /** Current chain time in seconds; defaults to the wall clock. */
+  now?: () => bigint;
+}
+
+/**
+ * Off-chain replica of the checks SupplyChain runs before touching state:
+ * deadline, domain and signer. Running them here means a bad intent costs a
+ * request, not a reverted transaction paid for by the relayer.
+ */
+export class SignatureVerifier {
+  readonly domain: TypedDataDomain;
+  private readonly now: () => bigint;
+
+  constructor(
+    readonly chainId: bigint,
+    verifyingContract: string,
+    options: SignatureVerifierOptions = {}
+  ) {
+    this.domain = supplyChainDomain(chainId, verifyingContract);
+    this.now = options.now ?? (() => BigInt(Math.floor(Date.now() / 1000)));
+  }
+
+  static async fromContract(
+    supplyChain: SupplyChainClient,
+    options?: SignatureVerifierOptions
+  ): Promise<SignatureVerifier> {
+    const provider = supplyChain.contract.runner?.provider;
+    if (!provider) throw new Error("SupplyChain contract is not connected to a provider");
+    const {chainId} = await provider.getNetwork();
+    return new SignatureVerifier(chainId, await supplyChain.getAddress(), options);
+  }
+
+  /** Verifies an intent with the checks of the method that will carry it. */
+  verify(intent: RelayIntent): void {
+    this.checkEnvelope(intent);
+    const {types, value} = typedData(intent);
+    this.checkSigner(this.recover(types, intent.signature, value), intent.user);
+  }
+
+  /**
+   * EIP-712 digest the intent's signer signed. It ignores the signature and
+   * the carrying method, so every resend of one signed intent maps to it.
+   */
+  digest(intent: RelayIntent): string {
+    const {types, value} = typedData(intent);
+    return TypedDataEncoder.hash(this.domain, types, value);
+  }
+
+  /** Verifies an InitiateTransfer intent relayed through executeMetaTx or initiateTransferWithSig. */
+  verifyMetaTx(intent: MetaTxIntent): void {
+    this.verify({method: "executeMetaTx", ...intent});
+  }
+
+  /** Verifies an AcceptTransfer intent signed by the pending receiver. */
+  verifyAcceptTransfer(intent: AcceptTransferIntent): void {
+    this.verify({method: "acceptTransferWithSig", ...intent});
+  }
+
+  private checkEnvelope(intent: {deadline: bigint; chainId?: bigint}): void {
+    if (intent.chainId !== undefined && intent.chainId !== this.chainId) {
+      throw new SignatureError("chainId", `expected ${this.chainId}`);
+    }
+    // The contract reverts with DeadlineExpired once block.timestamp passes the deadline.
+    if (intent.deadline < this.now()) {
+      throw new SignatureError("deadline", "expired");
+    }
+  }
+
+  private recover(types: Record<string, TypedDataField[]>, signature: string, value: Record<string, unknown>): string {
+    try {
+      return verifyTypedData(this.domain, types, value, signature);
+    } catch {
+      throw new SignatureError("signature", "not a valid secp256k1 signature");
+    }
+  }
+
+  private checkSigner(signer: string, user: string): void {
+    if (signer !== getAddress(user)) {
+      throw new SignatureError("signature", "signer does not match user");
+    }
+  }
+}
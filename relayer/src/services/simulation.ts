@@ -0,0 +1,26 @@
+import {decodeSupplyChainError, type SupplyChainClient} from "../blockchain/supplyChain";
+import {relayCall, type RelayIntent} from "../intents";
+
+export type SimulationResult =
+  | {success: true; method: RelayIntent["method"]; gasEstimate: bigint}
+  | {success: false; method: RelayIntent["method"]; error: string; args: unknown[]};
+
+/**
+ * Dry-runs an intent against the latest block: a static call to surface the
+ * SupplyChain custom error it would revert with, then an eth_estimateGas for
+ * the gas it would use. Nothing is signed or broadcast. `client` must be
+ * connected to a relayer key, since executeMetaTx checks approvedRelayers
+ * against the caller.
+ */
+export async function simulate(client: SupplyChainClient, intent: RelayIntent): Promise<SimulationResult> {
+  const call = relayCall(intent);
+  try {
+    await client.staticCall(call);
+    return {success: true, method: intent.method, gasEstimate: await client.estimateGas(call)};
+  } catch (err) {
+    const decoded = decodeSupplyChainError(err);
+    // Anything that is not a contract revert (RPC down, timeouts) is the relayer's problem, not the intent's.
+    if (!decoded) throw err;
+    return {success: false, method: intent.method, error: decoded.errorName, args: [...decoded.args]};
+  }
+}
@@ -0,0 +1,54 @@
+import {promises as fs} from "fs";
+import path from "path";
+
+/** A single JSON document the relayer keeps across restarts. */
+export interface JsonStore<T> {
+  load(): Promise<T | undefined>;
+  save(value: T): Promise<void>;
+}
+
+/** In-memory store for tests and for deployments that accept losing state on restart. */
+export class MemoryJsonStore<T> implements JsonStore<T> {
+  private value: string | undefined;
+
+  async load(): Promise<T | undefined> {
+    return this.value === undefined ? undefined : (JSON.parse(this.value) as T);
+  }
+
+  async save(value: T): Promise<void> {
+    // Round-trip through JSON so callers cannot mutate what was "persisted".
+    this.value = JSON.stringify(value);
+  }
+}
+
+/**
+ * File-backed store. Writes go to a temporary sibling and are renamed into
+ * place, so a crash mid-write leaves the previous document intact. Saves are
+ * serialized to keep concurrent writers from interleaving.
+ */
+export class FileJsonStore<T> implements JsonStore<T> {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  save(value: T): Promise<void> {
+    const contents = JSON.stringify(value, null, 2);
+    const write = async () => {
+      await fs.mkdir(path.dirname(this.filePath), {recursive: true});
+      const tmp = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, contents);
+      await fs.rename(tmp, this.filePath);
+    };
+    this.pending = this.pending.then(write, write);
+    return this.pending;
+  }
+}
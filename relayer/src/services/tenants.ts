@@ -0,0 +1,216 @@
+import {createHash} from "crypto";
+
+import {ProductNotFoundError, type SupplyChainClient} from "../blockchain/supplyChain";
+import {HttpError} from "../http";
+import {PrecheckError} from "./precheck";
+import type {JsonStore} from "./store";
+
+/** Inclusive range of batch ids. */
+export interface BatchRange {
+  from: bigint;
+  to: bigint;
+}
+
+/** An organization sharing the relayer. */
+export interface TenantConfig {
+  id: string;
+  apiKey: string;
+  /** Signers allowed to relay with this tenant's API key. */
+  signers: string[];
+  /** Batches whose products this tenant sponsors. */
+  batches: BatchRange[];
+  /** Gas this tenant may be charged per UTC calendar month. */
+  monthlyGasQuota: bigint;
+  /** Where outcomes of this tenant's requests are posted, and the key callbacks are signed with. */
+  webhook?: TenantWebhook;
+}
+
+export interface TenantWebhook {
+  /** Receives every outcome; without it only per-job webhooks are called. */
+  url?: string;
+  secret: string;
+}
+
+export class TenantAuthError extends HttpError {
+  constructor() {
+    super(401, "tenant API key required", {}, {"WWW-Authenticate": 'ApiKey header="X-API-Key"'});
+    this.name = "TenantAuthError";
+  }
+}
+
+export type TenantRefusal = "signer not allowed" | "batch not sponsored" | "monthly quota exhausted";
+
+export class TenantError extends HttpError {
+  constructor(
+    readonly reason: TenantRefusal,
+    details: Record<string, unknown> = {}
+  ) {
+    super(403, "tenant refused", {reason, ...details});
+    this.name = "TenantError";
+  }
+}
+
+function keyDigest(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/**
+ * Who may relay, and who pays. A request authenticates with its tenant's API
+ * key and may only carry intents from that tenant's signers; the gas is then
+ * charged to whichever tenant sponsors the batch the product was minted in,
+ * which is usually, but not necessarily, the same tenant.
+ */
+export class TenantRegistry {
+  private readonly byKey = new Map<string, TenantConfig>();
+  private readonly byId = new Map<string, TenantConfig>();
+
+  constructor(
+    readonly tenants: TenantConfig[],
+    private readonly supplyChain: Pick<SupplyChainClient, "productBatch">
+  ) {
+    for (const tenant of tenants) {
+      // Keys are looked up by digest so the map never holds them in the clear.
+      this.byKey.set(keyDigest(tenant.apiKey), tenant);
+      this.byId.set(tenant.id, tenant);
+    }
+  }
+
+  get enabled(): boolean {
+    return this.tenants.length > 0;
+  }
+
+  get(id: string): TenantConfig | undefined {
+    return this.byId.get(id);
+  }
+
+  authenticate(apiKey: string | undefined): TenantConfig {
+    const tenant = apiKey ? this.byKey.get(keyDigest(apiKey)) : undefined;
+    if (!tenant) throw new TenantAuthError();
+    return tenant;
+  }
+
+  /**
+   * The tenant to charge for `user` relaying a call on `productId`, on behalf
+   * of `caller`. A product that was never minted is refused as the precheck
+   * would refuse it, since no batch sponsors it.
+   */
+  async payer(caller: TenantConfig, user: string, productId: bigint): Promise<TenantConfig> {
+    if (!caller.signers.some((signer) => signer.toLowerCase() === user.toLowerCase())) {
+      throw new TenantError("signer not allowed", {signer: user});
+    }
+    let batchId: bigint;
+    try {
+      batchId = await this.supplyChain.productBatch(productId);
+    } catch (err) {
+      if (err instanceof ProductNotFoundError) {
+        throw new PrecheckError("product not found", {productId: productId.toString()});
+      }
+      throw err;
+    }
+    const owner = this.tenants.find((tenant) => tenant.batches.some(({from, to}) => batchId >= from && batchId <= to));
+    if (!owner) throw new TenantError("batch not sponsored", {batchId: batchId.toString()});
+    return owner;
+  }
+}
+
+export interface TenantSpend {
+  gas: string;
+  wei: string;
+  /** Transactions mined on the tenant's account. */
+  transactions: number;
+}
+
+export interface PersistedTenantUsage {
+  /** UTC month as YYYY-MM, then tenant id. */
+  months: Record<string, Record<string, TenantSpend>>;
+}
+
+/** A tenant's reservation for one transaction; same contract as a gas policy Sponsorship. */
+export interface TenantCharge {
+  settle(gasUsed: bigint, effectiveGasPrice: bigint): Promise<void>;
+  cancel(): Promise<void>;
+}
+
+function utcMonth(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/**
+ * Monthly gas accounting per tenant. Like the gas policy, the gas limit is
+ * reserved before sending and trued up from the receipt, in the month the
+ * reservation was made.
+ */
+export class TenantLedger {
+  private usage: Promise<PersistedTenantUsage> | undefined;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly registry: TenantRegistry,
+    private readonly store: JsonStore<PersistedTenantUsage>,
+    options: {now?: () => Date} = {}
+  ) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async reserve(tenantId: string, gasLimit: bigint): Promise<TenantCharge> {
+    const tenant = this.registry.get(tenantId);
+    // A tenant removed from the config since the job was accepted is not charged.
+    if (!tenant) return {settle: async () => undefined, cancel: async () => undefined};
+
+    const month = utcMonth(this.now());
+    const spend = await this.spend(month, tenantId);
+    if (BigInt(spend.gas) + gasLimit > tenant.monthlyGasQuota) {
+      throw new TenantError("monthly quota exhausted", {tenant: tenantId, month});
+    }
+    // Checked and reserved with no await in between, so concurrent requests see each other's reservations.
+    spend.gas = (BigInt(spend.gas) + gasLimit).toString();
+    await this.persist();
+
+    let open = true;
+    const release = async (gas: bigint, wei: bigint, mined: boolean) => {
+      if (!open) return;
+      open = false;
+      const current = await this.spend(month, tenantId);
+      const total = BigInt(current.gas) + gas - gasLimit;
+      current.gas = (total > 0n ? total : 0n).toString();
+      current.wei = (BigInt(current.wei) + wei).toString();
+      if (mined) current.transactions += 1;
+      await this.persist();
+    };
+    return {
+      settle: (gasUsed, effectiveGasPrice) => release(gasUsed, gasUsed * effectiveGasPrice, true),
+      cancel: () => release(0n, 0n, false)
+    };
+  }
+
+  /** A tenant's spend and remaining quota for `month` (YYYY-MM), the current month by default. */
+  async report(tenantId: string, month = utcMonth(this.now())): Promise<Record<string, unknown>> {
+    const tenant = this.registry.get(tenantId);
+    const spend = (await this.load()).months[month]?.[tenantId] ?? {gas: "0", wei: "0", transactions: 0};
+    const quota = tenant?.monthlyGasQuota ?? 0n;
+    const remaining = quota - BigInt(spend.gas);
+    return {
+      tenant: tenantId,
+      month,
+      monthlyGasQuota: quota.toString(),
+      gasUsed: spend.gas,
+      weiSpent: spend.wei,
+      transactions: spend.transactions,
+      gasRemaining: (remaining > 0n ? remaining : 0n).toString()
+    };
+  }
+
+  private async spend(month: string, tenantId: string): Promise<TenantSpend> {
+    const tenants = ((await this.load()).months[month] ??= {});
+    return (tenants[tenantId] ??= {gas: "0", wei: "0", transactions: 0});
+  }
+
+  private load(): Promise<PersistedTenantUsage> {
+    this.usage ??= this.store.load().then((usage) => usage ?? {months: {}});
+    return this.usage;
+  }
+
+  private async persist(): Promise<void> {
+    await this.store.save(await this.load());
+  }
+}
@@ -0,0 +1,148 @@
+import type {Provider} from "ethers";
+
+import type {SupplyChainClient} from "../blockchain/supplyChain";
+import {HttpError} from "../http";
+import type {AccountNonceManager} from "./nonce";
+
+/** One sending key: its SupplyChain client and the nonce counter for its account. */
+export interface RelayerAccount {
+  address: string;
+  /** Client connected to this account's signer. */
+  supplyChain: SupplyChainClient;
+  accountNonces: AccountNonceManager;
+}
+
+export type AccountState = "active" | "low balance" | "not approved";
+
+export interface AccountStatus {
+  address: string;
+  state: AccountState;
+  balance: bigint;
+  /** Jobs currently submitted from this account. */
+  inFlight: number;
+}
+
+export interface WalletPoolOptions {
+  provider: Pick<Provider, "getBalance">;
+  /** Accounts below this balance (wei) are paused until topped up. */
+  minBalance: bigint;
+  /** How long a balance and approval check is reused before the chain is asked again. */
+  refreshIntervalMs?: number;
+  now?: () => number;
+}
+
+export class NoRelayerAvailableError extends HttpError {
+  constructor() {
+    super(503, "no relayer account available");
+    this.name = "NoRelayerAvailableError";
+  }
+}
+
+/**
+ * Spreads sponsored transactions over several relayer keys. Each submission
+ * goes to the usable account with the fewest jobs in flight; an account is
+ * usable while SupplyChain.approvedRelayers lists it and its balance is at
+ * least `minBalance`. Both are re-read from the chain every
+ * `refreshIntervalMs`, so a revoked or drained key drops out and a topped-up
+ * one comes back without a restart.
+ */
+export class WalletPool {
+  private readonly byAddress = new Map<string, RelayerAccount>();
+  private readonly status = new Map<string, AccountStatus>();
+  private refreshedAt = -Infinity;
+  private refreshing: Promise<void> | undefined;
+  private cursor = 0;
+  private readonly now: () => number;
+
+  constructor(
+    readonly accounts: RelayerAccount[],
+    private readonly options: WalletPoolOptions
+  ) {
+    if (accounts.length === 0) throw new Error("WalletPool needs at least one relayer account");
+    for (const account of accounts) {
+      const key = account.address.toLowerCase();
+      this.byAddress.set(key, account);
+      this.status.set(key, {address: account.address, state: "active", balance: 0n, inFlight: 0});
+    }
+    this.now = options.now ?? Date.now;
+  }
+
+  account(address: string): RelayerAccount | undefined {
+    return this.byAddress.get(address.toLowerCase());
+  }
+
+  /** Picks the account for a new submission and counts it as in flight until release(). */
+  async acquire(): Promise<RelayerAccount> {
+    const account = await this.pick();
+    this.statusOf(account).inFlight += 1;
+    return account;
+  }
+
+  /** The account acquire() would choose, without counting anything against it; for read-only calls. */
+  async pick(): Promise<RelayerAccount> {
+    await this.refresh();
+    const usable = this.accounts.filter((account) => this.statusOf(account).state === "active");
+    if (usable.length === 0) throw new NoRelayerAvailableError();
+
+    // Least loaded first; among equals, rotate so idle keys all see traffic.
+    const least = Math.min(...usable.map((account) => this.statusOf(account).inFlight));
+    const candidates = usable.filter((account) => this.statusOf(account).inFlight === least);
+    return candidates[this.cursor++ % candidates.length];
+  }
+
+  /** Marks a job from `address` as in flight, e.g. one resumed after a restart. */
+  claim(address: string): RelayerAccount | undefined {
+    const account = this.account(address);
+    if (account) this.statusOf(account).inFlight += 1;
+    return account;
+  }
+
+  release(address: string): void {
+    const account = this.account(address);
+    if (!account) return;
+    const status = this.statusOf(account);
+    status.inFlight = Math.max(0, status.inFlight - 1);
+  }
+
+  async statuses(): Promise<AccountStatus[]> {
+    await this.refresh();
+    return this.accounts.map((account) => ({...this.statusOf(account)}));
+  }
+
+  /** Re-reads approvals and balances if the last check is older than the refresh interval. */
+  async refresh(force = false): Promise<void> {
+    const {refreshIntervalMs = 30_000} = this.options;
+    if (!force && this.now() - this.refreshedAt < refreshIntervalMs) return;
+    this.refreshing ??= this.check().finally(() => {
+      this.refreshing = undefined;
+    });
+    await this.refreshing;
+  }
+
+  private async check(): Promise<void> {
+    await Promise.all(
+      this.accounts.map(async (account) => {
+        const [approved, balance] = await Promise.all([
+          account.supplyChain.isApprovedRelayer(account.address),
+          this.options.provider.getBalance(account.address)
+        ]);
+        const status = this.statusOf(account);
+        const state: AccountState = !approved
+          ? "not approved"
+          : balance < this.options.minBalance
+            ? "low balance"
+            : "active";
+        if (state !== status.state && state !== "active") {
+          console.warn(`relayer: pausing ${account.address} (${state})`);
+        }
+        status.state = state;
+        status.balance = balance;
+      })
+    );
+    this.refreshedAt = this.now();
+  }
+
+  private statusOf(account: RelayerAccount): AccountStatus {
+    return this.status.get(account.address.toLowerCase())!;
+  }
+}
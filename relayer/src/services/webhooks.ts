@@ -0,0 +1,390 @@
+import {createHmac, randomUUID, timingSafeEqual} from "crypto";
+import {lookup} from "dns";
+import http from "http";
+import https from "https";
+import {BlockList, isIP, type LookupFunction} from "net";
+
+import type {JobStatus, RelayJob} from "./relayQueue";
+import type {JsonStore} from "./store";
+import type {TenantRegistry} from "./tenants";
+
+export interface WebhookConfig {
+  /** Signs callbacks for requests without a tenant webhook secret; without it they cannot ask for callbacks. */
+  secret?: string;
+  /** Attempts per callback, the first included, before it is given up. */
+  maxAttempts: number;
+  /** Delay before the first retry; each further retry waits twice as long. */
+  initialBackoffMs: number;
+  /** How long a receiver may take to answer one attempt. */
+  timeoutMs: number;
+  /**
+   * Hosts a request may name in its webhookUrl without a tenant API key.
+   * Callbacks to them may also reach private, loopback and link-local
+   * addresses, which are refused for every other host.
+   */
+  allowedHosts: string[];
+}
+
+/** `job.reverted` is a transaction mined with a revert; `job.failed` is a job refused before or while sending. */
+export type WebhookEvent = "job.mined" | "job.reverted" | "job.failed" | "job.expired";
+
+/** What a callback says about the job; the same fields GET /relay/:jobId reports for it. */
+export interface WebhookJob {
+  jobId: string;
+  intentHash: string;
+  status: JobStatus;
+  method: string;
+  tenant?: string;
+  user: string;
+  productId: string;
+  nonce: string;
+  txHash?: string;
+  blockNumber?: number;
+  error?: string;
+  updatedAt: string;
+}
+
+/** The JSON body of every callback. */
+export interface WebhookPayload {
+  /** Same as the X-Relayer-Delivery header; retries of one callback share it. */
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  job: WebhookJob;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  /** Tenant whose secret signs the callback; the relayer-wide secret otherwise. */
+  tenant?: string;
+  event: WebhookEvent;
+  /** The JSON posted, fixed when the job finished so every retry carries the same body. */
+  body: string;
+  attempts: number;
+  /** Milliseconds since epoch. */
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface PersistedDeliveries {
+  deliveries: Record<string, WebhookDelivery>;
+}
+
+export interface WebhookNotifierDeps {
+  store: JsonStore<PersistedDeliveries>;
+  tenants?: Pick<TenantRegistry, "get">;
+  /** Clock in milliseconds; defaults to Date.now. */
+  now?: () => number;
+}
+
+export const SIGNATURE_HEADER = "X-Relayer-Signature";
+
+/** Retries back off exponentially, but never wait longer than this. */
+const MAX_BACKOFF_MS = 3_600_000;
+
+/** Addresses inside the relayer's own network, which a callback must not be used to probe. */
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3]
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/** A callback whose host is or resolves to an internal address; it is dropped, not retried. */
+export class WebhookAddressError extends Error {
+  constructor(
+    readonly host: string,
+    readonly address: string
+  ) {
+    super(host === address ? `${host} is an internal address` : `${host} resolves to internal address ${address}`);
+    this.name = "WebhookAddressError";
+  }
+}
+
+function isInternal(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && INTERNAL_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Resolves like dns.lookup but fails on internal addresses. Checking the
+ * addresses the socket then connects to, rather than resolving up front,
+ * leaves no window for the name to resolve elsewhere in between.
+ */
+const externalLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, {...options, all: true}, (err, addresses) => {
+    if (err) return callback(err, "");
+    const internal = addresses.find(({address}) => isInternal(address));
+    if (internal) return callback(new WebhookAddressError(hostname, internal.address), "");
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * The X-Relayer-Signature value for `body` sent at `timestamp` (seconds):
+ * "t=<timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">". Signing the
+ * timestamp lets receivers refuse replays of old callbacks.
+ */
+export function signWebhook(secret: string, body: string, timestamp: number): string {
+  return `t=${timestamp},v1=${mac(secret, body, timestamp).toString("hex")}`;
+}
+
+function mac(secret: string, body: string, timestamp: number): Buffer {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest();
+}
+
+/** Checks a signature header made by signWebhook, refusing ones older than `toleranceSeconds`. */
+export function verifyWebhook(
+  secret: string,
+  body: string,
+  header: string | undefined,
+  options: {now?: number; toleranceSeconds?: number} = {}
+): boolean {
+  const match = /^t=([0-9]+),v1=([0-9a-f]{64})$/.exec(header ?? "");
+  if (!match) return false;
+  const timestamp = Number(match[1]);
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? 300)) return false;
+  return timingSafeEqual(mac(secret, body, timestamp), Buffer.from(match[2], "hex"));
+}
+
+export function webhookEvent(job: RelayJob): WebhookEvent | undefined {
+  switch (job.status) {
+    case "mined":
+      return "job.mined";
+    case "failed":
+      // Only a job whose transaction was mined has a block number; anything else failed before that.
+      return job.blockNumber === undefined ? "job.failed" : "job.reverted";
+    case "expired":
+      return "job.expired";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Posts the outcome of finished jobs to the webhook given with the request
+ * and to the submitting tenant's webhook. Callbacks are persisted before the
+ * first attempt and retried with exponential backoff until the receiver
+ * answers 2xx or `maxAttempts` is spent, so a restart or a receiver outage
+ * does not lose them.
+ */
+export class WebhookNotifier {
+  private deliveries = new Map<string, WebhookDelivery>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private running = new Set<Promise<void>>();
+  private loaded: Promise<void> | undefined;
+  private stopped = false;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly deps: WebhookNotifierDeps,
+    readonly config: WebhookConfig
+  ) {
+    this.now = deps.now ?? Date.now;
+  }
+
+  /** Whether `url` names one of the allowed hosts. */
+  allowsHost(url: string): boolean {
+    try {
+      return this.config.allowedHosts.includes(new URL(url).hostname.toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
+  /** Whether callbacks for requests made by `tenant` (or by no tenant) can be signed. */
+  canSign(tenant?: string): boolean {
+    return this.secret(tenant) !== undefined;
+  }
+
+  /** Queues callbacks for `job`'s outcome; does nothing for an unfinished job or one nobody listens to. */
+  async notify(job: RelayJob): Promise<void> {
+    const event = webhookEvent(job);
+    if (!event) return;
+    await this.load();
+    const tenantUrl = job.submittedBy === undefined ? undefined : this.deps.tenants?.get(job.submittedBy)?.webhook?.url;
+    const urls = new Set([job.webhookUrl, tenantUrl].filter((url): url is string => url !== undefined));
+    if (urls.size === 0) return;
+
+    const created: WebhookDelivery[] = [];
+    for (const url of urls) {
+      const id = randomUUID();
+      const callback: WebhookPayload = {id, event, createdAt: new Date(this.now()).toISOString(), job: payload(job)};
+      const body = JSON.stringify(callback);
+      const delivery = {id, url, tenant: job.submittedBy, event, body, attempts: 0, nextAttemptAt: this.now()};
+      this.deliveries.set(id, delivery);
+      created.push(delivery);
+    }
+    await this.persist();
+    for (const delivery of created) this.schedule(delivery);
+  }
+
+  /** Callbacks not yet delivered or given up. */
+  async pending(): Promise<WebhookDelivery[]> {
+    await this.load();
+    return [...this.deliveries.values()];
+  }
+
+  /** Picks up callbacks left undelivered by a previous process. */
+  async resume(): Promise<void> {
+    await this.load();
+    for (const delivery of this.deliveries.values()) this.schedule(delivery);
+  }
+
+  /** Stops retrying and waits for attempts in flight; undelivered callbacks stay persisted. */
+  async close(): Promise<void> {
+    this.stopped = true;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    await Promise.allSettled([...this.running]);
+  }
+
+  private schedule(delivery: WebhookDelivery): void {
+    if (this.stopped || this.timers.has(delivery.id)) return;
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(delivery.id);
+        const attempt = this.attempt(delivery).catch((err) => {
+          console.error(`relayer: webhook ${delivery.id} failed`, err);
+        });
+        this.running.add(attempt);
+        void attempt.then(() => this.running.delete(attempt));
+      },
+      Math.max(0, delivery.nextAttemptAt - this.now())
+    );
+    // Pending retries alone should not keep the process alive.
+    timer.unref();
+    this.timers.set(delivery.id, timer);
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const secret = this.secret(delivery.tenant);
+    if (!secret) {
+      console.warn(`relayer: dropping webhook ${delivery.id} to ${delivery.url}: no secret to sign it with`);
+      await this.forget(delivery);
+      return;
+    }
+
+    delivery.attempts += 1;
+    let error: string;
+    try {
+      const status = await this.post(delivery, {
+        "content-type": "application/json",
+        "x-relayer-event": delivery.event,
+        "x-relayer-delivery": delivery.id,
+        [SIGNATURE_HEADER]: signWebhook(secret, delivery.body, Math.floor(this.now() / 1000))
+      });
+      if (status >= 200 && status < 300) {
+        await this.forget(delivery);
+        return;
+      }
+      error = `HTTP ${status}`;
+    } catch (err) {
+      if (err instanceof WebhookAddressError) {
+        console.warn(`relayer: dropping webhook ${delivery.id}: ${err.message}`);
+        await this.forget(delivery);
+        return;
+      }
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (delivery.attempts >= this.config.maxAttempts) {
+      console.warn(`relayer: giving up webhook ${delivery.id} to ${delivery.url} after ${delivery.attempts} attempts`);
+      await this.forget(delivery);
+      return;
+    }
+    const backoff = Math.min(this.config.initialBackoffMs * 2 ** (delivery.attempts - 1), MAX_BACKOFF_MS);
+    delivery.nextAttemptAt = this.now() + backoff;
+    delivery.lastError = error;
+    await this.persist();
+    this.schedule(delivery);
+  }
+
+  /**
+   * Posts the callback and answers the receiver's status. Redirects are not
+   * followed. Unless the host is allowed, internal addresses are refused,
+   * whether the URL names one or its host resolves to one.
+   */
+  private post(delivery: WebhookDelivery, headers: Record<string, string>): Promise<number> {
+    const url = new URL(delivery.url);
+    const external = !this.allowsHost(delivery.url);
+    const literal = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (external && isInternal(literal)) return Promise.reject(new WebhookAddressError(literal, literal));
+
+    return new Promise((resolve, reject) => {
+      const request = (url.protocol === "https:" ? https : http).request(
+        url,
+        {
+          method: "POST",
+          headers: {...headers, "content-length": Buffer.byteLength(delivery.body)},
+          signal: AbortSignal.timeout(this.config.timeoutMs),
+          ...(external && {lookup: externalLookup})
+        },
+        (res) => {
+          res.resume();
+          res.on("end", () => resolve(res.statusCode ?? 0));
+          res.on("error", reject);
+        }
+      );
+      request.on("error", reject);
+      request.end(delivery.body);
+    });
+  }
+
+  private secret(tenant: string | undefined): string | undefined {
+    const own = tenant === undefined ? undefined : this.deps.tenants?.get(tenant)?.webhook?.secret;
+    return own ?? this.config.secret;
+  }
+
+  private async forget(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.delete(delivery.id);
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      const persisted = await this.deps.store.load();
+      for (const delivery of Object.values(persisted?.deliveries ?? {})) this.deliveries.set(delivery.id, delivery);
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    return this.deps.store.save({deliveries: Object.fromEntries(this.deliveries)});
+  }
+}
+
+function payload(job: RelayJob): WebhookJob {
+  return {
+    jobId: job.id,
+    intentHash: job.digest,
+    status: job.status,
+    method: job.intent.method,
+    tenant: job.tenant,
+    user: job.intent.user,
+    productId: job.intent.productId,
+    nonce: job.intent.nonce,
+    txHash: job.txHash,
+    blockNumber: job.blockNumber,
+    error: job.error,
+    updatedAt: new Date(job.updatedAt).toISOString()
+  };
+}
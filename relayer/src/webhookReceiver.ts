@@ -0,0 +1,49 @@
+import express, {type Express} from "express";
+
+import {errorHandler, HttpError} from "./http";
+import {SIGNATURE_HEADER, verifyWebhook, type WebhookPayload} from "./services/webhooks";
+
+/**
+ * A local endpoint for trying out relayer webhooks: it checks each
+ * callback's signature against `secret`, hands the parsed payload to
+ * `onEvent` and answers 204. Callbacks with a bad or stale signature get 401.
+ */
+export function webhookReceiverApp(
+  secret: string,
+  onEvent: (payload: WebhookPayload) => void = (payload) => {
+    console.log(`webhook ${payload.event}`, JSON.stringify(payload.job));
+  }
+): Express {
+  const app = express();
+  // The signature covers the exact bytes sent, so the body is verified before it is parsed.
+  app.post("*", express.raw({type: "*/*", limit: "64kb"}), (req, res, next) => {
+    const body = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : "";
+    if (!verifyWebhook(secret, body, req.get(SIGNATURE_HEADER))) {
+      next(new HttpError(401, "bad webhook signature"));
+      return;
+    }
+    // Signed by the relayer, so it has the shape the relayer sends.
+    onEvent(JSON.parse(body) as WebhookPayload);
+    res.status(204).end();
+  });
+  app.use(errorHandler);
+  return app;
+}
+
+function main(): void {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) throw new Error("set WEBHOOK_SECRET to the secret the relayer signs callbacks with");
+  const port = Number(process.env.PORT ?? 9555);
+  webhookReceiverApp(secret).listen(port, () => {
+    console.log(`webhook receiver listening on :${port}`);
+  });
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (err) {
+    console.error(err);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,154 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import {AdminControls, type PersistedAdminState} from "../src/services/admin";
+import {MemoryAuditLog} from "../src/services/audit";
+import {MemoryJsonStore} from "../src/services/store";
+import {
+  deployFixture,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  requestJson,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob
+} from "./fixtures";
+
+describe("relayer - admin API", function () {
+  const token = "a".repeat(40);
+  const auth = {authorization: `Bearer ${token}`};
+
+  async function adminFixture() {
+    const fixture = await deployFixture();
+    const deps = await relayerDeps(fixture.sc, fixture.relayer);
+    const store = new MemoryJsonStore<PersistedAdminState>();
+    const audit = new MemoryAuditLog();
+    const controls = () =>
+      new AdminControls({gasPolicy: deps.gasPolicy, rateLimiter: deps.rateLimiter, queue: deps.queue, store, audit});
+    const server = await listen(createApp({...deps, admin: {controls: controls(), tokens: {alice: token}}}));
+    const admin = <T = Record<string, unknown>>(method: string, route: string, body?: unknown) =>
+      requestJson<T>(method, `${server.url}/admin${route}`, body, auth);
+
+    async function intent(nonce = 0n, productId = PRODUCT_ID) {
+      const {sc, manufacturer, receiver} = fixture;
+      const deadline = (await latestTimestamp()) + 3600n;
+      const value = {productId, to: receiver.address, locationHash: ethers.ZeroHash, nonce, deadline};
+      return {user: manufacturer.address, ...value, signature: await signInitiateTransfer(sc, manufacturer, value)};
+    }
+
+    return {...fixture, deps, store, audit, controls, server, admin, intent};
+  }
+
+  it("requires a known bearer token", async function () {
+    const {server} = await adminFixture();
+
+    try {
+      const missing = await requestJson("GET", `${server.url}/admin/status`);
+      expect(missing.status).to.equal(401);
+      expect(missing.headers.get("www-authenticate")).to.equal("Bearer");
+
+      const wrong = await requestJson("GET", `${server.url}/admin/status`, undefined, {
+        authorization: `Bearer ${"b".repeat(40)}`
+      });
+      expect(wrong.status).to.equal(401);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("pauses and resumes sponsorship and records who did it", async function () {
+    const {server, admin, audit, intent} = await adminFixture();
+
+    try {
+      expect((await admin("POST", "/pause")).body).to.include({paused: true});
+      const refused = await postJson(`${server.url}/relay`, await intent());
+      expect(refused.status).to.equal(403);
+      expect(refused.body.reason).to.equal("sponsorship paused");
+
+      expect((await admin("POST", "/resume")).body).to.include({paused: false});
+      const accepted = await postJson<SerializedJob>(`${server.url}/relay`, await intent());
+      expect((await waitForJob(server.url, accepted.body.jobId)).status).to.equal("mined");
+
+      expect(audit.entries.map(({actor, action}) => ({actor, action}))).to.deep.equal([
+        {actor: "alice", action: "pause"},
+        {actor: "alice", action: "resume"}
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("bans and unbans signers", async function () {
+    const {server, admin, manufacturer, intent} = await adminFixture();
+
+    try {
+      const banned = await admin("PUT", `/signers/${manufacturer.address}/ban`, {reason: "abuse"});
+      expect(banned.body).to.deep.equal({signer: manufacturer.address, until: null, reason: "abuse"});
+      const refused = await postJson(`${server.url}/relay`, await intent());
+      expect(refused.status).to.equal(403);
+      expect(refused.body.error).to.equal("signer banned");
+
+      const status = await admin("GET", "/status");
+      expect(status.body.signerBans).to.deep.equal({[manufacturer.address.toLowerCase()]: {reason: "abuse"}});
+
+      expect((await admin("DELETE", `/signers/${manufacturer.address}/ban`)).body.wasBanned).to.equal(true);
+      expect((await postJson(`${server.url}/relay`, await intent())).status).to.equal(202);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("adjusts gas budgets and keeps the change across restarts", async function () {
+    const {deps, server, admin, controls, intent} = await adminFixture();
+
+    try {
+      const patched = await admin("PATCH", "/gas-policy", {userDailyGas: "1000", roleDailyGas: {INSPECTOR: "5"}});
+      expect(patched.body).to.include({userDailyGas: "1000"});
+      expect(patched.body.roleDailyGas).to.deep.equal({INSPECTOR: "5"});
+
+      const refused = await postJson(`${server.url}/relay`, await intent());
+      expect(refused.body.reason).to.equal("user daily budget exhausted");
+
+      const invalid = await admin("PATCH", "/gas-policy", {roleDailyGas: {OWNER: "1"}});
+      expect(invalid.status).to.equal(400);
+
+      deps.gasPolicy.update({userDailyGas: 2_000_000n});
+      await controls().restore();
+      expect(deps.gasPolicy.config.userDailyGas).to.equal(1000n);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("lists and drains queued jobs and reports per-user spend", async function () {
+    const {sc, manufacturer, server, admin, intent} = await adminFixture();
+    await sc.connect(manufacturer).mintProduct(PRODUCT_ID + 1n, 1, ethers.ZeroHash);
+
+    try {
+      const queued = await postJson<SerializedJob>(`${server.url}/relay`, await intent(1n, PRODUCT_ID + 1n));
+      expect(queued.body.status).to.equal("queued");
+      const {jobs} = (await admin<{jobs: SerializedJob[]}>("GET", "/jobs?status=queued")).body;
+      expect(jobs.map((job) => job.jobId)).to.deep.equal([queued.body.jobId]);
+
+      expect((await admin("POST", "/jobs/drain")).body).to.deep.equal({drained: [queued.body.jobId]});
+      const drained = await waitForJob(server.url, queued.body.jobId);
+      expect(drained).to.include({status: "failed", error: "drained by operator alice"});
+
+      // The drained nonce is free again, and the job that fills the gap is sponsored and charged.
+      const first = await postJson<SerializedJob>(`${server.url}/relay`, await intent());
+      await waitForJob(server.url, first.body.jobId);
+      expect((await postJson(`${server.url}/relay`, await intent(1n, PRODUCT_ID + 1n))).status).to.equal(202);
+
+      const spend = await admin<{gas: string}>("GET", `/spend/${manufacturer.address}`);
+      expect(BigInt(spend.body.gas)).to.be.greaterThan(0n);
+      const all = await admin("GET", "/spend");
+      expect(all.body.users).to.have.property(manufacturer.address.toLowerCase());
+    } finally {
+      await server.close();
+    }
+  });
+});
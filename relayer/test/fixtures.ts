@@ -0,0 +1,274 @@
+import type {AddressInfo} from "net";
+import type {Server} from "http";
+import type {Express} from "express";
+import type {ContractRunner} from "ethers";
+import {ethers} from "hardhat";
+import type {HardhatEthersSigner} from "@nomicfoundation/hardhat-ethers/signers";
+
+import {connectSupplyChain, RELAY_METHODS, SupplyChainClient, type SupplyChain} from "../src/blockchain/supplyChain";
+import type {RelayerDeps} from "../src/server";
+import {GasPolicy, supplyChainRoles, type GasPolicyConfig} from "../src/services/gasPolicy";
+import {RelayerMetrics} from "../src/services/metrics";
+import {AccountNonceManager, UserNonceManager} from "../src/services/nonce";
+import {ProductPrechecks} from "../src/services/precheck";
+import {RateLimiter, type RateLimitConfig} from "../src/services/rateLimit";
+import {RelayQueue, type JobStatus, type QueueConfig} from "../src/services/relayQueue";
+import {WalletPool, type RelayerAccount} from "../src/services/walletPool";
+import {SignatureVerifier} from "../src/services/signature";
+import {MemoryJsonStore} from "../src/services/store";
+import {TenantLedger, TenantRegistry, type TenantConfig} from "../src/services/tenants";
+import {WebhookNotifier, type WebhookConfig} from "../src/services/webhooks";
+
+export const PRODUCT_ID = 100n;
+
+export async function deployFixture() {
+  const [admin, manufacturer, receiver, relayer, other] = await ethers.getSigners();
+
+  const SupplyChain = await ethers.getContractFactory("SupplyChain");
+  const deployed = await SupplyChain.deploy(admin.address);
+  const sc = connectSupplyChain(await deployed.getAddress(), admin);
+
+  await sc.grantRoleSafe(await sc.MANUFACTURER(), manufacturer.address);
+  await sc.approveRelayer(relayer.address);
+  await sc.connect(manufacturer).registerBatch(1, 10, {value: ethers.parseEther("0.01")});
+  await sc.connect(manufacturer).mintProduct(PRODUCT_ID, 1, ethers.ZeroHash);
+
+  return {sc, admin, manufacturer, receiver, relayer, other};
+}
+
+export const GENEROUS_GAS_POLICY: GasPolicyConfig = {
+  allowedMethods: [...RELAY_METHODS],
+  maxGasPrice: ethers.parseUnits("1000", "gwei"),
+  maxGasPerTx: 500_000n,
+  userDailyGas: 10_000_000n,
+  roleDailyGas: {}
+};
+
+export const GENEROUS_RATE_LIMITS: RateLimitConfig = {
+  signer: {capacity: 1000, refillPerMinute: 1000},
+  ip: {capacity: 1000, refillPerMinute: 1000},
+  product: {capacity: 1000, refillPerMinute: 1000},
+  ban: {maxInvalidSignatures: 1000, windowSeconds: 60, banSeconds: 60}
+};
+
+/** Polls quickly and never replaces a transaction unless a test asks for it. */
+export const FAST_QUEUE: QueueConfig = {pollIntervalMs: 10, resubmitAfterMs: 60_000, feeBumpPercent: 15};
+
+/** Retries within milliseconds so tests can watch the backoff play out. */
+export const FAST_WEBHOOKS: WebhookConfig = {
+  secret: "webhook-secret-".padEnd(40, "w"),
+  maxAttempts: 3,
+  initialBackoffMs: 20,
+  timeoutMs: 1_000,
+  // Test receivers listen on loopback.
+  allowedHosts: ["127.0.0.1"]
+};
+
+export interface TestRelayerDeps extends RelayerDeps {
+  supplyChain: SupplyChainClient;
+  gasPolicy: GasPolicy;
+  webhooks: WebhookNotifier;
+  prechecks: ProductPrechecks;
+}
+
+/** A hardhat account, or any other signer that knows its address. */
+export type RelayerSigner = ContractRunner & {address: string};
+
+/** Sending account for `signer` with an in-memory nonce counter. */
+export function relayerAccount(sc: SupplyChain, signer: RelayerSigner): RelayerAccount {
+  return {
+    address: signer.address,
+    supplyChain: new SupplyChainClient(sc.connect(signer)),
+    accountNonces: new AccountNonceManager(ethers.provider, signer.address, new MemoryJsonStore())
+  };
+}
+
+/** Relayer dependencies with in-memory state, sending from `relayers`. */
+export async function relayerDeps(
+  sc: SupplyChain,
+  relayers: RelayerSigner | RelayerSigner[],
+  gasPolicy: GasPolicyConfig = GENEROUS_GAS_POLICY,
+  rateLimits: RateLimitConfig = GENEROUS_RATE_LIMITS,
+  queue: QueueConfig = FAST_QUEUE,
+  tenantConfigs: TenantConfig[] = []
+): Promise<TestRelayerDeps> {
+  const supplyChain = new SupplyChainClient(sc.connect(ethers.provider));
+  const verifier = await SignatureVerifier.fromContract(supplyChain);
+  const policy = new GasPolicy(gasPolicy, {
+    provider: ethers.provider,
+    roles: supplyChainRoles(sc),
+    store: new MemoryJsonStore()
+  });
+  const accounts = (Array.isArray(relayers) ? relayers : [relayers]).map((signer) => relayerAccount(sc, signer));
+  const wallets = new WalletPool(accounts, {provider: ethers.provider, minBalance: ethers.parseEther("0.01")});
+  const metrics = new RelayerMetrics();
+  const tenants = new TenantRegistry(tenantConfigs, supplyChain);
+  const ledger = new TenantLedger(tenants, new MemoryJsonStore());
+  const webhooks = new WebhookNotifier({store: new MemoryJsonStore(), tenants}, FAST_WEBHOOKS);
+  const prechecks = new ProductPrechecks(
+    {supplyChain, provider: ethers.provider},
+    {cacheTtlMs: 10_000, fromBlock: 0, blockRange: 2_000}
+  );
+  const readiness = {
+    provider: ethers.provider,
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    supplyChainAddress: await sc.getAddress(),
+    stalledJobMs: 60_000
+  };
+  return {
+    supplyChain,
+    gasPolicy: policy,
+    wallets,
+    metrics,
+    tenants,
+    ledger,
+    webhooks,
+    prechecks,
+    readiness,
+    verifier,
+    rateLimiter: new RateLimiter(rateLimits),
+    queue: new RelayQueue(
+      {
+        wallets,
+        provider: ethers.provider,
+        verifier,
+        gasPolicy: policy,
+        userNonces: new UserNonceManager(supplyChain, new MemoryJsonStore()),
+        store: new MemoryJsonStore(),
+        metrics,
+        tenants: ledger,
+        webhooks,
+        prechecks
+      },
+      queue
+    )
+  };
+}
+
+export async function latestTimestamp(): Promise<bigint> {
+  const block = await ethers.provider.getBlock("latest");
+  return BigInt(block!.timestamp);
+}
+
+export async function signInitiateTransfer(
+  sc: SupplyChain,
+  signer: HardhatEthersSigner,
+  value: {productId: bigint; to: string; locationHash: string; nonce: bigint; deadline: bigint}
+): Promise<string> {
+  const network = await ethers.provider.getNetwork();
+  const domain = {
+    name: "SupplyChain",
+    version: "1",
+    chainId: network.chainId,
+    verifyingContract: await sc.getAddress()
+  };
+  const types = {
+    InitiateTransfer: [
+      {name: "productId", type: "uint256"},
+      {name: "to", type: "address"},
+      {name: "locationHash", type: "bytes32"},
+      {name: "nonce", type: "uint256"},
+      {name: "deadline", type: "uint256"}
+    ]
+  };
+  return signer.signTypedData(domain, types, value);
+}
+
+export async function signAcceptTransfer(
+  sc: SupplyChain,
+  signer: HardhatEthersSigner,
+  value: {productId: bigint; nonce: bigint; deadline: bigint}
+): Promise<string> {
+  const network = await ethers.provider.getNetwork();
+  const domain = {
+    name: "SupplyChain",
+    version: "1",
+    chainId: network.chainId,
+    verifyingContract: await sc.getAddress()
+  };
+  const types = {
+    AcceptTransfer: [
+      {name: "productId", type: "uint256"},
+      {name: "nonce", type: "uint256"},
+      {name: "deadline", type: "uint256"}
+    ]
+  };
+  return signer.signTypedData(domain, types, value);
+}
+
+export interface RunningServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export async function listen(app: Express): Promise<RunningServer> {
+  const server: Server = await new Promise((resolve) => {
+    const s = app.listen(0, "127.0.0.1", () => resolve(s));
+  });
+  const {port} = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())))
+  };
+}
+
+/** A job as POST /relay and GET /relay/:jobId return it (jobView), with its JSON types. */
+export interface SerializedJob {
+  jobId: string;
+  intentHash: string;
+  status: JobStatus;
+  method: string;
+  tenant?: string;
+  user: string;
+  nonce: string;
+  expectedNonce?: string;
+  txHash?: string;
+  blockNumber?: number;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Only in GET /admin/jobs. */
+  relayer?: string;
+}
+
+/** Response bodies default to a plain JSON object; pass the shape a test reads from nested fields. */
+export async function requestJson<T = Record<string, unknown>>(
+  method: string,
+  url: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Promise<{status: number; headers: Headers; body: T}> {
+  const res = await fetch(url, {
+    method,
+    headers: {"content-type": "application/json", ...headers},
+    body:
+      body === undefined
+        ? undefined
+        : JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value))
+  });
+  return {status: res.status, headers: res.headers, body: (await res.json()) as T};
+}
+
+export async function postJson<T = Record<string, unknown>>(
+  url: string,
+  body: unknown
+): Promise<{status: number; body: T}> {
+  return requestJson<T>("POST", url, body);
+}
+
+export async function getJson<T = Record<string, unknown>>(url: string): Promise<{status: number; body: T}> {
+  const res = await fetch(url);
+  return {status: res.status, body: (await res.json()) as T};
+}
+
+/** Polls GET /relay/:jobId until the job is mined, failed or expired. */
+export async function waitForJob(serverUrl: string, jobId: string, timeoutMs = 5_000): Promise<SerializedJob> {
+  const started = Date.now();
+  for (;;) {
+    const {body} = await getJson<SerializedJob>(`${serverUrl}/relay/${jobId}`);
+    if (["mined", "failed", "expired"].includes(body.status)) return body;
+    if (Date.now() - started > timeoutMs) throw new Error(`job ${jobId} still ${body.status}`);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
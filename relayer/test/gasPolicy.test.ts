@@ -0,0 +1,141 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import {GasPolicy, PolicyError, RevertPredictedError, type GasPolicyConfig} from "../src/services/gasPolicy";
+import {MemoryJsonStore} from "../src/services/store";
+import {
+  deployFixture,
+  GENEROUS_GAS_POLICY,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob
+} from "./fixtures";
+
+describe("relayer - gas policy", function () {
+  const user = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+  const gwei = (n: number) => ethers.parseUnits(String(n), "gwei");
+
+  function policy(config: Partial<GasPolicyConfig> = {}, options: {gasPrice?: bigint; role?: "MANUFACTURER"} = {}) {
+    const gasPrice = options.gasPrice ?? gwei(10);
+    return new GasPolicy(
+      {...GENEROUS_GAS_POLICY, ...config},
+      {
+        provider: {getFeeData: async () => new ethers.FeeData(gasPrice, gasPrice * 2n, gwei(1))},
+        roles: async () => options.role ?? null,
+        store: new MemoryJsonStore(),
+        now: () => new Date("2026-03-01T12:00:00Z")
+      }
+    );
+  }
+
+  const request = (gas: bigint, method: "executeMetaTx" | "acceptTransferWithSig" = "executeMetaTx") => ({
+    method,
+    user,
+    estimateGas: async () => gas
+  });
+
+  it("refuses methods outside the allowlist", async function () {
+    const gasPolicy = policy({allowedMethods: ["executeMetaTx"]});
+
+    await expect(gasPolicy.authorize(request(100_000n, "acceptTransferWithSig")))
+      .to.be.rejectedWith(PolicyError)
+      .and.eventually.have.property("reason", "method not sponsored");
+  });
+
+  it("refuses when the going gas price is above the cap and caps the fee it offers", async function () {
+    await expect(policy({maxGasPrice: gwei(5)}).authorize(request(100_000n)))
+      .to.be.rejectedWith(PolicyError)
+      .and.eventually.have.property("reason", "gas price above cap");
+
+    const sponsorship = await policy({maxGasPrice: gwei(15)}).authorize(request(100_000n));
+    expect(sponsorship.fees).to.deep.equal({maxFeePerGas: gwei(15), maxPriorityFeePerGas: gwei(1)});
+  });
+
+  it("refuses estimates above the per-transaction gas cap", async function () {
+    await expect(policy({maxGasPerTx: 50_000n}).authorize(request(100_000n)))
+      .to.be.rejectedWith(PolicyError)
+      .and.eventually.have.property("reason", "gas limit above cap");
+  });
+
+  it("enforces the per-user daily budget, counting reservations and settled gas", async function () {
+    const gasPolicy = policy({userDailyGas: 250_000n});
+
+    const first = await gasPolicy.authorize(request(100_000n));
+    const second = await gasPolicy.authorize(request(100_000n));
+    await expect(gasPolicy.authorize(request(100_000n)))
+      .to.be.rejectedWith(PolicyError)
+      .and.eventually.have.property("reason", "user daily budget exhausted");
+
+    // Settling for less than reserved frees the difference.
+    await first.settle(40_000n, gwei(10));
+    await second.cancel();
+    expect(await gasPolicy.spendOf(user)).to.deep.equal({gas: 40_000n, wei: 40_000n * gwei(10)});
+    await gasPolicy.authorize(request(200_000n));
+  });
+
+  it("enforces role budgets shared by every holder of the role", async function () {
+    const gasPolicy = policy({roleDailyGas: {MANUFACTURER: 150_000n}}, {role: "MANUFACTURER"});
+
+    await gasPolicy.authorize({...request(100_000n), user});
+    await expect(gasPolicy.authorize({...request(100_000n), user: ethers.ZeroAddress}))
+      .to.be.rejectedWith(PolicyError)
+      .and.eventually.have.property("reason", "role daily budget exhausted");
+  });
+
+  it("refuses calls the estimate predicts will revert", async function () {
+    const {sc, other, receiver, relayer} = await deployFixture();
+    const deps = await relayerDeps(sc, relayer);
+    const deadline = (await latestTimestamp()) + 600n;
+    const value = {productId: PRODUCT_ID, to: receiver.address, locationHash: ethers.ZeroHash, nonce: 0n, deadline};
+    const signature = await signInitiateTransfer(sc, other, value);
+
+    await expect(
+      deps.gasPolicy.authorize({
+        method: "executeMetaTx",
+        user: other.address,
+        estimateGas: () =>
+          deps.wallets.accounts[0].supplyChain.estimateGas({
+            method: "executeMetaTx",
+            args: [other.address, PRODUCT_ID, receiver.address, ethers.ZeroHash, 0n, deadline, signature]
+          })
+      })
+    )
+      .to.be.rejectedWith(RevertPredictedError)
+      .and.eventually.have.property("reason", "NotAuthorized");
+    expect(await deps.gasPolicy.spendOf(other.address)).to.deep.equal({gas: 0n, wei: 0n});
+  });
+
+  it("charges the relayed transaction's gas to the signer", async function () {
+    const {sc, manufacturer, receiver, relayer} = await deployFixture();
+    const deps = await relayerDeps(sc, relayer, {...GENEROUS_GAS_POLICY, roleDailyGas: {MANUFACTURER: 1_000_000n}});
+    const server = await listen(createApp(deps));
+
+    try {
+      const value = {
+        productId: PRODUCT_ID,
+        to: receiver.address,
+        locationHash: ethers.ZeroHash,
+        nonce: 0n,
+        deadline: (await latestTimestamp()) + 600n
+      };
+      const signature = await signInitiateTransfer(sc, manufacturer, value);
+      const intent = {user: manufacturer.address, ...value, signature};
+      const res = await postJson<SerializedJob>(`${server.url}/relay`, intent);
+      expect(res.status).to.equal(202);
+      const job = await waitForJob(server.url, res.body.jobId);
+
+      const receipt = await ethers.provider.getTransactionReceipt(job.txHash!);
+      const spend = await deps.gasPolicy.spendOf(manufacturer.address);
+      expect(spend.gas).to.equal(receipt!.gasUsed);
+      expect(spend.wei).to.equal(receipt!.gasUsed * receipt!.gasPrice);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import type {CheckResult, ReadinessReport} from "../src/services/readiness";
+import {
+  deployFixture,
+  getJson,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob,
+  type TestRelayerDeps
+} from "./fixtures";
+
+describe("relayer - health", function () {
+  /** GET /readyz; the relayers check lists each key's state. */
+  type Readyz = {
+    status: string;
+    checks: ReadinessReport["checks"] & {relayers: CheckResult & {accounts: {state: string}[]}};
+  };
+
+  async function serve(deps: TestRelayerDeps, fn: (url: string) => Promise<void>) {
+    const server = await listen(createApp(deps));
+    try {
+      await fn(server.url);
+    } finally {
+      await server.close();
+    }
+  }
+
+  it("is live and ready when the chain, keys and queue are fine", async function () {
+    const {sc, relayer} = await deployFixture();
+
+    await serve(await relayerDeps(sc, relayer), async (url) => {
+      expect(await getJson(`${url}/healthz`)).to.deep.equal({status: 200, body: {status: "ok"}});
+
+      const {status, body} = await getJson<Readyz>(`${url}/readyz`);
+      expect(status).to.equal(200);
+      expect(body.status).to.equal("ready");
+      expect(body.checks.rpc).to.deep.equal({ok: true, chainId: "31337", expected: "31337"});
+      expect(body.checks.supplyChain).to.deep.equal({ok: true, address: await sc.getAddress()});
+      expect(body.checks.relayers.accounts).to.have.length(1);
+      expect(body.checks.queue).to.deep.equal({ok: true, stalledJobs: []});
+    });
+  });
+
+  it("is not ready on the wrong chain, without the contract or with an unapproved key", async function () {
+    const {sc, relayer, other} = await deployFixture();
+    const deps = await relayerDeps(sc, [relayer, other]);
+    deps.readiness = {...deps.readiness, chainId: 1n, supplyChainAddress: other.address};
+
+    await serve(deps, async (url) => {
+      const {status, body} = await getJson<Readyz>(`${url}/readyz`);
+      expect(status).to.equal(503);
+      expect(body.status).to.equal("not ready");
+      expect(body.checks.rpc).to.include({ok: false, chainId: "31337", expected: "1"});
+      expect(body.checks.supplyChain).to.include({ok: false});
+      expect(body.checks.relayers.ok).to.equal(false);
+      const states = body.checks.relayers.accounts.map((account) => account.state);
+      expect(states).to.deep.equal(["active", "not approved"]);
+      expect(body.checks.queue.ok).to.equal(true);
+
+      // Liveness does not depend on the chain.
+      expect((await getJson(`${url}/healthz`)).status).to.equal(200);
+    });
+  });
+
+  it("fails a check that hangs instead of hanging the probe", async function () {
+    const {sc, relayer} = await deployFixture();
+    const deps = await relayerDeps(sc, relayer);
+    const stuck = {getNetwork: () => new Promise<never>(() => {}), getCode: () => ethers.provider.getCode(sc)};
+    deps.readiness = {...deps.readiness, provider: stuck as never, timeoutMs: 50};
+
+    await serve(deps, async (url) => {
+      const {status, body} = await getJson<Readyz>(`${url}/readyz`);
+      expect(status).to.equal(503);
+      expect(body.checks.rpc).to.deep.equal({ok: false, error: "timed out after 50ms"});
+      expect(body.checks.supplyChain.ok).to.equal(true);
+    });
+  });
+
+  it("reports jobs whose transactions stop moving", async function () {
+    const {sc, relayer, manufacturer, receiver} = await deployFixture();
+    const deps = await relayerDeps(sc, relayer);
+    deps.readiness = {...deps.readiness, stalledJobMs: 50};
+
+    await serve(deps, async (url) => {
+      const deadline = (await latestTimestamp()) + 3600n;
+      const value = {productId: PRODUCT_ID, to: receiver.address, locationHash: ethers.ZeroHash, nonce: 0n, deadline};
+      const signature = await signInitiateTransfer(sc, manufacturer, value);
+      const intent = {user: manufacturer.address, ...value, signature};
+
+      await ethers.provider.send("evm_setAutomine", [false]);
+      let jobId: string;
+      try {
+        jobId = (await postJson<SerializedJob>(`${url}/relay`, intent)).body.jobId;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        const {status, body} = await getJson<Readyz>(`${url}/readyz`);
+        expect(status).to.equal(503);
+        expect(body.checks.queue).to.deep.equal({ok: false, stalledJobs: [jobId]});
+        await ethers.provider.send("evm_mine", []);
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+
+      expect((await waitForJob(url, jobId)).status).to.equal("mined");
+      expect((await getJson(`${url}/readyz`)).status).to.equal(200);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import {MetricsRegistry} from "../src/services/metrics";
+import {
+  deployFixture,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob
+} from "./fixtures";
+
+describe("relayer - metrics", function () {
+  it("renders counters, gauges and histograms in the Prometheus text format", function () {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("jobs_total", "Jobs.", ["method"]);
+    const gauge = registry.gauge("balance_wei", "Balance.", ["relayer"]);
+    const histogram = registry.histogram("latency_seconds", "Latency.", [], [1, 5]);
+
+    counter.inc({method: "executeMetaTx"});
+    counter.inc({method: "executeMetaTx"}, 2);
+    counter.inc({method: 'we"ird\n'});
+    gauge.set({relayer: "0xabc"}, 10n ** 20n);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 3);
+
+    expect(registry.render().split("\n")).to.include.members([
+      "# TYPE jobs_total counter",
+      'jobs_total{method="executeMetaTx"} 3',
+      'jobs_total{method="we\\"ird\\n"} 1',
+      'balance_wei{relayer="0xabc"} 100000000000000000000',
+      'latency_seconds_bucket{le="1"} 1',
+      'latency_seconds_bucket{le="5"} 2',
+      'latency_seconds_bucket{le="+Inf"} 2',
+      "latency_seconds_sum 3.5",
+      "latency_seconds_count 2"
+    ]);
+    expect(() => registry.counter("jobs_total", "Again.")).to.throw("registered twice");
+  });
+
+  it("exposes relay outcomes, gas, queue depth and wallet balances on /metrics", async function () {
+    const {sc, manufacturer, receiver, relayer, other} = await deployFixture();
+    const server = await listen(createApp(await relayerDeps(sc, relayer)));
+
+    async function intent(signer = manufacturer) {
+      const value = {
+        productId: PRODUCT_ID,
+        to: receiver.address,
+        locationHash: ethers.ZeroHash,
+        nonce: 0n,
+        deadline: (await latestTimestamp()) + 3600n
+      };
+      return {user: signer.address, ...value, signature: await signInitiateTransfer(sc, signer, value)};
+    }
+
+    try {
+      const accepted = await postJson<SerializedJob>(`${server.url}/relay`, await intent());
+      const job = await waitForJob(server.url, accepted.body.jobId);
+      const receipt = await ethers.provider.getTransactionReceipt(job.txHash!);
+      // `other` does not own the product, so the pre-check refuses it as NotAuthorized would.
+      expect((await postJson(`${server.url}/relay`, await intent(other))).status).to.equal(422);
+
+      const res = await fetch(`${server.url}/metrics`);
+      expect(res.headers.get("content-type")).to.contain("text/plain");
+      const lines = (await res.text()).split("\n");
+      const user = manufacturer.address.toLowerCase();
+      const key = relayer.address.toLowerCase();
+
+      expect(lines).to.include.members([
+        'relayer_jobs_submitted_total{method="executeMetaTx"} 1',
+        'relayer_jobs_mined_total{method="executeMetaTx"} 1',
+        'relayer_jobs_failed_total{method="executeMetaTx"} 1',
+        'relayer_reverts_total{method="executeMetaTx",reason="NotAuthorized",stage="precheck"} 1',
+        `relayer_gas_used_by_tenant_total{tenant=""} ${receipt!.gasUsed}`,
+        `relayer_gas_used_by_key_total{relayer="${key}"} ${receipt!.gasUsed}`,
+        'relayer_queue_depth{status="queued"} 0',
+        'relayer_queue_depth{status="submitted"} 0',
+        'relayer_job_mine_latency_seconds_count{method="executeMetaTx"} 1'
+      ]);
+      // Sampled from the pool's last balance check, which may predate the relayed transaction.
+      const series = `relayer_wallet_balance_wei{relayer="${key}",state="active"}`;
+      const balance = lines.find((line) => line.startsWith(series));
+      expect(BigInt(balance!.split(" ")[1])).to.be.greaterThan(0n);
+      // Signers are unbounded, so no series is labelled with one.
+      expect(lines.filter((line) => line.includes(user))).to.deep.equal([]);
+    } finally {
+      await server.close();
+    }
+  });
+});
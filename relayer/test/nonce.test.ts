@@ -0,0 +1,131 @@
+import {expect} from "chai";
+import {promises as fs} from "fs";
+import os from "os";
+import path from "path";
+import {ethers} from "hardhat";
+
+import type {SupplyChainClient} from "../src/blockchain/supplyChain";
+import {createApp} from "../src/server";
+import {AccountNonceManager, NonceError, UserNonceManager} from "../src/services/nonce";
+import {FileJsonStore, MemoryJsonStore} from "../src/services/store";
+import {
+  deployFixture,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob
+} from "./fixtures";
+
+describe("relayer - nonce management", function () {
+  const user = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+  function fakeChain(onChain: bigint): Pick<SupplyChainClient, "nonces"> {
+    return {nonces: async () => onChain};
+  }
+
+  describe("user nonces", function () {
+    it("rejects stale, duplicate and far-future nonces", async function () {
+      const nonces = new UserNonceManager<string>(fakeChain(3n), new MemoryJsonStore(), 2n);
+
+      await expect(nonces.admit(user, 2n, "a")).to.be.rejectedWith(NonceError, "nonce stale");
+      expect(await nonces.admit(user, 3n, "b")).to.deep.equal({status: "ready"});
+      await expect(nonces.admit(user, 3n, "c")).to.be.rejectedWith(NonceError, "nonce duplicate");
+      await expect(nonces.admit(user, 7n, "d")).to.be.rejectedWith(NonceError, "nonce too far ahead");
+    });
+
+    it("queues out-of-order intents until their predecessor is mined", async function () {
+      const nonces = new UserNonceManager<string>(fakeChain(0n), new MemoryJsonStore());
+
+      expect(await nonces.admit(user, 2n, "third")).to.deep.equal({status: "queued", expectedNonce: 0n});
+      expect(await nonces.admit(user, 0n, "first")).to.deep.equal({status: "ready"});
+      expect(await nonces.admit(user, 1n, "second")).to.deep.equal({status: "ready"});
+
+      expect(await nonces.complete(user, 0n)).to.deep.equal([]);
+      expect(await nonces.complete(user, 1n)).to.deep.equal(["third"]);
+      expect(await nonces.queuedNonces(user)).to.deep.equal([]);
+    });
+
+    it("hands a released nonce back for retry", async function () {
+      const nonces = new UserNonceManager<string>(fakeChain(0n), new MemoryJsonStore());
+
+      await nonces.admit(user, 0n, "first");
+      await nonces.release(user, 0n);
+      expect(await nonces.admit(user, 0n, "retry")).to.deep.equal({status: "ready"});
+    });
+
+    it("keeps queued intents across restarts", async function () {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "relayer-nonces-"));
+      const file = path.join(dir, "user-nonces.json");
+
+      try {
+        const before = new UserNonceManager<string>(fakeChain(0n), new FileJsonStore(file));
+        await before.admit(user, 0n, "first");
+        await before.admit(user, 2n, "third");
+
+        const after = new UserNonceManager<string>(fakeChain(0n), new FileJsonStore(file));
+        expect(await after.queuedNonces(user)).to.deep.equal([2n]);
+        // Nonce 0 is still known to be in flight, so 1 is next.
+        expect(await after.admit(user, 1n, "second")).to.deep.equal({status: "ready"});
+        expect(await after.complete(user, 0n)).to.deep.equal([]);
+        expect(await after.complete(user, 1n)).to.deep.equal(["third"]);
+      } finally {
+        await fs.rm(dir, {recursive: true, force: true});
+      }
+    });
+
+    it("submits a queued intent through the relay route once its predecessor is mined", async function () {
+      const {sc, manufacturer, receiver, relayer} = await deployFixture();
+      await sc.connect(manufacturer).mintProduct(PRODUCT_ID + 1n, 1, ethers.ZeroHash);
+      const server = await listen(createApp(await relayerDeps(sc, relayer)));
+
+      async function intent(productId: bigint, nonce: bigint) {
+        const value = {productId, to: receiver.address, locationHash: ethers.ZeroHash, nonce, deadline: (await latestTimestamp()) + 600n};
+        return {user: manufacturer.address, ...value, signature: await signInitiateTransfer(sc, manufacturer, value)};
+      }
+
+      try {
+        const queued = await postJson<SerializedJob>(`${server.url}/relay`, await intent(PRODUCT_ID + 1n, 1n));
+        expect(queued.status).to.equal(202);
+        expect(queued.body).to.include({status: "queued", expectedNonce: "0"});
+
+        const first = await postJson(`${server.url}/relay`, await intent(PRODUCT_ID, 0n));
+        expect(first.body.status).to.equal("submitted");
+
+        expect((await waitForJob(server.url, queued.body.jobId)).status).to.equal("mined");
+        expect(await sc.nonces(manufacturer.address)).to.equal(2n);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe("relayer account nonces", function () {
+    it("hands out unique sequential nonces to concurrent callers", async function () {
+      const provider = {getTransactionCount: async () => 5};
+      const nonces = new AccountNonceManager(provider, user, new MemoryJsonStore());
+
+      const allocated = await Promise.all([nonces.allocate(), nonces.allocate(), nonces.allocate()]);
+      expect(allocated).to.deep.equal([5, 6, 7]);
+    });
+
+    it("resumes from the persisted counter and resyncs to the chain after a dropped transaction", async function () {
+      let pending = 5;
+      const provider = {getTransactionCount: async () => pending};
+      const store = new MemoryJsonStore<{next: number}>();
+      await store.save({next: 9});
+
+      const nonces = new AccountNonceManager(provider, user, store);
+      expect(await nonces.allocate()).to.equal(9);
+
+      // Nonce 9 never made it into the mempool: fall back to the node's view.
+      pending = 6;
+      await nonces.resync();
+      expect(await nonces.allocate()).to.equal(6);
+      expect(await store.load()).to.deep.equal({next: 7});
+    });
+  });
+});
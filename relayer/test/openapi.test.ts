@@ -0,0 +1,119 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import {
+  deployFixture,
+  getJson,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  signInitiateTransfer
+} from "./fixtures";
+
+describe("relayer - OpenAPI and request schemas", function () {
+  /** The parts of an OpenAPI document these tests read. */
+  interface Schema {
+    $ref?: string;
+    additionalProperties?: boolean;
+    properties?: Record<string, Schema>;
+    required?: string[];
+    anyOf?: Schema[];
+  }
+  interface Operation {
+    requestBody?: {content: Record<string, {schema: Schema}>};
+  }
+  interface OpenApiDocument {
+    openapi: string;
+    paths: Record<string, Record<string, Operation>>;
+    components: {schemas: Record<string, Schema>};
+  }
+
+  async function schemaFixture() {
+    const fixture = await deployFixture();
+    const deps = await relayerDeps(fixture.sc, fixture.relayer);
+    let verified = 0;
+    const verify = deps.verifier.verify.bind(deps.verifier);
+    deps.verifier.verify = (intent) => {
+      verified++;
+      return verify(intent);
+    };
+    const server = await listen(createApp(deps));
+
+    const {sc, manufacturer, receiver} = fixture;
+    const value = {
+      productId: PRODUCT_ID,
+      to: receiver.address,
+      locationHash: ethers.ZeroHash,
+      nonce: 0n,
+      deadline: (await latestTimestamp()) + 3600n
+    };
+    const intent = {user: manufacturer.address, ...value, signature: await signInitiateTransfer(sc, manufacturer, value)};
+    return {...fixture, server, intent, verified: () => verified};
+  }
+
+  it("publishes every route with the signed-intent schemas", async function () {
+    const {server} = await schemaFixture();
+    try {
+      const {status, body} = await getJson<OpenApiDocument>(`${server.url}/openapi.json`);
+      expect(status).to.equal(200);
+      expect(body.openapi).to.equal("3.0.3");
+      expect(body.paths).to.include.keys(
+        "/relay",
+        "/relay/simulate",
+        "/relay/{jobId}",
+        "/healthz",
+        "/readyz",
+        "/metrics",
+        "/tenants/usage",
+        "/admin/status",
+        "/admin/signers/{address}/ban",
+        "/admin/gas-policy",
+        "/admin/jobs"
+      );
+
+      const {schemas} = body.components;
+      expect(body.paths["/relay"].post.requestBody!.content["application/json"].schema).to.deep.equal({
+        $ref: "#/components/schemas/RelayRequest"
+      });
+      expect(schemas.MetaTxIntent.additionalProperties).to.equal(false);
+      expect(schemas.MetaTxIntent.properties!.to).to.deep.equal({$ref: "#/components/schemas/Address"});
+      expect(schemas.AcceptTransferIntent.required).to.include("method");
+      expect(schemas.AcceptTransferIntent.properties).to.not.have.property("to");
+      expect(schemas.Uint256.anyOf).to.have.length(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("rejects unknown and missing fields before any signature work", async function () {
+    const {sc, manufacturer, server, intent, verified} = await schemaFixture();
+    try {
+      const unknown = await postJson(`${server.url}/relay`, {...intent, gasLimit: "1"});
+      expect(unknown.status).to.equal(400);
+      expect(unknown.body).to.include({field: "gasLimit", reason: "unknown field"});
+
+      const {locationHash: _, ...missing} = intent;
+      const incomplete = await postJson(`${server.url}/relay/simulate`, missing);
+      expect(incomplete.status).to.equal(400);
+      expect(incomplete.body).to.include({field: "locationHash", reason: "expected 32 bytes of 0x-prefixed hex"});
+
+      // An accept intent has no recipient.
+      const accept = await postJson(`${server.url}/relay`, {...intent, method: "acceptTransferWithSig"});
+      expect(accept.body).to.include({field: "to", reason: "unknown field"});
+
+      const badNonce = await postJson(`${server.url}/relay`, {...intent, nonce: -1});
+      expect(badNonce.body).to.include({field: "nonce", reason: "expected a uint256 as a decimal string"});
+
+      expect(verified()).to.equal(0);
+      expect(await sc.nonces(manufacturer.address)).to.equal(0n);
+
+      expect((await postJson(`${server.url}/relay`, intent)).status).to.equal(202);
+      expect(verified()).to.be.greaterThan(0);
+    } finally {
+      await server.close();
+    }
+  });
+});
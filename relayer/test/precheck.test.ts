@@ -0,0 +1,145 @@
+import {expect} from "chai";
+import type {Filter} from "ethers";
+import {ethers} from "hardhat";
+
+import {SupplyChainClient} from "../src/blockchain/supplyChain";
+import type {RelayIntent} from "../src/intents";
+import {PrecheckError, ProductPrechecks} from "../src/services/precheck";
+import {deployFixture, PRODUCT_ID} from "./fixtures";
+
+describe("relayer - product pre-checks", function () {
+  async function precheckFixture() {
+    const fixture = await deployFixture();
+    const supplyChain = new SupplyChainClient(fixture.sc.connect(ethers.provider));
+    const config = {cacheTtlMs: 60_000, fromBlock: 0, blockRange: 2_000};
+    const prechecks = new ProductPrechecks({supplyChain, provider: ethers.provider}, config);
+    return {...fixture, prechecks};
+  }
+
+  function initiate(user: string, to: string, productId = PRODUCT_ID): RelayIntent {
+    const fields = {locationHash: ethers.ZeroHash, nonce: 0n, deadline: 0n, signature: "0x"};
+    return {method: "initiateTransferWithSig", user, productId, to, ...fields};
+  }
+
+  function accept(user: string): RelayIntent {
+    return {method: "acceptTransferWithSig", user, productId: PRODUCT_ID, nonce: 0n, deadline: 0n, signature: "0x"};
+  }
+
+  async function refusal(prechecks: ProductPrechecks, intent: RelayIntent): Promise<[string, string] | undefined> {
+    try {
+      await prechecks.check(intent);
+      return undefined;
+    } catch (err) {
+      if (!(err instanceof PrecheckError)) throw err;
+      expect(err.status).to.equal(422);
+      return [err.reason, err.revert];
+    }
+  }
+
+  it("refuses an initiate with the guard SupplyChain would revert on", async function () {
+    const {sc, manufacturer, receiver, other, prechecks} = await precheckFixture();
+
+    expect(await refusal(prechecks, initiate(manufacturer.address, receiver.address))).to.equal(undefined);
+    expect(await refusal(prechecks, initiate(manufacturer.address, receiver.address, 999n))).to.deep.equal([
+      "product not found",
+      "ProductNotFound"
+    ]);
+    expect(await refusal(prechecks, initiate(other.address, receiver.address))).to.deep.equal([
+      "not owner",
+      "NotAuthorized"
+    ]);
+    expect(await refusal(prechecks, initiate(manufacturer.address, manufacturer.address))).to.deep.equal([
+      "invalid receiver",
+      "InvalidReceiver"
+    ]);
+
+    await sc.connect(other).raiseDispute(PRODUCT_ID, ethers.ZeroHash);
+    prechecks.invalidate(PRODUCT_ID);
+    expect(await refusal(prechecks, initiate(manufacturer.address, receiver.address))).to.deep.equal([
+      "dispute active",
+      "DisputeNotActive"
+    ]);
+  });
+
+  it("follows a pending transfer from its events until it times out", async function () {
+    const {sc, manufacturer, receiver, other, prechecks} = await precheckFixture();
+    expect(await refusal(prechecks, accept(receiver.address))).to.deep.equal([
+      "no pending transfer",
+      "NoPendingTransfer"
+    ]);
+
+    await sc.connect(manufacturer).initiateTransfer(PRODUCT_ID, receiver.address, ethers.ZeroHash);
+    // Still answered from the cache until the product's state is dropped.
+    expect(await refusal(prechecks, accept(receiver.address))).to.deep.equal([
+      "no pending transfer",
+      "NoPendingTransfer"
+    ]);
+    prechecks.invalidate(PRODUCT_ID);
+
+    expect(await refusal(prechecks, accept(receiver.address))).to.equal(undefined);
+    expect(await refusal(prechecks, accept(other.address))).to.deep.equal(["not receiver", "NotAuthorized"]);
+    expect(await refusal(prechecks, initiate(manufacturer.address, other.address))).to.deep.equal([
+      "transfer already pending",
+      "TransferAlreadyPending"
+    ]);
+
+    await ethers.provider.send("evm_increaseTime", [3 * 24 * 3600 + 1]);
+    await ethers.provider.send("evm_mine", []);
+    prechecks.invalidate(PRODUCT_ID);
+    expect(await refusal(prechecks, accept(receiver.address))).to.deep.equal(["transfer expired", "DeadlineExpired"]);
+    // An expired transfer no longer blocks a new one, as in _initiateTransfer.
+    expect(await refusal(prechecks, initiate(manufacturer.address, other.address))).to.equal(undefined);
+  });
+
+  it("keeps a transfer pending when its dispute ends in a claimed refund", async function () {
+    const {sc, manufacturer, receiver, other, prechecks} = await precheckFixture();
+    await sc.connect(manufacturer).initiateTransfer(PRODUCT_ID, receiver.address, ethers.ZeroHash);
+    await sc.connect(other).raiseDispute(PRODUCT_ID, ethers.ZeroHash);
+    await ethers.provider.send("evm_increaseTime", [14 * 24 * 3600]);
+    await ethers.provider.send("evm_mine", []);
+    await sc.connect(manufacturer).claimRefund(PRODUCT_ID);
+    prechecks.invalidate(PRODUCT_ID);
+
+    // claimRefund does not delete the transfer, so accepting it reverts on its age, not on its absence.
+    expect(await refusal(prechecks, accept(receiver.address))).to.deep.equal(["transfer expired", "DeadlineExpired"]);
+    await expect(sc.connect(receiver).acceptTransfer(PRODUCT_ID)).to.be.revertedWithCustomError(sc, "DeadlineExpired");
+    expect(await refusal(prechecks, initiate(manufacturer.address, other.address))).to.equal(undefined);
+  });
+
+  it("reads pending transfers in block ranges the RPC accepts", async function () {
+    const {sc, manufacturer, receiver, other} = await deployFixture();
+    const fromBlock = await ethers.provider.getBlockNumber();
+    // Like hosted RPCs, refuse eth_getLogs over more than 10 blocks.
+    const capped: typeof ethers.provider = new Proxy(ethers.provider, {
+      get(target, property) {
+        if (property === "provider") return capped;
+        if (property === "getLogs") {
+          return (filter: Filter) => {
+            const {fromBlock: from, toBlock: to} = filter;
+            if (typeof from !== "number" || typeof to !== "number" || to - from >= 10) {
+              return Promise.reject(new Error("block range is too wide"));
+            }
+            return target.getLogs(filter);
+          };
+        }
+        const value = Reflect.get(target, property, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      }
+    });
+    const supplyChain = new SupplyChainClient(sc.connect(capped));
+    const config = {cacheTtlMs: 60_000, fromBlock, blockRange: 10};
+    const prechecks = new ProductPrechecks({supplyChain, provider: capped}, config);
+
+    await ethers.provider.send("hardhat_mine", ["0x10"]);
+    await sc.connect(manufacturer).initiateTransfer(PRODUCT_ID, receiver.address, ethers.ZeroHash);
+    await ethers.provider.send("hardhat_mine", ["0x10"]);
+    const head = await ethers.provider.getBlockNumber();
+    await expect(supplyChain.transferEvents(fromBlock, head)).to.be.rejectedWith("block range is too wide");
+
+    expect(await refusal(prechecks, accept(receiver.address))).to.equal(undefined);
+    expect(await refusal(prechecks, initiate(manufacturer.address, other.address))).to.deep.equal([
+      "transfer already pending",
+      "TransferAlreadyPending"
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import {RateLimiter, RateLimitError, type RateLimitConfig} from "../src/services/rateLimit";
+import {
+  deployFixture,
+  GENEROUS_GAS_POLICY,
+  GENEROUS_RATE_LIMITS,
+  latestTimestamp,
+  listen,
+  PRODUCT_ID,
+  relayerDeps,
+  signInitiateTransfer
+} from "./fixtures";
+
+describe("relayer - rate limiting", function () {
+  const config: RateLimitConfig = {
+    signer: {capacity: 2, refillPerMinute: 6},
+    ip: {capacity: 3, refillPerMinute: 60},
+    product: {capacity: 1, refillPerMinute: 1},
+    ban: {maxInvalidSignatures: 3, windowSeconds: 60, banSeconds: 300}
+  };
+
+  function limiterAt(start = 1_700_000_000_000) {
+    const clock = {now: start};
+    return {clock, limiter: new RateLimiter(config, {now: () => clock.now})};
+  }
+
+  it("allows a burst up to capacity, then reports when the next token arrives", async function () {
+    const {limiter} = limiterAt();
+    const signer = "0x00000000000000000000000000000000000000aa";
+
+    await limiter.take("signer", signer);
+    await limiter.take("signer", signer);
+    // 6 per minute refills one token every 10 seconds.
+    await expect(limiter.take("signer", signer))
+      .to.be.rejectedWith(RateLimitError)
+      .and.eventually.include({scope: "signer", retryAfter: 10});
+  });
+
+  it("refills over time and keeps keys and scopes independent", async function () {
+    const {clock, limiter} = limiterAt();
+
+    await limiter.take("product", "100");
+    await expect(limiter.take("product", "100")).to.be.rejectedWith(RateLimitError);
+    await limiter.take("product", "101");
+    await limiter.take("ip", "100");
+
+    clock.now += 60_000;
+    await limiter.take("product", "100");
+  });
+
+  it("treats checksummed and lowercase signers as one key", async function () {
+    const {limiter} = limiterAt();
+    const signer = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+    await limiter.take("signer", signer);
+    await limiter.take("signer", signer.toLowerCase());
+    await expect(limiter.take("signer", signer)).to.be.rejectedWith(RateLimitError);
+  });
+
+  it("bans an IP after repeated invalid signatures inside the window", async function () {
+    const {clock, limiter} = limiterAt();
+
+    await limiter.recordInvalidSignature("10.0.0.1");
+    clock.now += 61_000;
+    // The first strike has aged out of the window.
+    await limiter.recordInvalidSignature("10.0.0.1");
+    await limiter.recordInvalidSignature("10.0.0.1");
+    await limiter.checkBan("10.0.0.1");
+
+    await limiter.recordInvalidSignature("10.0.0.1");
+    await expect(limiter.checkBan("10.0.0.1"))
+      .to.be.rejectedWith(RateLimitError)
+      .and.eventually.include({scope: "banned", retryAfter: 300});
+    await limiter.checkBan("10.0.0.2");
+
+    clock.now += 300_000;
+    await limiter.checkBan("10.0.0.1");
+  });
+
+  it("answers limited requests with 429 and Retry-After", async function () {
+    const {sc, manufacturer, receiver, relayer} = await deployFixture();
+    const rateLimits = {...GENEROUS_RATE_LIMITS, ban: {maxInvalidSignatures: 2, windowSeconds: 60, banSeconds: 120}};
+    const server = await listen(createApp(await relayerDeps(sc, relayer, GENEROUS_GAS_POLICY, rateLimits)));
+
+    try {
+      const value = {
+        productId: PRODUCT_ID,
+        to: receiver.address,
+        locationHash: ethers.ZeroHash,
+        nonce: 0n,
+        deadline: (await latestTimestamp()) + 3600n
+      };
+      const signature = await signInitiateTransfer(sc, receiver, value);
+      const forged = JSON.stringify({user: manufacturer.address, ...value, signature}, (_key, v) =>
+        typeof v === "bigint" ? v.toString() : v
+      );
+      const post = () =>
+        fetch(`${server.url}/relay`, {method: "POST", headers: {"content-type": "application/json"}, body: forged});
+
+      expect((await post()).status).to.equal(400);
+      expect((await post()).status).to.equal(400);
+
+      const banned = await post();
+      expect(banned.status).to.equal(429);
+      expect(banned.headers.get("retry-after")).to.equal("120");
+      expect(await banned.json()).to.include({scope: "banned", retryAfter: 120});
+    } finally {
+      await server.close();
+    }
+  });
+});
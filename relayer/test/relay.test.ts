@@ -0,0 +1,225 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import {
+  deployFixture,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  signAcceptTransfer,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob
+} from "./fixtures";
+
+describe("relayer - POST /relay", function () {
+  async function relayFixture() {
+    const fixture = await deployFixture();
+    const server = await listen(createApp(await relayerDeps(fixture.sc, fixture.relayer)));
+    return {...fixture, server};
+  }
+
+  async function signedIntent(fixture: Awaited<ReturnType<typeof relayFixture>>, signer = fixture.manufacturer) {
+    const {sc, receiver} = fixture;
+    const value = {
+      productId: PRODUCT_ID,
+      to: receiver.address,
+      locationHash: ethers.id("warehouse-7"),
+      nonce: await sc.nonces(signer.address),
+      deadline: (await latestTimestamp()) + 3600n
+    };
+    const signature = await signInitiateTransfer(sc, signer, value);
+    return {user: signer.address, ...value, signature};
+  }
+
+  it("submits a signed InitiateTransfer intent from the relayer key", async function () {
+    const fixture = await relayFixture();
+    const {sc, manufacturer, receiver, relayer, server} = fixture;
+
+    try {
+      const res = await postJson<SerializedJob>(`${server.url}/relay`, await signedIntent(fixture));
+
+      expect(res.status).to.equal(202);
+      expect(res.body.status).to.equal("submitted");
+      expect(res.body.txHash).to.match(/^0x[0-9a-f]{64}$/);
+
+      const job = await waitForJob(server.url, res.body.jobId);
+      expect(job).to.include({status: "mined", txHash: res.body.txHash, attempts: 1});
+      const tx = await ethers.provider.getTransaction(res.body.txHash!);
+      expect(tx!.from).to.equal(relayer.address);
+      expect(await sc.nonces(manufacturer.address)).to.equal(1n);
+      // Ownership only moves once the receiver accepts.
+      expect(await sc.ownerOf(PRODUCT_ID)).to.equal(manufacturer.address);
+
+      await expect(sc.connect(receiver).acceptTransfer(PRODUCT_ID)).to.emit(sc, "TransferAccepted");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("answers a resent intent with the existing job instead of relaying it again", async function () {
+    const fixture = await relayFixture();
+    const {relayer, server} = fixture;
+
+    try {
+      const intent = await signedIntent(fixture);
+      const first = await postJson<SerializedJob>(`${server.url}/relay`, intent);
+      expect(first.status).to.equal(202);
+      await waitForJob(server.url, first.body.jobId);
+      const sent = await ethers.provider.getTransactionCount(relayer.address);
+
+      // Same signed intent through the other InitiateTransfer method: same EIP-712 digest.
+      const retry = await postJson(`${server.url}/relay`, {...intent, method: "initiateTransferWithSig"});
+      expect(retry.status).to.equal(200);
+      expect(retry.body).to.include({
+        jobId: first.body.jobId,
+        intentHash: first.body.intentHash,
+        txHash: first.body.txHash,
+        status: "mined"
+      });
+      expect(await ethers.provider.getTransactionCount(relayer.address)).to.equal(sent);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("rejects malformed bodies with the offending field", async function () {
+    const fixture = await relayFixture();
+    const {server} = fixture;
+
+    try {
+      const intent = await signedIntent(fixture);
+      const res = await postJson(`${server.url}/relay`, {...intent, to: "0x1234"});
+
+      expect(res.status).to.equal(400);
+      expect(res.body.field).to.equal("to");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("rejects intents whose signer is not the claimed user before submitting", async function () {
+    const fixture = await relayFixture();
+    const {server, other} = fixture;
+
+    try {
+      const intent = await signedIntent(fixture);
+      const sent = await ethers.provider.getTransactionCount(fixture.relayer.address);
+      const res = await postJson(`${server.url}/relay`, {...intent, user: other.address});
+
+      expect(res.status).to.equal(400);
+      expect(res.body.field).to.equal("signature");
+      expect(await ethers.provider.getTransactionCount(fixture.relayer.address)).to.equal(sent);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("reports the decoded custom error when the call would revert", async function () {
+    const fixture = await relayFixture();
+    const {server, other} = fixture;
+
+    try {
+      // Correctly signed, but `other` does not own the product.
+      const intent = await signedIntent(fixture, other);
+      const res = await postJson(`${server.url}/relay`, intent);
+
+      expect(res.status).to.equal(422);
+      expect(res.body).to.include({reason: "not owner", revert: "NotAuthorized"});
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("relays initiateTransferWithSig and acceptTransferWithSig so neither party pays gas", async function () {
+    const fixture = await relayFixture();
+    const {sc, manufacturer, receiver, server} = fixture;
+
+    try {
+      const initiate = await signedIntent(fixture);
+      const initiated = await postJson<SerializedJob>(`${server.url}/relay`, {
+        ...initiate,
+        method: "initiateTransferWithSig"
+      });
+      expect((await waitForJob(server.url, initiated.body.jobId)).status).to.equal("mined");
+
+      const accept = {productId: PRODUCT_ID, nonce: 0n, deadline: (await latestTimestamp()) + 3600n};
+      const signature = await signAcceptTransfer(sc, receiver, accept);
+      const accepted = await postJson<SerializedJob>(`${server.url}/relay`, {
+        method: "acceptTransferWithSig",
+        user: receiver.address,
+        ...accept,
+        signature
+      });
+      expect((await waitForJob(server.url, accepted.body.jobId)).status).to.equal("mined");
+
+      expect(await sc.ownerOf(PRODUCT_ID)).to.equal(receiver.address);
+      expect(await sc.nonces(manufacturer.address)).to.equal(1n);
+      expect(await sc.nonces(receiver.address)).to.equal(1n);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("checks AcceptTransfer intents against the AcceptTransfer struct", async function () {
+    const fixture = await relayFixture();
+    const {sc, receiver, other, server} = fixture;
+
+    try {
+      const accept = {productId: PRODUCT_ID, nonce: 0n, deadline: (await latestTimestamp()) + 3600n};
+      const signature = await signAcceptTransfer(sc, other, accept);
+      const res = await postJson(`${server.url}/relay`, {
+        method: "acceptTransferWithSig",
+        user: receiver.address,
+        ...accept,
+        signature
+      });
+
+      expect(res.status).to.equal(400);
+      expect(res.body.field).to.equal("signature");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("orders different intent types on the signer's single nonce sequence", async function () {
+    const fixture = await relayFixture();
+    const {sc, receiver, other, server} = fixture;
+
+    try {
+      const initiated = await postJson<SerializedJob>(`${server.url}/relay`, await signedIntent(fixture));
+      await waitForJob(server.url, initiated.body.jobId);
+      const deadline = (await latestTimestamp()) + 3600n;
+
+      // The receiver passes the product on (nonce 1) before their accept (nonce 0) has been relayed.
+      const onward = {productId: PRODUCT_ID, to: other.address, locationHash: ethers.ZeroHash, nonce: 1n, deadline};
+      const queued = await postJson<SerializedJob>(`${server.url}/relay`, {
+        method: "initiateTransferWithSig",
+        user: receiver.address,
+        ...onward,
+        signature: await signInitiateTransfer(sc, receiver, onward)
+      });
+      expect(queued.status).to.equal(202);
+      expect(queued.body).to.include({status: "queued", expectedNonce: "0"});
+
+      const accept = {productId: PRODUCT_ID, nonce: 0n, deadline};
+      const accepted = await postJson(`${server.url}/relay`, {
+        method: "acceptTransferWithSig",
+        user: receiver.address,
+        ...accept,
+        signature: await signAcceptTransfer(sc, receiver, accept)
+      });
+      expect(accepted.status).to.equal(202);
+
+      // The queued intent is released in the background once nonce 0 is consumed.
+      expect((await waitForJob(server.url, queued.body.jobId)).status).to.equal("mined");
+      expect(await sc.nonces(receiver.address)).to.equal(2n);
+      await expect(sc.connect(other).acceptTransfer(PRODUCT_ID)).to.emit(sc, "TransferAccepted");
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,214 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {HardhatEthersSigner} from "@nomicfoundation/hardhat-ethers/signers";
+
+import {createApp} from "../src/server";
+import {UserNonceManager} from "../src/services/nonce";
+import {RelayQueue, type PersistedJobs, type RelayJob} from "../src/services/relayQueue";
+import {MemoryJsonStore} from "../src/services/store";
+import type {RelayIntent} from "../src/intents";
+import {
+  deployFixture,
+  FAST_QUEUE,
+  getJson,
+  latestTimestamp,
+  listen,
+  PRODUCT_ID,
+  relayerDeps,
+  signInitiateTransfer
+} from "./fixtures";
+
+describe("relayer - relay job queue", function () {
+  async function queueFixture(resubmitAfterMs = FAST_QUEUE.resubmitAfterMs) {
+    const fixture = await deployFixture();
+    const deps = await relayerDeps(fixture.sc, fixture.relayer);
+    const clock = {now: Date.now()};
+    const store = new MemoryJsonStore<PersistedJobs>();
+    const userNonces = new UserNonceManager<string>(deps.supplyChain, new MemoryJsonStore());
+    const newQueue = () =>
+      new RelayQueue(
+        {
+          wallets: deps.wallets,
+          provider: ethers.provider,
+          verifier: deps.verifier,
+          gasPolicy: deps.gasPolicy,
+          userNonces,
+          store,
+          now: () => clock.now
+        },
+        {...FAST_QUEUE, resubmitAfterMs}
+      );
+    return {...fixture, deps, clock, newQueue};
+  }
+
+  async function intent(
+    fixture: Awaited<ReturnType<typeof deployFixture>>,
+    signer: HardhatEthersSigner,
+    productId: bigint,
+    nonce: bigint,
+    deadline: bigint
+  ): Promise<RelayIntent> {
+    const value = {productId, to: fixture.receiver.address, locationHash: ethers.ZeroHash, nonce, deadline};
+    const signature = await signInitiateTransfer(fixture.sc, signer, value);
+    return {method: "executeMetaTx", user: signer.address, ...value, signature};
+  }
+
+  async function settled(queue: RelayQueue, id: string): Promise<RelayJob> {
+    for (let i = 0; i < 500; i++) {
+      const job = (await queue.get(id))!;
+      if (["mined", "failed", "expired"].includes(job.status)) return job;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`job ${id} did not settle`);
+  }
+
+  async function withoutAutomine<T>(fn: () => Promise<T>): Promise<T> {
+    await ethers.provider.send("evm_setAutomine", [false]);
+    try {
+      return await fn();
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+  }
+
+  it("replaces a stuck transaction with bumped fees at the same nonce", async function () {
+    const fixture = await queueFixture(1_000);
+    const {manufacturer, clock, newQueue} = fixture;
+    const queue = newQueue();
+
+    try {
+      const deadline = (await latestTimestamp()) + 3600n;
+      const job = await withoutAutomine(async () => {
+        const submitted = await queue.submit(await intent(fixture, manufacturer, PRODUCT_ID, 0n, deadline));
+        expect(submitted.status).to.equal("submitted");
+
+        clock.now += 1_000;
+        for (let i = 0; i < 200 && submitted.attempts.length < 2; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        await ethers.provider.send("evm_mine", []);
+        return submitted;
+      });
+
+      const done = await settled(queue, job.id);
+      expect(done.status).to.equal("mined");
+      expect(done.attempts).to.have.length(2);
+      expect(done.txHash).to.equal(done.attempts[1].txHash);
+      expect(BigInt(done.attempts[1].fees.maxFeePerGas)).to.be.greaterThan(BigInt(done.attempts[0].fees.maxFeePerGas));
+
+      const [first, second] = await Promise.all(done.attempts.map((a) => ethers.provider.getTransaction(a.txHash)));
+      expect(second!.nonce).to.equal(done.accountNonce);
+      expect(first).to.equal(null);
+    } finally {
+      await queue.close();
+    }
+  });
+
+  it("expires a queued job whose deadline passes before its turn", async function () {
+    const fixture = await queueFixture();
+    const {sc, manufacturer, clock, newQueue} = fixture;
+    await sc.connect(manufacturer).mintProduct(PRODUCT_ID + 1n, 1, ethers.ZeroHash);
+    const queue = newQueue();
+
+    try {
+      const now = await latestTimestamp();
+      const late = await queue.submit(await intent(fixture, manufacturer, PRODUCT_ID + 1n, 1n, now + 60n));
+      expect(late).to.include({status: "queued", waitingForNonce: "0"});
+
+      clock.now = Number(now + 120n) * 1000;
+      const first = await queue.submit(await intent(fixture, manufacturer, PRODUCT_ID, 0n, now + 3600n));
+      expect((await settled(queue, first.id)).status).to.equal("mined");
+
+      const expired = await settled(queue, late.id);
+      expect(expired.status).to.equal("expired");
+      expect(expired.attempts).to.deep.equal([]);
+      expect(await sc.nonces(manufacturer.address)).to.equal(1n);
+    } finally {
+      await queue.close();
+    }
+  });
+
+  it("marks a job whose transaction reverts on-chain as failed", async function () {
+    const fixture = await queueFixture();
+    const {sc, manufacturer, receiver, newQueue} = fixture;
+    const queue = newQueue();
+
+    try {
+      const deadline = (await latestTimestamp()) + 3600n;
+      const job = await withoutAutomine(async () => {
+        const submitted = await queue.submit(await intent(fixture, manufacturer, PRODUCT_ID, 0n, deadline));
+        // Mined first in the same block, so the relayed transfer hits TransferAlreadyPending.
+        await sc.connect(manufacturer).initiateTransfer(PRODUCT_ID, receiver.address, ethers.ZeroHash, {
+          maxPriorityFeePerGas: ethers.parseUnits("100", "gwei"),
+          maxFeePerGas: ethers.parseUnits("200", "gwei")
+        });
+        await ethers.provider.send("evm_mine", []);
+        return submitted;
+      });
+
+      const done = await settled(queue, job.id);
+      expect(done.status).to.equal("failed");
+      expect(done.blockNumber).to.be.a("number");
+    } finally {
+      await queue.close();
+    }
+  });
+
+  it("keeps watching submitted jobs after a restart", async function () {
+    const fixture = await queueFixture();
+    const {manufacturer, newQueue} = fixture;
+    const before = newQueue();
+
+    const deadline = (await latestTimestamp()) + 3600n;
+    const job = await withoutAutomine(async () => {
+      const submitted = await before.submit(await intent(fixture, manufacturer, PRODUCT_ID, 0n, deadline));
+      await before.close();
+      await ethers.provider.send("evm_mine", []);
+      return submitted;
+    });
+
+    const after = newQueue();
+    try {
+      expect((await after.get(job.id))!.status).to.equal("submitted");
+      await after.resume();
+      expect((await settled(after, job.id)).status).to.equal("mined");
+    } finally {
+      await after.close();
+    }
+  });
+
+  it("maps resent intents to their job across restarts", async function () {
+    const fixture = await queueFixture();
+    const {manufacturer, newQueue} = fixture;
+    const deadline = (await latestTimestamp()) + 3600n;
+    const signed = await intent(fixture, manufacturer, PRODUCT_ID, 0n, deadline);
+
+    const before = newQueue();
+    const [job, concurrent] = await Promise.all([before.submit(signed), before.submit(signed)]);
+    expect(concurrent.id).to.equal(job.id);
+    await settled(before, job.id);
+    await before.close();
+
+    const after = newQueue();
+    try {
+      const resent = await after.submit(signed);
+      expect(resent).to.include({id: job.id, status: "mined", txHash: job.txHash});
+      expect(resent.attempts).to.have.length(1);
+    } finally {
+      await after.close();
+    }
+  });
+
+  it("answers 404 for unknown jobs", async function () {
+    const {sc, relayer} = await deployFixture();
+    const server = await listen(createApp(await relayerDeps(sc, relayer)));
+
+    try {
+      const res = await getJson(`${server.url}/relay/00000000-0000-0000-0000-000000000000`);
+      expect(res.status).to.equal(404);
+      expect(res.body.error).to.equal("job not found");
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {SupplyChainClient} from "../src/blockchain/supplyChain";
+import {
+  ACCEPT_TRANSFER_TYPEHASH,
+  ACCEPT_TRANSFER_TYPES,
+  INITIATE_TRANSFER_TYPEHASH,
+  INITIATE_TRANSFER_TYPES,
+  SignatureError,
+  SignatureVerifier
+} from "../src/services/signature";
+import {deployFixture, latestTimestamp, PRODUCT_ID, signInitiateTransfer} from "./fixtures";
+
+describe("relayer - signature verification", function () {
+  const verifyingContract = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const chainId = 31337n;
+  const now = 1_700_000_000n;
+
+  function domain(overrides: {chainId?: bigint} = {}) {
+    return {name: "SupplyChain", version: "1", chainId: overrides.chainId ?? chainId, verifyingContract};
+  }
+
+  async function signedInitiate(overrides: {chainId?: bigint} = {}) {
+    const [owner, receiver] = await ethers.getSigners();
+    const value = {productId: 100n, to: receiver.address, locationHash: ethers.ZeroHash, nonce: 0n, deadline: now + 60n};
+    const signature = await owner.signTypedData(domain(overrides), INITIATE_TRANSFER_TYPES, value);
+    return {user: owner.address, ...value, signature};
+  }
+
+  it("derives the same typehashes as SupplyChain.sol", function () {
+    expect(ethers.id(ethers.TypedDataEncoder.from(INITIATE_TRANSFER_TYPES).encodeType("InitiateTransfer"))).to.equal(
+      INITIATE_TRANSFER_TYPEHASH
+    );
+    expect(ethers.id(ethers.TypedDataEncoder.from(ACCEPT_TRANSFER_TYPES).encodeType("AcceptTransfer"))).to.equal(
+      ACCEPT_TRANSFER_TYPEHASH
+    );
+  });
+
+  it("accepts an InitiateTransfer signed by the claimed user", async function () {
+    const verifier = new SignatureVerifier(chainId, verifyingContract, {now: () => now});
+    const intent = await signedInitiate();
+    expect(() => verifier.verifyMetaTx(intent)).to.not.throw();
+  });
+
+  it("rejects a signature from someone other than the user", async function () {
+    const [, , impostor] = await ethers.getSigners();
+    const verifier = new SignatureVerifier(chainId, verifyingContract, {now: () => now});
+    const intent = await signedInitiate();
+
+    expect(() => verifier.verifyMetaTx({...intent, user: impostor.address}))
+      .to.throw(SignatureError)
+      .with.property("field", "signature");
+  });
+
+  it("rejects an expired deadline", async function () {
+    const verifier = new SignatureVerifier(chainId, verifyingContract, {now: () => now + 61n});
+    const intent = await signedInitiate();
+    expect(() => verifier.verifyMetaTx(intent))
+      .to.throw(SignatureError)
+      .with.property("field", "deadline");
+  });
+
+  it("rejects intents signed for another chain", async function () {
+    const verifier = new SignatureVerifier(chainId, verifyingContract, {now: () => now});
+
+    const foreign = await signedInitiate({chainId: 1n});
+    expect(() => verifier.verifyMetaTx({...foreign, chainId: 1n}))
+      .to.throw(SignatureError)
+      .with.property("field", "chainId");
+    // Without a declared chainId the foreign domain still fails signer recovery.
+    expect(() => verifier.verifyMetaTx(foreign))
+      .to.throw(SignatureError)
+      .with.property("field", "signature");
+  });
+
+  it("rejects signatures that cannot be recovered", async function () {
+    const verifier = new SignatureVerifier(chainId, verifyingContract, {now: () => now});
+    const intent = await signedInitiate();
+
+    expect(() => verifier.verifyMetaTx({...intent, signature: "0x" + "00".repeat(65)}))
+      .to.throw(SignatureError)
+      .with.property("field", "signature");
+  });
+
+  it("agrees with the contract on InitiateTransfer and AcceptTransfer signatures", async function () {
+    const {sc, manufacturer, receiver, relayer} = await deployFixture();
+    const verifier = await SignatureVerifier.fromContract(new SupplyChainClient(sc));
+    const deadline = (await latestTimestamp()) + 3600n;
+
+    const initiate = {productId: PRODUCT_ID, to: receiver.address, locationHash: ethers.ZeroHash, nonce: 0n, deadline};
+    const initiateSig = await signInitiateTransfer(sc, manufacturer, initiate);
+    verifier.verifyMetaTx({user: manufacturer.address, ...initiate, signature: initiateSig});
+    await sc.connect(relayer).executeMetaTx(manufacturer.address, PRODUCT_ID, receiver.address, ethers.ZeroHash, 0n, deadline, initiateSig);
+
+    const accept = {productId: PRODUCT_ID, nonce: 0n, deadline};
+    const acceptSig = await receiver.signTypedData(verifier.domain, ACCEPT_TRANSFER_TYPES, accept);
+    verifier.verifyAcceptTransfer({user: receiver.address, ...accept, signature: acceptSig});
+    await expect(sc.connect(relayer).acceptTransferWithSig(PRODUCT_ID, 0n, deadline, acceptSig)).to.emit(
+      sc,
+      "TransferAccepted"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import {expect} from "chai";
+import {promises as fs} from "fs";
+import os from "os";
+import path from "path";
+import {ethers} from "hardhat";
+
+import {loadRelayerSigners, RemoteSigner, RemoteSignerError} from "../src/blockchain/signers";
+import {ConfigError} from "../src/config";
+import {remoteSignerApp} from "../src/remoteSigner";
+import {createApp} from "../src/server";
+import {
+  deployFixture,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob
+} from "./fixtures";
+
+describe("relayer - signers", function () {
+  const token = "r".repeat(40);
+  const noKeys = {relayerPrivateKeys: [], relayerKeystores: []};
+
+  it("decrypts keystores and reports the ones it cannot open", async function () {
+    const wallet = ethers.Wallet.createRandom();
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "relayer-keystore-"));
+    try {
+      const file = path.join(dir, "relayer.json");
+      // A cheap scrypt setting keeps the test fast; real keystores use the default.
+      const account = {address: wallet.address, privateKey: wallet.privateKey};
+      await fs.writeFile(file, await ethers.encryptKeystoreJson(account, "hunter2", {scrypt: {N: 1 << 10}}));
+
+      const keystores = [{path: file, password: "hunter2"}];
+      const [signer] = await loadRelayerSigners({...noKeys, relayerKeystores: keystores}, ethers.provider);
+      expect(await signer.getAddress()).to.equal(wallet.address);
+      expect(signer.provider).to.equal(ethers.provider);
+
+      const missing = path.join(dir, "missing.json");
+      await expect(
+        loadRelayerSigners(
+          {
+            ...noKeys,
+            relayerKeystores: [
+              {path: file, password: "wrong"},
+              {path: missing, password: "hunter2"}
+            ]
+          },
+          ethers.provider
+        )
+      )
+        .to.be.rejectedWith(ConfigError)
+        .and.eventually.have.property("problems")
+        .that.deep.equals([
+          `relayerKeystores[0]: cannot decrypt ${file} (wrong password or not a v3 keystore)`,
+          `relayerKeystores[1]: cannot read ${missing} (ENOENT)`
+        ]);
+    } finally {
+      await fs.rm(dir, {recursive: true, force: true});
+    }
+  });
+
+  it("relays from a key held by a remote signer", async function () {
+    const fixture = await deployFixture();
+    const {sc, admin, manufacturer, receiver} = fixture;
+    const key = ethers.Wallet.createRandom();
+    await (await admin.sendTransaction({to: key.address, value: ethers.parseEther("1")})).wait();
+    await sc.approveRelayer(key.address);
+
+    const signerServer = await listen(remoteSignerApp([new ethers.Wallet(key.privateKey)], {token}));
+    const remoteSigner = {url: signerServer.url, addresses: [key.address], token};
+    const [signer] = await loadRelayerSigners({...noKeys, remoteSigner}, ethers.provider);
+    expect(signer).to.be.instanceOf(RemoteSigner);
+
+    const deps = await relayerDeps(sc, signer as RemoteSigner);
+    const server = await listen(createApp(deps));
+    try {
+      const deadline = (await latestTimestamp()) + 3600n;
+      const value = {productId: PRODUCT_ID, to: receiver.address, locationHash: ethers.ZeroHash, nonce: 0n, deadline};
+      const signature = await signInitiateTransfer(sc, manufacturer, value);
+      const intent = {user: manufacturer.address, ...value, signature};
+      const accepted = await postJson<SerializedJob>(`${server.url}/relay`, intent);
+      const job = await waitForJob(server.url, accepted.body.jobId);
+
+      expect(job.status).to.equal("mined");
+      expect((await ethers.provider.getTransaction(job.txHash!))!.from).to.equal(key.address);
+    } finally {
+      await server.close();
+      await signerServer.close();
+    }
+  });
+
+  it("checks every signature the remote signer returns", async function () {
+    const key = ethers.Wallet.createRandom();
+    const impostor = ethers.Wallet.createRandom();
+    const signerServer = await listen(remoteSignerApp([new ethers.Wallet(key.privateKey)], {token}));
+    try {
+      const signer = new RemoteSigner(key.address, {url: signerServer.url, token});
+      const domain = {name: "SupplyChain", version: "1", chainId: 31337n, verifyingContract: impostor.address};
+      const types = {AcceptTransfer: [{name: "productId", type: "uint256"}, {name: "nonce", type: "uint256"}]};
+      const value = {productId: 1n, nonce: 2n};
+      expect(await signer.signTypedData(domain, types, value)).to.equal(await key.signTypedData(domain, types, value));
+      expect(await signer.signMessage("hello")).to.equal(await key.signMessage("hello"));
+
+      const unknown = new RemoteSigner(impostor.address, {url: signerServer.url, token});
+      await expect(unknown.signMessage("hello")).to.be.rejectedWith(RemoteSignerError, "unknown account");
+      const unauthenticated = new RemoteSigner(key.address, {url: signerServer.url});
+      await expect(unauthenticated.signMessage("hello"))
+        .to.be.rejectedWith(RemoteSignerError)
+        .and.eventually.have.property("status", 401);
+
+      const remoteSigner = {url: signerServer.url, addresses: [impostor.address], token};
+      await expect(loadRelayerSigners({...noKeys, remoteSigner}, ethers.provider))
+        .to.be.rejectedWith(ConfigError)
+        .and.eventually.have.property("problems")
+        .that.deep.equals([`remoteSigner.addresses: ${impostor.address} is not offered by ${signerServer.url}`]);
+    } finally {
+      await signerServer.close();
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import {
+  deployFixture,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  signAcceptTransfer,
+  signInitiateTransfer
+} from "./fixtures";
+
+describe("relayer - POST /relay/simulate", function () {
+  async function simulateFixture() {
+    const fixture = await deployFixture();
+    const server = await listen(createApp(await relayerDeps(fixture.sc, fixture.relayer)));
+    return {...fixture, server};
+  }
+
+  async function signedIntent(fixture: Awaited<ReturnType<typeof simulateFixture>>, productId = PRODUCT_ID) {
+    const {sc, manufacturer, receiver} = fixture;
+    const value = {
+      productId,
+      to: receiver.address,
+      locationHash: ethers.ZeroHash,
+      nonce: await sc.nonces(manufacturer.address),
+      deadline: (await latestTimestamp()) + 3600n
+    };
+    return {user: manufacturer.address, ...value, signature: await signInitiateTransfer(sc, manufacturer, value)};
+  }
+
+  it("estimates gas for an intent that would succeed without sending it", async function () {
+    const fixture = await simulateFixture();
+    const {sc, manufacturer, relayer, server} = fixture;
+
+    try {
+      const blockBefore = await ethers.provider.getBlockNumber();
+      const relayerNonce = await ethers.provider.getTransactionCount(relayer.address);
+
+      for (const method of ["executeMetaTx", "initiateTransferWithSig"]) {
+        const intent = {method, ...(await signedIntent(fixture))};
+        const res = await postJson<{success: boolean; gasEstimate: string}>(`${server.url}/relay/simulate`, intent);
+        expect(res.status).to.equal(200);
+        expect(res.body).to.include({success: true, method});
+        expect(BigInt(res.body.gasEstimate)).to.be.greaterThan(21_000n);
+      }
+
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore);
+      expect(await ethers.provider.getTransactionCount(relayer.address)).to.equal(relayerNonce);
+      expect(await sc.nonces(manufacturer.address)).to.equal(0n);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("returns the decoded custom error an intent would revert with", async function () {
+    const fixture = await simulateFixture();
+    const {sc, manufacturer, receiver, server} = fixture;
+
+    try {
+      const missing = await postJson(`${server.url}/relay/simulate`, await signedIntent(fixture, PRODUCT_ID + 1n));
+      expect(missing.status).to.equal(200);
+      expect(missing.body).to.deep.equal({
+        success: false,
+        method: "executeMetaTx",
+        error: "ProductNotFound",
+        args: []
+      });
+
+      await sc.connect(manufacturer).initiateTransfer(PRODUCT_ID, receiver.address, ethers.ZeroHash);
+      const pending = await postJson(`${server.url}/relay/simulate`, await signedIntent(fixture));
+      expect(pending.body).to.include({success: false, error: "TransferAlreadyPending"});
+
+      // The receiver can accept; anyone else signing an accept is NotAuthorized.
+      const value = {productId: PRODUCT_ID, nonce: 0n, deadline: (await latestTimestamp()) + 3600n};
+      const accept = {method: "acceptTransferWithSig", productId: PRODUCT_ID, nonce: 0n, deadline: value.deadline};
+      const ok = await postJson(`${server.url}/relay/simulate`, {
+        ...accept,
+        user: receiver.address,
+        signature: await signAcceptTransfer(sc, receiver, value)
+      });
+      expect(ok.body).to.include({success: true, method: "acceptTransferWithSig"});
+
+      const wrong = await postJson(`${server.url}/relay/simulate`, {
+        ...accept,
+        user: manufacturer.address,
+        signature: await signAcceptTransfer(sc, manufacturer, value)
+      });
+      expect(wrong.body).to.include({success: false, error: "NotAuthorized"});
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("rejects malformed intents with the offending field", async function () {
+    const fixture = await simulateFixture();
+    const {server} = fixture;
+
+    try {
+      const res = await postJson(`${server.url}/relay/simulate`, {...(await signedIntent(fixture)), method: "burn"});
+      expect(res.status).to.equal(400);
+      expect(res.body.field).to.equal("method");
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {
+  BatchNotActiveError,
+  decodeSupplyChainError,
+  NoRelayerApprovalError,
+  NotAuthorizedError,
+  ProductNotFoundError,
+  SupplyChainClient,
+  SupplyChainError,
+  TransferAlreadyPendingError,
+  type RelayCall
+} from "../src/blockchain/supplyChain";
+import {deployFixture, latestTimestamp, PRODUCT_ID, signInitiateTransfer} from "./fixtures";
+
+describe("relayer - SupplyChain client", function () {
+  it("returns typed reads", async function () {
+    const {sc, manufacturer} = await deployFixture();
+    const client = new SupplyChainClient(sc);
+
+    expect(await client.ownerOf(PRODUCT_ID)).to.equal(manufacturer.address);
+    expect(await client.productBatch(PRODUCT_ID)).to.equal(1n);
+    expect(await client.getBatchMetadata(1n)).to.deep.equal({
+      manufacturer: manufacturer.address,
+      maxUnits: 10n,
+      minted: 1n,
+      stake: ethers.parseEther("0.01"),
+      status: "CREATED"
+    });
+    expect(await client.nonces(manufacturer.address)).to.equal(0n);
+    expect(await client.isDisputeActive(PRODUCT_ID)).to.equal(false);
+  });
+
+  it("decodes read reverts into error classes", async function () {
+    const {sc} = await deployFixture();
+    const client = new SupplyChainClient(sc);
+
+    await expect(client.ownerOf(999n)).to.be.rejectedWith(ProductNotFoundError);
+    await expect(client.getBatchMetadata(2n))
+      .to.be.rejectedWith(BatchNotActiveError)
+      .and.eventually.have.property("errorName", "BatchNotActive");
+  });
+
+  it("decodes predicted reverts of relayed calls", async function () {
+    const {sc, manufacturer, receiver, relayer, other} = await deployFixture();
+    const client = new SupplyChainClient(sc.connect(relayer));
+    const deadline = (await latestTimestamp()) + 600n;
+    const value = {productId: PRODUCT_ID, to: receiver.address, locationHash: ethers.ZeroHash, nonce: 0n, deadline};
+    const call = async (signer: typeof other): Promise<RelayCall> => ({
+      method: "executeMetaTx",
+      args: [
+        signer.address,
+        PRODUCT_ID,
+        receiver.address,
+        ethers.ZeroHash,
+        0n,
+        deadline,
+        await signInitiateTransfer(sc, signer, value)
+      ]
+    });
+
+    await expect(client.connect(other).estimateGas(await call(manufacturer))).to.be.rejectedWith(
+      NoRelayerApprovalError
+    );
+    await expect(client.estimateGas(await call(other))).to.be.rejectedWith(NotAuthorizedError);
+
+    await sc.connect(manufacturer).initiateTransfer(PRODUCT_ID, receiver.address, ethers.ZeroHash);
+    await expect(client.staticCall(await call(manufacturer))).to.be.rejectedWith(TransferAlreadyPendingError);
+  });
+
+  it("decodes inherited OpenZeppelin errors with their arguments", async function () {
+    const {sc, other} = await deployFixture();
+    const role = await sc.MANUFACTURER();
+
+    let error: SupplyChainError | null = null;
+    try {
+      await sc.connect(other).grantRoleSafe.staticCall(role, other.address);
+    } catch (err) {
+      error = decodeSupplyChainError(err);
+    }
+
+    expect(error).to.be.instanceOf(SupplyChainError);
+    expect(error!.errorName).to.equal("AccessControlUnauthorizedAccount");
+    expect(error!.args).to.deep.equal([other.address, ethers.ZeroHash]);
+  });
+
+  it("returns reverted receipts and replays them for the reason", async function () {
+    const {sc, receiver, relayer, other} = await deployFixture();
+    const client = new SupplyChainClient(sc.connect(relayer), 1);
+    const deadline = (await latestTimestamp()) + 600n;
+    const value = {productId: PRODUCT_ID, to: receiver.address, locationHash: ethers.ZeroHash, nonce: 0n, deadline};
+    const signature = await signInitiateTransfer(sc, other, value);
+
+    // With automine on, hardhat rejects the send itself instead of mining the revert.
+    await ethers.provider.send("evm_setAutomine", [false]);
+    let tx;
+    try {
+      tx = await client.send(
+        {
+          method: "executeMetaTx",
+          args: [other.address, PRODUCT_ID, receiver.address, ethers.ZeroHash, 0n, deadline, signature]
+        },
+        {gasLimit: 300_000n}
+      );
+      await ethers.provider.send("evm_mine", []);
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+    const receipt = await client.wait(tx);
+
+    expect(receipt!.status).to.equal(0);
+    expect(await client.revertOf({...tx, blockNumber: receipt!.blockNumber})).to.be.instanceOf(NotAuthorizedError);
+  });
+});
@@ -0,0 +1,176 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import type {TenantConfig} from "../src/services/tenants";
+import {
+  deployFixture,
+  FAST_QUEUE,
+  GENEROUS_GAS_POLICY,
+  GENEROUS_RATE_LIMITS,
+  latestTimestamp,
+  listen,
+  PRODUCT_ID,
+  relayerDeps,
+  requestJson,
+  signAcceptTransfer,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob
+} from "./fixtures";
+
+describe("relayer - tenants", function () {
+  /** GET /tenants/usage, amounts as decimal strings. */
+  interface TenantUsage {
+    tenant: string;
+    month: string;
+    monthlyGasQuota: string;
+    gasUsed: string;
+    weiSpent: string;
+    transactions: number;
+    gasRemaining: string;
+  }
+
+  const acmeKey = "a".repeat(40);
+  const betaKey = "b".repeat(40);
+
+  async function tenantFixture(overrides: {acme?: Partial<TenantConfig>} = {}) {
+    const fixture = await deployFixture();
+    const {sc, manufacturer, receiver, relayer} = fixture;
+    const tenants: TenantConfig[] = [
+      {
+        id: "acme",
+        apiKey: acmeKey,
+        signers: [manufacturer.address],
+        batches: [{from: 1n, to: 1n}],
+        monthlyGasQuota: 10_000_000n,
+        ...overrides.acme
+      },
+      {
+        id: "beta",
+        apiKey: betaKey,
+        signers: [receiver.address],
+        batches: [{from: 2n, to: 9n}],
+        monthlyGasQuota: 10_000_000n
+      }
+    ];
+    const deps = await relayerDeps(sc, relayer, GENEROUS_GAS_POLICY, GENEROUS_RATE_LIMITS, FAST_QUEUE, tenants);
+    const server = await listen(createApp(deps));
+    const relay = <T = Record<string, unknown>>(body: unknown, apiKey?: string) =>
+      requestJson<T>("POST", `${server.url}/relay`, body, apiKey ? {"x-api-key": apiKey} : {});
+    const usage = (apiKey: string, query = "") =>
+      requestJson<TenantUsage>("GET", `${server.url}/tenants/usage${query}`, undefined, {"x-api-key": apiKey});
+
+    async function initiate(nonce = 0n) {
+      const deadline = (await latestTimestamp()) + 3600n;
+      const value = {productId: PRODUCT_ID, to: receiver.address, locationHash: ethers.ZeroHash, nonce, deadline};
+      return {
+        method: "initiateTransferWithSig",
+        user: manufacturer.address,
+        ...value,
+        signature: await signInitiateTransfer(sc, manufacturer, value)
+      };
+    }
+
+    return {...fixture, deps, server, relay, usage, initiate};
+  }
+
+  it("requires an API key and only relays the tenant's own signers", async function () {
+    const {server, relay, initiate} = await tenantFixture();
+
+    try {
+      const missing = await relay(await initiate());
+      expect(missing.status).to.equal(401);
+      expect(missing.headers.get("www-authenticate")).to.equal('ApiKey header="X-API-Key"');
+
+      expect((await relay(await initiate(), "c".repeat(40))).status).to.equal(401);
+
+      const foreign = await relay(await initiate(), betaKey);
+      expect(foreign.status).to.equal(403);
+      expect(foreign.body.reason).to.equal("signer not allowed");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("charges the tenant that sponsors the product's batch", async function () {
+    const {sc, receiver, server, relay, usage, initiate} = await tenantFixture();
+
+    try {
+      const initiated = await relay<SerializedJob>(await initiate(), acmeKey);
+      expect(initiated.status).to.equal(202);
+      expect(initiated.body.tenant).to.equal("acme");
+      expect((await waitForJob(server.url, initiated.body.jobId)).status).to.equal("mined");
+
+      // The receiver belongs to beta, but the product was minted in acme's batch.
+      const accept = {productId: PRODUCT_ID, nonce: 0n, deadline: (await latestTimestamp()) + 3600n};
+      const signature = await signAcceptTransfer(sc, receiver, accept);
+      const acceptIntent = {method: "acceptTransferWithSig", user: receiver.address, ...accept, signature};
+      const accepted = await relay<SerializedJob>(acceptIntent, betaKey);
+      expect(accepted.body.tenant).to.equal("acme");
+      const mined = await waitForJob(server.url, accepted.body.jobId);
+      expect(mined.status).to.equal("mined");
+
+      const acme = (await usage(acmeKey)).body;
+      expect(acme).to.include({tenant: "acme", monthlyGasQuota: "10000000", transactions: 2});
+      expect(BigInt(acme.gasUsed)).to.be.greaterThan(0n);
+      expect(BigInt(acme.weiSpent)).to.be.greaterThan(0n);
+      expect(BigInt(acme.gasRemaining)).to.equal(10_000_000n - BigInt(acme.gasUsed));
+
+      expect((await usage(betaKey)).body).to.include({tenant: "beta", gasUsed: "0", transactions: 0});
+      expect((await usage(acmeKey, "?month=2026-13")).status).to.equal(400);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("refuses products in unsponsored batches", async function () {
+    const {server, relay, initiate} = await tenantFixture({acme: {batches: [{from: 10n, to: 20n}]}});
+
+    try {
+      const refused = await relay(await initiate(), acmeKey);
+      expect(refused.status).to.equal(403);
+      expect(refused.body).to.include({reason: "batch not sponsored", batchId: "1"});
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("refuses products that were never minted as the precheck would", async function () {
+    const {sc, manufacturer, receiver, server, relay} = await tenantFixture();
+
+    try {
+      const value = {
+        productId: 999n,
+        to: receiver.address,
+        locationHash: ethers.ZeroHash,
+        nonce: 0n,
+        deadline: (await latestTimestamp()) + 3600n
+      };
+      const signature = await signInitiateTransfer(sc, manufacturer, value);
+      const intent = {method: "initiateTransferWithSig", user: manufacturer.address, ...value, signature};
+      const refused = await relay(intent, acmeKey);
+      expect(refused.status).to.equal(422);
+      expect(refused.body).to.include({reason: "product not found", revert: "ProductNotFound", productId: "999"});
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("refuses once the monthly quota is spent and hands the nonce back", async function () {
+    const {server, relay, usage, initiate} = await tenantFixture({acme: {monthlyGasQuota: 1_000n}});
+
+    try {
+      const refused = await relay(await initiate(), acmeKey);
+      expect(refused.status).to.equal(403);
+      expect(refused.body).to.include({reason: "monthly quota exhausted", tenant: "acme"});
+      expect((await usage(acmeKey)).body).to.include({gasUsed: "0", gasRemaining: "1000"});
+
+      // The refusal did not consume the signer's nonce, so the same intent can be sent later.
+      const retried = await relay(await initiate(), acmeKey);
+      expect(retried.body.reason).to.equal("monthly quota exhausted");
+    } finally {
+      await server.close();
+    }
+  });
+});
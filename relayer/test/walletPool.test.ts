@@ -0,0 +1,132 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import {NoRelayerAvailableError, WalletPool} from "../src/services/walletPool";
+import {
+  deployFixture,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerAccount,
+  relayerDeps,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob
+} from "./fixtures";
+
+describe("relayer - wallet pool", function () {
+  // Balances set here would otherwise leak into later tests that share these signers.
+  let snapshot: string;
+  beforeEach(async function () {
+    snapshot = await ethers.provider.send("evm_snapshot", []);
+  });
+  afterEach(async function () {
+    await ethers.provider.send("evm_revert", [snapshot]);
+  });
+
+  async function poolFixture() {
+    const fixture = await deployFixture();
+    const signers = await ethers.getSigners();
+    const second = signers[5];
+    await fixture.sc.approveRelayer(second.address);
+    const pool = (refreshIntervalMs = 0) =>
+      new WalletPool([relayerAccount(fixture.sc, fixture.relayer), relayerAccount(fixture.sc, second)], {
+        provider: ethers.provider,
+        minBalance: ethers.parseEther("1"),
+        refreshIntervalMs
+      });
+    return {...fixture, second, pool};
+  }
+
+  it("sends each submission from the least busy key", async function () {
+    const {relayer, second, pool} = await poolFixture();
+    const wallets = pool();
+
+    const first = await wallets.acquire();
+    const next = await wallets.acquire();
+    expect([first.address, next.address]).to.have.members([relayer.address, second.address]);
+
+    wallets.release(first.address);
+    expect((await wallets.acquire()).address).to.equal(first.address);
+  });
+
+  it("pauses a key that runs low on balance until it is topped up", async function () {
+    const {relayer, second, pool} = await poolFixture();
+    const wallets = pool();
+
+    await ethers.provider.send("hardhat_setBalance", [second.address, "0x1"]);
+    for (let i = 0; i < 3; i++) expect((await wallets.acquire()).address).to.equal(relayer.address);
+    expect((await wallets.statuses()).find((s) => s.address === second.address)).to.include({
+      state: "low balance",
+      balance: 1n
+    });
+
+    await ethers.provider.send("hardhat_setBalance", [second.address, ethers.toQuantity(ethers.parseEther("10"))]);
+    expect((await wallets.acquire()).address).to.equal(second.address);
+  });
+
+  it("refuses keys missing from approvedRelayers", async function () {
+    const {sc, relayer, other} = await poolFixture();
+    const unapproved = (await ethers.getSigners())[6];
+    const wallets = new WalletPool([relayerAccount(sc, other), relayerAccount(sc, relayer)], {
+      provider: ethers.provider,
+      minBalance: 1n,
+      refreshIntervalMs: 0
+    });
+
+    for (let i = 0; i < 3; i++) expect((await wallets.acquire()).address).to.equal(relayer.address);
+    expect((await wallets.statuses()).map((s) => s.state)).to.deep.equal(["not approved", "active"]);
+
+    const none = new WalletPool([relayerAccount(sc, unapproved)], {provider: ethers.provider, minBalance: 1n});
+    await expect(none.acquire()).to.be.rejectedWith(NoRelayerAvailableError);
+  });
+
+  it("reuses a recent check instead of querying the chain for every submission", async function () {
+    const {relayer, second, pool} = await poolFixture();
+    const wallets = pool(60_000);
+
+    await wallets.acquire();
+    await ethers.provider.send("hardhat_setBalance", [relayer.address, "0x0"]);
+    await ethers.provider.send("hardhat_setBalance", [second.address, "0x0"]);
+    await wallets.acquire();
+
+    await wallets.refresh(true);
+    await expect(wallets.acquire()).to.be.rejectedWith(NoRelayerAvailableError);
+  });
+
+  it("relays concurrent intents from different keys", async function () {
+    const {sc, manufacturer, receiver, relayer} = await deployFixture();
+    const second = (await ethers.getSigners())[5];
+    await sc.approveRelayer(second.address);
+    await sc.grantRoleSafe(await sc.MANUFACTURER(), receiver.address);
+    await sc.connect(receiver).registerBatch(2, 10, {value: ethers.parseEther("0.01")});
+    await sc.connect(receiver).mintProduct(PRODUCT_ID + 1n, 2, ethers.ZeroHash);
+    const server = await listen(createApp(await relayerDeps(sc, [relayer, second])));
+
+    try {
+      const deadline = (await latestTimestamp()) + 3600n;
+      const intents = await Promise.all(
+        [
+          {owner: manufacturer, productId: PRODUCT_ID, to: receiver.address},
+          {owner: receiver, productId: PRODUCT_ID + 1n, to: manufacturer.address}
+        ].map(async ({owner, productId, to}) => {
+          const value = {productId, to, locationHash: ethers.ZeroHash, nonce: 0n, deadline};
+          return {user: owner.address, ...value, signature: await signInitiateTransfer(sc, owner, value)};
+        })
+      );
+
+      const responses = await Promise.all(
+        intents.map((intent) => postJson<SerializedJob>(`${server.url}/relay`, intent))
+      );
+      const jobs = await Promise.all(responses.map((res) => waitForJob(server.url, res.body.jobId)));
+      expect(jobs.map((job) => job.status)).to.deep.equal(["mined", "mined"]);
+
+      const senders = await Promise.all(jobs.map(async (job) => (await ethers.provider.getTransaction(job.txHash!))!.from));
+      expect(senders).to.have.members([relayer.address, second.address]);
+    } finally {
+      await server.close();
+    }
+  });
+});
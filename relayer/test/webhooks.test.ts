@@ -0,0 +1,324 @@
+import {expect} from "chai";
+import express from "express";
+import {ethers} from "hardhat";
+
+import {createApp} from "../src/server";
+import type {RelayJob} from "../src/services/relayQueue";
+import {MemoryJsonStore} from "../src/services/store";
+import type {TenantConfig} from "../src/services/tenants";
+import {signWebhook, verifyWebhook, WebhookNotifier, type WebhookPayload} from "../src/services/webhooks";
+import {webhookReceiverApp} from "../src/webhookReceiver";
+import {
+  deployFixture,
+  FAST_QUEUE,
+  FAST_WEBHOOKS,
+  GENEROUS_GAS_POLICY,
+  GENEROUS_RATE_LIMITS,
+  latestTimestamp,
+  listen,
+  postJson,
+  PRODUCT_ID,
+  relayerDeps,
+  requestJson,
+  signInitiateTransfer,
+  waitForJob,
+  type SerializedJob,
+  type TestRelayerDeps
+} from "./fixtures";
+
+describe("relayer - webhooks", function () {
+  async function until<T>(read: () => T | undefined | Promise<T | undefined>, timeoutMs = 5_000): Promise<T> {
+    const started = Date.now();
+    for (;;) {
+      const value = await read();
+      if (value !== undefined) return value;
+      if (Date.now() - started > timeoutMs) throw new Error("timed out waiting for a webhook");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  async function webhookFixture(tenants: TenantConfig[] = []) {
+    const fixture = await deployFixture();
+    const deps = await relayerDeps(
+      fixture.sc,
+      fixture.relayer,
+      GENEROUS_GAS_POLICY,
+      GENEROUS_RATE_LIMITS,
+      FAST_QUEUE,
+      tenants
+    );
+    const received: WebhookPayload[] = [];
+    const hook = await listen(webhookReceiverApp(FAST_WEBHOOKS.secret!, (payload) => received.push(payload)));
+    const serve = async (relayerDeps: TestRelayerDeps, fn: (url: string) => Promise<void>) => {
+      const server = await listen(createApp(relayerDeps));
+      try {
+        await fn(server.url);
+      } finally {
+        await server.close();
+        await relayerDeps.queue.close();
+        await relayerDeps.webhooks.close();
+      }
+    };
+
+    async function intent() {
+      const {sc, manufacturer, receiver: to} = fixture;
+      const deadline = (await latestTimestamp()) + 3600n;
+      const value = {productId: PRODUCT_ID, to: to.address, locationHash: ethers.ZeroHash, nonce: 0n, deadline};
+      return {user: manufacturer.address, ...value, signature: await signInitiateTransfer(sc, manufacturer, value)};
+    }
+    return {...fixture, deps, hook, received, serve, intent};
+  }
+
+  it("posts a signed callback once the job is mined", async function () {
+    const {deps, hook, received, serve, intent} = await webhookFixture();
+    try {
+      await serve(deps, async (url) => {
+        const res = await postJson(`${url}/relay`, {...(await intent()), webhookUrl: `${hook.url}/hooks`});
+        expect(res.status).to.equal(202);
+
+        const callback = await until(() => received[0]);
+        expect(callback.event).to.equal("job.mined");
+        expect(callback.job).to.include({jobId: res.body.jobId, status: "mined", productId: PRODUCT_ID.toString()});
+        expect(callback.job.txHash).to.equal(res.body.txHash);
+        // The receiver has the callback before the notifier has read its response and dropped the delivery.
+        const delivered = async () => ((await deps.webhooks.pending()).length === 0 ? true : undefined);
+        expect(await until(delivered)).to.equal(true);
+      });
+    } finally {
+      await hook.close();
+    }
+  });
+
+  it("reports an on-chain revert with the decoded SupplyChain error", async function () {
+    const {sc, manufacturer, receiver: to, deps, hook, received, serve, intent} = await webhookFixture();
+    try {
+      await serve(deps, async (url) => {
+        await ethers.provider.send("evm_setAutomine", [false]);
+        try {
+          await postJson(`${url}/relay`, {...(await intent()), webhookUrl: hook.url});
+          // Mined first in the same block, so the relayed transfer hits TransferAlreadyPending.
+          await sc.connect(manufacturer).initiateTransfer(PRODUCT_ID, to.address, ethers.ZeroHash, {
+            maxPriorityFeePerGas: ethers.parseUnits("100", "gwei"),
+            maxFeePerGas: ethers.parseUnits("200", "gwei")
+          });
+          await ethers.provider.send("evm_mine", []);
+        } finally {
+          await ethers.provider.send("evm_setAutomine", [true]);
+        }
+
+        const callback = await until(() => received[0]);
+        expect(callback.event).to.equal("job.reverted");
+        expect(callback.job).to.include({status: "failed", error: "TransferAlreadyPending"});
+        expect(callback.job.blockNumber).to.be.a("number");
+      });
+    } finally {
+      await hook.close();
+    }
+  });
+
+  it("releases the key and the signer's next nonce when a callback cannot be stored", async function () {
+    const {sc, manufacturer, receiver: to, deps, hook, serve} = await webhookFixture();
+    await sc.connect(manufacturer).mintProduct(PRODUCT_ID + 1n, 1, ethers.ZeroHash);
+    deps.webhooks.notify = () => Promise.reject(new Error("disk full"));
+
+    async function initiate(productId: bigint, nonce: bigint) {
+      const deadline = (await latestTimestamp()) + 3600n;
+      const value = {productId, to: to.address, locationHash: ethers.ZeroHash, nonce, deadline};
+      const signature = await signInitiateTransfer(sc, manufacturer, value);
+      return {user: manufacturer.address, ...value, signature, webhookUrl: hook.url};
+    }
+
+    try {
+      await serve(deps, async (url) => {
+        const later = await postJson<SerializedJob>(`${url}/relay`, await initiate(PRODUCT_ID + 1n, 1n));
+        expect(later.body.status).to.equal("queued");
+        const first = await postJson<SerializedJob>(`${url}/relay`, await initiate(PRODUCT_ID, 0n));
+
+        expect((await waitForJob(url, first.body.jobId)).status).to.equal("mined");
+        expect((await waitForJob(url, later.body.jobId)).status).to.equal("mined");
+      });
+    } finally {
+      await hook.close();
+    }
+  });
+
+  it("retries with exponential backoff and gives up after maxAttempts", async function () {
+    const attempts: {at: number; delivery: string; signed: boolean}[] = [];
+    let failures = 2;
+    const app = express();
+    app.post("/", express.text({type: "*/*"}), (req, res) => {
+      const signed = verifyWebhook(FAST_WEBHOOKS.secret!, req.body, req.get("x-relayer-signature"));
+      attempts.push({at: Date.now(), delivery: req.get("x-relayer-delivery")!, signed});
+      res.sendStatus(failures-- > 0 ? 500 : 204);
+    });
+    const receiver = await listen(app);
+    const notifier = new WebhookNotifier({store: new MemoryJsonStore()}, FAST_WEBHOOKS);
+    const job = (id: string): RelayJob => ({
+      id,
+      digest: ethers.ZeroHash,
+      intent: {method: "executeMetaTx", user: ethers.ZeroAddress, productId: "1", nonce: "0"},
+      status: "expired",
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      attempts: [],
+      webhookUrl: receiver.url
+    });
+
+    try {
+      await notifier.notify(job("flaky"));
+      // The receiver sees the third attempt before the notifier has handled its answer.
+      await until(async () => (attempts.length === 3 && (await notifier.pending()).length === 0 ? true : undefined));
+      expect(attempts.every(({signed}) => signed)).to.equal(true);
+      expect(new Set(attempts.map(({delivery}) => delivery)).size).to.equal(1);
+      expect(attempts[1].at - attempts[0].at).to.be.at.least(FAST_WEBHOOKS.initialBackoffMs);
+      expect(attempts[2].at - attempts[1].at).to.be.at.least(2 * FAST_WEBHOOKS.initialBackoffMs);
+
+      failures = Infinity;
+      await notifier.notify(job("down"));
+      const [pending] = await until(() => (attempts.length === 4 ? notifier.pending() : undefined));
+      expect(pending).to.include({attempts: 1, lastError: "HTTP 500", event: "job.expired"});
+      await until(() => (attempts.length === 6 ? true : undefined));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(attempts).to.have.length(6);
+      expect(await notifier.pending()).to.deep.equal([]);
+    } finally {
+      await notifier.close();
+      await receiver.close();
+    }
+  });
+
+  it("calls a tenant's webhook, signed with the tenant's own secret", async function () {
+    const tenantSecret = "t".repeat(40);
+    const tenantEvents: WebhookPayload[] = [];
+    const tenantReceiver = await listen(webhookReceiverApp(tenantSecret, (payload) => tenantEvents.push(payload)));
+    const {manufacturer} = await deployFixture();
+    const acme: TenantConfig = {
+      id: "acme",
+      apiKey: "a".repeat(40),
+      signers: [manufacturer.address],
+      batches: [{from: 1n, to: 1n}],
+      monthlyGasQuota: 10_000_000n,
+      webhook: {url: tenantReceiver.url, secret: tenantSecret}
+    };
+    const {deps, hook, received, serve, intent} = await webhookFixture([acme]);
+
+    try {
+      await serve(deps, async (url) => {
+        const res = await requestJson("POST", `${url}/relay`, await intent(), {"x-api-key": acme.apiKey});
+        expect(res.status).to.equal(202);
+        const callback = await until(() => tenantEvents[0]);
+        expect(callback).to.include({event: "job.mined"});
+        expect(callback.job).to.include({jobId: res.body.jobId, tenant: "acme"});
+        expect(received).to.deep.equal([]);
+      });
+    } finally {
+      await hook.close();
+      await tenantReceiver.close();
+    }
+  });
+
+  it("refuses a webhookUrl it would have no secret to sign for", async function () {
+    const {sc, manufacturer, deps, hook, serve, intent} = await webhookFixture();
+    deps.webhooks = new WebhookNotifier({store: new MemoryJsonStore()}, {...FAST_WEBHOOKS, secret: undefined});
+    try {
+      await serve(deps, async (url) => {
+        const res = await postJson(`${url}/relay`, {...(await intent()), webhookUrl: hook.url});
+        expect(res.status).to.equal(400);
+        expect(res.body).to.include({field: "webhookUrl", reason: "webhooks are not enabled on this relayer"});
+
+        const malformed = await postJson(`${url}/relay`, {...(await intent()), webhookUrl: "ftp://example.com"});
+        expect(malformed.body).to.include({field: "webhookUrl", reason: "expected an http(s) URL to post the outcome to"});
+        expect(await sc.nonces(manufacturer.address)).to.equal(0n);
+      });
+    } finally {
+      await hook.close();
+    }
+  });
+
+  it("needs an API key for a webhookUrl outside WEBHOOK_ALLOWED_HOSTS", async function () {
+    const {manufacturer} = await deployFixture();
+    const acme: TenantConfig = {
+      id: "acme",
+      apiKey: "a".repeat(40),
+      signers: [manufacturer.address],
+      batches: [{from: 1n, to: 1n}],
+      monthlyGasQuota: 10_000_000n
+    };
+    const {sc, deps, hook, serve, intent} = await webhookFixture();
+    const shared = await webhookFixture([acme]);
+    const webhookUrl = "http://169.254.169.254/latest/meta-data";
+    try {
+      await serve(deps, async (url) => {
+        const res = await postJson(`${url}/relay`, {...(await intent()), webhookUrl});
+        expect(res.status).to.equal(400);
+        expect(res.body).to.include({
+          field: "webhookUrl",
+          reason: "host is not in WEBHOOK_ALLOWED_HOSTS; send a tenant API key"
+        });
+        expect(await sc.nonces(manufacturer.address)).to.equal(0n);
+      });
+      await shared.serve(shared.deps, async (url) => {
+        const body = {...(await shared.intent()), webhookUrl};
+        const res = await requestJson("POST", `${url}/relay`, body, {"x-api-key": acme.apiKey});
+        expect(res.status).to.equal(202);
+      });
+    } finally {
+      await hook.close();
+      await shared.hook.close();
+    }
+  });
+
+  it("drops callbacks to internal addresses unless their host is allowed", async function () {
+    let calls = 0;
+    const app = express();
+    app.post("/", (_req, res) => {
+      calls += 1;
+      res.sendStatus(204);
+    });
+    const receiver = await listen(app);
+    const {port} = new URL(receiver.url);
+    // Plenty of slow retries, so only a dropped callback leaves the queue in time.
+    const config = {...FAST_WEBHOOKS, allowedHosts: [], maxAttempts: 100, initialBackoffMs: 60_000};
+    const notifier = new WebhookNotifier({store: new MemoryJsonStore()}, config);
+    const job = (webhookUrl: string): RelayJob => ({
+      id: webhookUrl,
+      digest: ethers.ZeroHash,
+      intent: {method: "executeMetaTx", user: ethers.ZeroAddress, productId: "1", nonce: "0"},
+      status: "expired",
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      attempts: [],
+      webhookUrl
+    });
+
+    try {
+      for (const url of [
+        receiver.url,
+        `http://localhost:${port}`,
+        `http://[::1]:${port}`,
+        `http://[::ffff:127.0.0.1]:${port}`,
+        "http://169.254.169.254/latest/meta-data",
+        "http://10.0.0.1/",
+        "http://192.168.1.1/"
+      ]) {
+        await notifier.notify(job(url));
+      }
+      await until(async () => ((await notifier.pending()).length === 0 ? true : undefined));
+      expect(calls).to.equal(0);
+    } finally {
+      await notifier.close();
+      await receiver.close();
+    }
+  });
+
+  it("accepts only fresh callbacks signed with the right secret", function () {
+    const body = JSON.stringify({event: "job.mined"});
+    const now = Date.now();
+    const header = signWebhook("s".repeat(32), body, Math.floor(now / 1000));
+    expect(verifyWebhook("s".repeat(32), body, header, {now})).to.equal(true);
+    expect(verifyWebhook("x".repeat(32), body, header, {now})).to.equal(false);
+    expect(verifyWebhook("s".repeat(32), `${body} `, header, {now})).to.equal(false);
+    expect(verifyWebhook("s".repeat(32), body, header, {now: now + 301_000})).to.equal(false);
+    expect(verifyWebhook("s".repeat(32), body, undefined, {now})).to.equal(false);
+  });
+});